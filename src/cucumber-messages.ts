@@ -0,0 +1,416 @@
+/**
+ * Cucumber message protocol support for live test results
+ *
+ * Cucumber writes one JSON envelope per line (NDJSON) when it is started with
+ * `--plugin message:<file>`. Unlike the `pretty` output, envelopes identify
+ * every step exactly: a `testStepFinished` refers to a test step of a test case,
+ * the test case to a pickle, and the pickle (and its steps) to the Gherkin AST
+ * nodes they were compiled from. This module follows those IDs back to feature
+ * file line numbers so results can be attached to the right Test Explorer item,
+ * whatever the step text, language, Background or hook.
+ *
+ * @module cucumber-messages
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { StringDecoder } from 'string_decoder';
+
+/**
+ * Result of a step (or hook) resolved to feature file lines
+ */
+export interface MessageStepResult {
+  keyword: string;  // Gherkin keyword (e.g. "Given", "假如") or "Before"/"After" for hooks
+  name: string;  // Step text with outline parameters substituted, or the hook method
+  status: 'passed' | 'failed' | 'skipped' | 'pending' | 'undefined' | 'ambiguous';
+  errorMessage?: string;
+  snippet?: string;  // Suggested step definition for an undefined step
+  featureUri: string;  // Feature URI as reported by Cucumber (e.g. classpath:feature/login.feature)
+  scenarioLineNumber: number;  // Line of the Scenario / Scenario Outline keyword
+  exampleLineNumber?: number;  // Line of the Examples row, for outline pickles
+  lineNumber?: number;  // Line of the step (a Background step for background steps), undefined for hooks
+  isHook: boolean;
+}
+
+// Only the envelope fields used here, see https://github.com/cucumber/messages
+interface MessageLocation {
+  line: number;
+}
+
+interface MessageStep {
+  id: string;
+  keyword: string;
+  text: string;
+  location: MessageLocation;
+}
+
+interface MessageTableRow {
+  id: string;
+  location: MessageLocation;
+}
+
+interface MessageScenario {
+  id: string;
+  location: MessageLocation;
+  steps: MessageStep[];
+  examples?: Array<{ tableBody?: MessageTableRow[] }>;
+}
+
+interface MessageFeatureChild {
+  background?: { steps: MessageStep[] };
+  scenario?: MessageScenario;
+  rule?: { children: MessageFeatureChild[] };
+}
+
+interface MessageEnvelope {
+  gherkinDocument?: {
+    uri?: string;
+    feature?: { children: MessageFeatureChild[] };
+  };
+  pickle?: {
+    id: string;
+    uri: string;
+    astNodeIds: string[];
+    steps: Array<{ id: string; text: string; astNodeIds: string[] }>;
+  };
+  hook?: {
+    id: string;
+    name?: string;
+    type?: string;  // e.g. BEFORE_TEST_CASE or AFTER_TEST_STEP, only in recent message versions
+    sourceReference?: { javaMethod?: { className: string; methodName: string } };
+  };
+  testCase?: {
+    id: string;
+    pickleId: string;
+    testSteps: Array<{ id: string; pickleStepId?: string; hookId?: string }>;
+  };
+  testCaseStarted?: { id: string; testCaseId: string };
+  suggestion?: {
+    pickleStepId: string;
+    snippets: Array<{ language: string; code: string }>;
+  };
+  testStepFinished?: {
+    testCaseStartedId: string;
+    testStepId: string;
+    testStepResult: {
+      status: string;
+      message?: string;
+      exception?: { type: string; message?: string };
+    };
+  };
+}
+
+interface AstNode {
+  line: number;
+  keyword?: string;
+  text?: string;
+}
+
+interface TrackedStep {
+  pickleStepId?: string;
+  hookId?: string;
+  position: 'before' | 'between' | 'after';  // Relative to the pickle steps of the test case
+}
+
+// Labels of the hook types of the message protocol
+const HOOK_KEYWORDS: Record<string, string> = {
+  BEFORE_TEST_CASE: 'Before',
+  AFTER_TEST_CASE: 'After',
+  BEFORE_TEST_STEP: 'BeforeStep',
+  AFTER_TEST_STEP: 'AfterStep'
+};
+
+// Labels of hooks without a type, by their position relative to the pickle steps
+const HOOK_POSITION_KEYWORDS: Record<TrackedStep['position'], string> = {
+  before: 'Before',
+  between: 'Step hook',
+  after: 'After'
+};
+
+let messagesFileCounter = 0;
+
+/**
+ * Returns a fresh path for Cucumber's message output in the OS temp directory
+ */
+export function createMessagesFilePath(): string {
+  messagesFileCounter++;
+  return path.join(os.tmpdir(), `cucumber-messages-${process.pid}-${Date.now()}-${messagesFileCounter}.ndjson`);
+}
+
+/**
+ * Formats a message file path for Cucumber's plugin option (forward slashes on Windows as well)
+ */
+export function toMessagePluginOption(messagesFile: string): string {
+  return `message:${messagesFile.replace(/\\/g, '/')}`;
+}
+
+/**
+ * Follows a Cucumber NDJSON message file and reports step results as they finish
+ *
+ * @example
+ * const tracker = new CucumberMessageTracker(step => console.log(step.lineNumber, step.status));
+ * tracker.watch('/tmp/cucumber-messages.ndjson');
+ * // ... run Cucumber with --plugin message:/tmp/cucumber-messages.ndjson
+ * tracker.stop();
+ */
+export class CucumberMessageTracker {
+  private readonly astNodes = new Map<string, AstNode>();
+  private readonly pickles = new Map<string, NonNullable<MessageEnvelope['pickle']>>();
+  private readonly hooks = new Map<string, NonNullable<MessageEnvelope['hook']>>();
+  private readonly testSteps = new Map<string, TrackedStep>();
+  private readonly testCases = new Map<string, string>();  // Test case ID → pickle ID
+  private readonly testCasesStarted = new Map<string, string>();  // Test case started ID → test case ID
+  private readonly snippets = new Map<string, string>();  // Pickle step ID → suggested snippet
+  private readonly undefinedSteps = new Map<string, MessageStepResult>();  // Pickle step ID → last undefined result
+
+  private filePath?: string;
+  private offset = 0;
+  private pending = '';
+  private decoder = new StringDecoder('utf8');
+  private timer?: NodeJS.Timeout;
+  private envelopeCount = 0;
+
+  constructor(
+    private readonly onStepFinished: (step: MessageStepResult) => void,
+    private readonly log?: (message: string, level?: 'INFO' | 'WARN' | 'ERROR' | 'DEBUG') => void
+  ) {}
+
+  /**
+   * Number of envelopes read so far
+   */
+  get envelopesRead(): number {
+    return this.envelopeCount;
+  }
+
+  /**
+   * Starts polling the message file; it may not exist yet when Cucumber has not started
+   */
+  watch(filePath: string, intervalMs = 200): void {
+    this.filePath = filePath;
+    this.offset = 0;
+    this.pending = '';
+    this.decoder = new StringDecoder('utf8');
+    this.timer = setInterval(() => this.poll(), intervalMs);
+  }
+
+  /**
+   * Stops polling after reading whatever Cucumber wrote last
+   *
+   * @param deleteFile - Remove the message file afterwards (default true)
+   */
+  stop(deleteFile = true): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+    this.poll();
+
+    const rest = (this.pending + this.decoder.end()).trim();
+    this.pending = '';
+    if (rest) {
+      this.handleLine(rest);
+    }
+
+    if (deleteFile && this.filePath && fs.existsSync(this.filePath)) {
+      try {
+        fs.unlinkSync(this.filePath);
+      } catch (error: any) {
+        this.log?.(`Could not delete message file ${this.filePath}: ${error.message}`, 'WARN');
+      }
+    }
+  }
+
+  /**
+   * Handles one decoded envelope (exposed for callers that receive messages some other way)
+   */
+  handleEnvelope(envelope: MessageEnvelope): void {
+    this.envelopeCount++;
+
+    if (envelope.gherkinDocument?.feature) {
+      this.indexFeatureChildren(envelope.gherkinDocument.feature.children);
+    } else if (envelope.pickle) {
+      this.pickles.set(envelope.pickle.id, envelope.pickle);
+    } else if (envelope.hook) {
+      this.hooks.set(envelope.hook.id, envelope.hook);
+    } else if (envelope.testCase) {
+      this.testCases.set(envelope.testCase.id, envelope.testCase.pickleId);
+      const testSteps = envelope.testCase.testSteps;
+      const firstPickleStep = testSteps.findIndex(testStep => testStep.pickleStepId);
+      const lastPickleStep = testSteps.map(testStep => !!testStep.pickleStepId).lastIndexOf(true);
+      testSteps.forEach((testStep, index) => {
+        this.testSteps.set(testStep.id, {
+          pickleStepId: testStep.pickleStepId,
+          hookId: testStep.hookId,
+          position: firstPickleStep < 0 || index < firstPickleStep ? 'before' : index > lastPickleStep ? 'after' : 'between'
+        });
+      });
+    } else if (envelope.testCaseStarted) {
+      this.testCasesStarted.set(envelope.testCaseStarted.id, envelope.testCaseStarted.testCaseId);
+    } else if (envelope.testStepFinished) {
+      this.handleTestStepFinished(envelope.testStepFinished);
+    } else if (envelope.suggestion) {
+      this.handleSuggestion(envelope.suggestion);
+    }
+  }
+
+  private poll(): void {
+    if (!this.filePath || !fs.existsSync(this.filePath)) {
+      return;
+    }
+
+    let fd: number | undefined;
+    try {
+      const size = fs.statSync(this.filePath).size;
+      if (size <= this.offset) {
+        return;
+      }
+
+      fd = fs.openSync(this.filePath, 'r');
+      const buffer = Buffer.alloc(size - this.offset);
+      const bytesRead = fs.readSync(fd, buffer, 0, buffer.length, this.offset);
+      this.offset += bytesRead;
+
+      // The decoder keeps multi-byte characters that are split across reads
+      const lines = (this.pending + this.decoder.write(buffer.subarray(0, bytesRead))).split('\n');
+      this.pending = lines.pop() || '';
+      for (const line of lines) {
+        this.handleLine(line);
+      }
+    } catch (error: any) {
+      this.log?.(`Error reading Cucumber messages: ${error.message}`, 'WARN');
+    } finally {
+      if (fd !== undefined) {
+        fs.closeSync(fd);
+      }
+    }
+  }
+
+  private handleLine(line: string): void {
+    if (!line.trim()) {
+      return;
+    }
+    try {
+      this.handleEnvelope(JSON.parse(line));
+    } catch (error: any) {
+      this.log?.(`Skipping invalid Cucumber message: ${error.message}`, 'WARN');
+    }
+  }
+
+  private indexFeatureChildren(children: MessageFeatureChild[]): void {
+    for (const child of children) {
+      if (child.background) {
+        this.indexSteps(child.background.steps);
+      }
+      if (child.scenario) {
+        this.astNodes.set(child.scenario.id, { line: child.scenario.location.line });
+        this.indexSteps(child.scenario.steps);
+        for (const examples of child.scenario.examples || []) {
+          for (const row of examples.tableBody || []) {
+            this.astNodes.set(row.id, { line: row.location.line });
+          }
+        }
+      }
+      if (child.rule) {
+        this.indexFeatureChildren(child.rule.children);
+      }
+    }
+  }
+
+  private indexSteps(steps: MessageStep[]): void {
+    for (const step of steps) {
+      this.astNodes.set(step.id, { line: step.location.line, keyword: step.keyword.trim(), text: step.text });
+    }
+  }
+
+  private handleTestStepFinished(finished: NonNullable<MessageEnvelope['testStepFinished']>): void {
+    const testCaseId = this.testCasesStarted.get(finished.testCaseStartedId);
+    const pickleId = testCaseId ? this.testCases.get(testCaseId) : undefined;
+    const pickle = pickleId ? this.pickles.get(pickleId) : undefined;
+    const testStep = this.testSteps.get(finished.testStepId);
+
+    if (!pickle || !testStep) {
+      this.log?.(`testStepFinished for unknown test step ${finished.testStepId}`, 'WARN');
+      return;
+    }
+
+    // Pickle AST node IDs: [scenario] or [scenario, examples row]
+    const scenarioNode = this.astNodes.get(pickle.astNodeIds[0]);
+    const exampleNode = pickle.astNodeIds.length > 1 ? this.astNodes.get(pickle.astNodeIds[1]) : undefined;
+    if (!scenarioNode) {
+      this.log?.(`No Gherkin scenario found for pickle ${pickle.id}`, 'WARN');
+      return;
+    }
+
+    const result = finished.testStepResult;
+    const stepResult: MessageStepResult = {
+      keyword: '',
+      name: '',
+      status: toStepStatus(result.status),
+      featureUri: pickle.uri,
+      scenarioLineNumber: scenarioNode.line,
+      exampleLineNumber: exampleNode?.line,
+      isHook: !testStep.pickleStepId
+    };
+
+    if (testStep.pickleStepId) {
+      const pickleStep = pickle.steps.find(step => step.id === testStep.pickleStepId);
+      const stepNode = pickleStep ? this.astNodes.get(pickleStep.astNodeIds[0]) : undefined;
+      stepResult.keyword = stepNode?.keyword || '';
+      stepResult.name = pickleStep?.text || stepNode?.text || '';
+      stepResult.lineNumber = stepNode?.line;
+    } else {
+      const hook = testStep.hookId ? this.hooks.get(testStep.hookId) : undefined;
+      const javaMethod = hook?.sourceReference?.javaMethod;
+      stepResult.keyword = (hook?.type && HOOK_KEYWORDS[hook.type]) || HOOK_POSITION_KEYWORDS[testStep.position];
+      stepResult.name = hook?.name || (javaMethod ? `${javaMethod.className}.${javaMethod.methodName}` : 'hook');
+    }
+
+    if (stepResult.status !== 'passed' && stepResult.status !== 'skipped') {
+      stepResult.errorMessage = result.message || result.exception?.message || `Step ${result.status.toLowerCase()}`;
+    }
+
+    if (stepResult.status === 'undefined' && testStep.pickleStepId) {
+      stepResult.snippet = this.snippets.get(testStep.pickleStepId);
+      this.undefinedSteps.set(testStep.pickleStepId, stepResult);
+    }
+
+    this.onStepFinished(stepResult);
+  }
+
+  private handleSuggestion(suggestion: NonNullable<MessageEnvelope['suggestion']>): void {
+    const snippet = suggestion.snippets.map(s => s.code).join('\n\n');
+    if (!snippet) {
+      return;
+    }
+    this.snippets.set(suggestion.pickleStepId, snippet);
+
+    // The suggestion may arrive after the step finished: report the step again with its snippet
+    const undefinedStep = this.undefinedSteps.get(suggestion.pickleStepId);
+    if (undefinedStep && !undefinedStep.snippet) {
+      undefinedStep.snippet = snippet;
+      this.onStepFinished(undefinedStep);
+    }
+  }
+}
+
+/**
+ * Maps a message protocol status (PASSED, FAILED, ...) to a step status
+ */
+function toStepStatus(status: string): MessageStepResult['status'] {
+  switch (status) {
+    case 'PASSED':
+      return 'passed';
+    case 'SKIPPED':
+      return 'skipped';
+    case 'PENDING':
+      return 'pending';
+    case 'UNDEFINED':
+      return 'undefined';
+    case 'AMBIGUOUS':
+      return 'ambiguous';
+    default:
+      // FAILED and UNKNOWN
+      return 'failed';
+  }
+}
@@ -28,8 +28,93 @@ import {
   extractTestClassName,
   convertToWorkspaceFolderPaths,
   isValidMavenProject,
-  findAllSourcePathsCached
+  findAllSourcePathsCached,
+  appendLineFilters,
+  joinFeatureSelections,
+  parseRerunFile,
+  formatRerunFile,
+  RERUN_FILE,
+  RERUN_PLUGIN,
+  FeatureLines,
+  FeatureSelection
 } from './maven-utils';
+import {
+  getGherkinDocument,
+  evictGherkinDocument,
+  getScenarios,
+  getScenarioAtLine,
+  getExamplesRowAtLine,
+  GherkinScenario,
+  GherkinStep,
+  GherkinDocument,
+  GherkinFeature,
+  GherkinRule,
+  GherkinBackground,
+  GherkinExamples,
+  GherkinRange,
+  GherkinTag,
+  GherkinTableRow,
+  GherkinDocString,
+  parseGherkin,
+  GherkinDialect,
+  getFeatureDialect,
+  getStepKeywordPattern,
+  getHeaderKeywordPattern,
+  getStepAtLine,
+  getSteps,
+  GherkinStepEntry,
+  substituteOutlinePlaceholders
+} from './gherkin-parser';
+import {
+  CucumberMessageTracker,
+  createMessagesFilePath,
+  toMessagePluginOption
+} from './cucumber-messages';
+import {
+  extractSnippetsFromOutput,
+  uniqueSnippets,
+  snippetKey,
+  insertSnippetsIntoClass,
+  createStepsClass,
+  stepsClassNameForFeature
+} from './step-snippets';
+import {
+  formatGherkinLines,
+  getFormattingBlocks
+} from './gherkin-formatter';
+import {
+  lintGherkin,
+  resolveGherkinLintRules,
+  GherkinLintProblem,
+  GherkinLintRuleConfig,
+  GherkinLintSettings,
+  GherkinLintSeverity
+} from './gherkin-lint';
+import {
+  renderOutlinePreview,
+  OutlinePreview
+} from './outline-preview';
+import {
+  StepDefinitionIndex,
+  StepDefinition,
+  StepMatch,
+  StepArgument,
+  JavaLocation,
+  isInGluePath,
+  parseGluePackages,
+  isRegularExpression,
+  compileJavaRegex,
+  countStepParameters,
+  renderStepText,
+  toStepSnippet,
+  parseStepDefinitions,
+  getStepDefinitionSource
+} from './step-definitions';
+import {
+  TagExpression,
+  parseTagExpression,
+  combineTagExpressions
+} from './tag-expressions';
 
 interface StepInfo {
   keyword: string;  // Given, When, Then, And, But
@@ -43,18 +128,31 @@ interface ScenarioInfo {
   exampleLineNumber?: number;
   examples?: ExampleInfo[];
   steps?: StepInfo[];  // New: steps in this scenario
+  backgroundSteps?: StepInfo[];  // Feature and Rule Background steps that run before this scenario
+  tags?: string[];  // Feature, Rule and scenario tags, plus the tags of every Examples block
+}
+
+interface RuleInfo {
+  name: string;
+  lineNumber: number;
+  endLineNumber: number;
+  tags: string[];  // Feature and Rule tags
+  scenarios: ScenarioInfo[];
 }
 
 interface ExampleInfo {
   lineNumber: number;
   data: string;
+  tags: string[];  // Tags of the scenario and of its Examples block
 }
 
 interface FeatureInfo {
   name: string;
-  scenarios: ScenarioInfo[];
+  scenarios: ScenarioInfo[];  // Scenarios directly under the feature (not in a Rule)
+  rules: RuleInfo[];
   filePath: string;
   lineNumber: number;
+  tags: string[];
 }
 
 interface ModuleInfo {
@@ -66,9 +164,39 @@ interface ModuleInfo {
 export interface StepResult {
   keyword: string;
   name: string;
-  status: 'passed' | 'failed' | 'skipped' | 'pending' | 'undefined';
+  status: 'passed' | 'failed' | 'skipped' | 'pending' | 'undefined' | 'ambiguous';
   errorMessage?: string;
+  snippet?: string;  // Step definition Cucumber suggests for an undefined step
   location?: string;
+  // Set when the result comes from the Cucumber message protocol (exact feature lines)
+  featureUri?: string;
+  scenarioLineNumber?: number;
+  exampleLineNumber?: number;
+  lineNumber?: number;
+  isHook?: boolean;
+}
+
+/**
+ * Starts Cucumber for the lines of one test item and resolves with the exit code
+ */
+type TestLauncher = (
+  lines: FeatureLines | undefined,
+  exampleLine: number | undefined,
+  onStepUpdate: (step: StepResult) => void
+) => Promise<number>;
+
+/**
+ * Scenario counts from Cucumber's "N Scenarios (...)" summary line
+ */
+interface TestSummary {
+  scenarios: number;
+  steps: number;
+  passed: number;
+  failures: number;
+  skipped: number;
+  pending: number;
+  undefined: number;
+  ambiguous: number;
 }
 
 interface TestClassMapping {
@@ -91,6 +219,41 @@ interface TagCache {
 // Global tag cache
 const tagCache: TagCache = {};
 
+/**
+ * Undefined step reported by the last run of a feature, with the snippet Cucumber suggested
+ */
+interface UndefinedStepSnippet {
+  stepText: string;
+  lineNumber?: number;  // 1-based, known when reported through the message protocol
+  snippet: string;
+}
+
+// Undefined steps of the last run of each feature file (fsPath → steps)
+const undefinedStepSnippets = new Map<string, UndefinedStepSnippet[]>();
+
+// Undefined steps last warned about for each feature file (fsPath → snippet keys)
+const warnedUndefinedSteps = new Map<string, string>();
+
+/**
+ * A scenario carrying a tag
+ */
+interface TaggedScenario {
+  featurePath: string;
+  name: string;
+  lineNumber: number;
+  // Set when only some Examples of an outline carry the tag
+  exampleLineNumbers?: number[];
+}
+
+/**
+ * Where a tag is used in the workspace's feature files
+ */
+interface TagUsage {
+  tag: string;  // Including the @ prefix
+  scenarios: TaggedScenario[];
+  featureCount: number;
+}
+
 /**
  * Cucumber output parser for real-time step results
  */
@@ -101,15 +264,23 @@ export class CucumberOutputParser {
   private isCapturingError = false;
   private errorLines: string[] = [];
   private onStepStatusChange?: (step: StepResult) => void;
+  // Cucumber prints steps with the keywords of the feature's language (every dialect when unknown)
+  private readonly stepPattern: RegExp;
+  private readonly nextStepPattern: RegExp;
+  private readonly headerPattern: RegExp;
 
   constructor(
     outputChannel: vscode.OutputChannel,
     showStepResults = true,
-    onStepStatusChange?: (step: StepResult) => void
+    onStepStatusChange?: (step: StepResult) => void,
+    dialects?: GherkinDialect[]
   ) {
     this.outputChannel = outputChannel;
     this.showStepResults = showStepResults;
     this.onStepStatusChange = onStepStatusChange;
+    this.stepPattern = new RegExp(`^\\s*[✔✘✓✗×↷⊝−]?\\s*(${getStepKeywordPattern(dialects)})\\s*(.+?)\\s*(?:#|$)`);
+    this.nextStepPattern = new RegExp(`^\\s*[✔✘✓✗×]\\s+(${getStepKeywordPattern(dialects)})`);
+    this.headerPattern = new RegExp(`^\\s+(${getHeaderKeywordPattern(dialects)})`);
   }
 
   parseLine(line: string): StepResult | null {
@@ -125,7 +296,8 @@ export class CucumberOutputParser {
     // "    ✘ When [MKT05A06] 創建動態分眾...    # tw.datahunter..."
     // "    ↷ Then [MKT05A06] 驗證分眾創建成功    # tw.datahunter..."
     // "    Given I am on the login page    # StepDefinitions.loginPage()"
-    const stepMatch = cleanLine.match(/^\s*[✔✘✓✗×↷⊝−]?\s*(Given|When|Then|And|But)\s+(.+?)\s*(?:#|$)/);
+    // "    ✔ Angenommen ich bin angemeldet    # StepDefinitions.angemeldet()"
+    const stepMatch = cleanLine.match(this.stepPattern);
 
     if (stepMatch) {
       // If we were capturing an error for a previous step, finish it
@@ -140,7 +312,8 @@ export class CucumberOutputParser {
       const stepText = stepMatch[2].trim();
 
       // Detect step status from symbol
-      let status: 'passed' | 'failed' | 'skipped';
+      // (pending/undefined/ambiguous are reported as failed here and refined from the exception, see classifyFailure)
+      let status: StepResult['status'];
       if (cleanLine.includes('✘') || cleanLine.includes('✗') || cleanLine.includes('×')) {
         status = 'failed';
       } else if (cleanLine.includes('↷') || cleanLine.includes('⊝') || cleanLine.includes('−')) {
@@ -191,7 +364,7 @@ export class CucumberOutputParser {
     
     if (!isApplicationLog) {
       // Now check if this is a Cucumber error/stack trace line
-      const errorPattern = /^\s+(java\.|org\.|Error|Exception|AssertionError|at\s+|Caused by:|\.\.\.)/;
+      const errorPattern = /^\s+(java\.|org\.|io\.cucumber\.|Error|Exception|AssertionError|at\s+|Caused by:|\.\.\.)/;
 
       if (errorPattern.test(cleanLine)) {
         if (extensionLogChannel) {
@@ -212,8 +385,8 @@ export class CucumberOutputParser {
     if (this.currentStep && !this.isCapturingError) {
       // Check if this is a blank line, new scenario/feature, or another step symbol
       const shouldFinalize = cleanLine.trim() === '' ||
-                            cleanLine.match(/^\s+(Scenario|Feature|Background)/) ||
-                            cleanLine.match(/^\s*[✔✘✓✗×]\s+(Given|When|Then|And|But)/);
+                            this.headerPattern.test(cleanLine) ||
+                            this.nextStepPattern.test(cleanLine);
 
       if (shouldFinalize) {
         // This step is done, notify about its status
@@ -253,9 +426,28 @@ export class CucumberOutputParser {
     return str.replace(/\x1b\[[0-9;]*m/g, '');
   }
 
+  /**
+   * Refines a failed step from its exception: Cucumber reports pending, undefined
+   * and ambiguous steps through dedicated exceptions
+   */
+  private classifyFailure(result: StepResult): void {
+    if (result.status !== 'failed' || !result.errorMessage) {
+      return;
+    }
+    if (/PendingException/.test(result.errorMessage)) {
+      result.status = 'pending';
+    } else if (/UndefinedStepException|is undefined/.test(result.errorMessage)) {
+      result.status = 'undefined';
+    } else if (/AmbiguousStepDefinitionsException/.test(result.errorMessage)) {
+      result.status = 'ambiguous';
+    }
+  }
+
   private displayStepResult(result: StepResult): void {
     let icon = '';
 
+    this.classifyFailure(result);
+
     switch (result.status) {
       case 'passed':
         icon = '✅';
@@ -275,6 +467,24 @@ export class CucumberOutputParser {
           logToExtension(`Step SKIPPED: ${result.keyword} ${result.name}`, 'WARN');
         }
         break;
+      case 'pending':
+        icon = '⏸';
+        if (extensionLogChannel) {
+          logToExtension(`Step PENDING: ${result.keyword} ${result.name}`, 'WARN');
+        }
+        break;
+      case 'undefined':
+        icon = '❓';
+        if (extensionLogChannel) {
+          logToExtension(`Step UNDEFINED: ${result.keyword} ${result.name}`, 'WARN');
+        }
+        break;
+      case 'ambiguous':
+        icon = '⁉';
+        if (extensionLogChannel) {
+          logToExtension(`Step AMBIGUOUS: ${result.keyword} ${result.name}`, 'WARN');
+        }
+        break;
       default:
         icon = '❓';
     }
@@ -323,6 +533,20 @@ export class CucumberOutputParser {
 class CucumberTestController {
   private controller: vscode.TestController;
   private watchedFiles = new Map<string, vscode.TestItem>();
+  // Background steps (Feature + Rule) per scenario ID, used to attach them to the right scenario during a run
+  private scenarioBackgrounds = new Map<string, StepInfo[]>();
+  // Debounced test updates of edited feature files, by document URI
+  private pendingDocumentUpdates = new Map<string, NodeJS.Timeout>();
+  // Continuous runs (watch mode) and their tokens, until cancelled
+  private continuousRuns = new Map<vscode.TestRunRequest, vscode.CancellationToken>();
+  // Content of feature and Java files just before they are saved, while a continuous run is active
+  private savedFeatureSignatures = new Map<string, Set<string>>();
+  private savedJavaSources = new Map<string, string>();
+  // Tests to run once saves settle, for each continuous run
+  private pendingContinuousItems = new Map<vscode.TestRunRequest, Set<vscode.TestItem>>();
+  private continuousRunTimer: NodeJS.Timeout | undefined;
+  // A triggered run is in progress; tests queued meanwhile wait for it to end
+  private continuousRunInProgress = false;
 
   constructor(context: vscode.ExtensionContext) {
     this.controller = vscode.tests.createTestController('cucumberJavaEasyRunner', 'Cucumber Java Tests');
@@ -341,12 +565,29 @@ class CucumberTestController {
     watcher.onDidChange(uri => this.handleFileEvent('change', uri));
     watcher.onDidDelete(uri => this.handleFileEvent('delete', uri));
 
-    // Set up test run handler for normal execution
+    // Update the tests of a feature as it is edited
+    context.subscriptions.push(
+      vscode.workspace.onDidChangeTextDocument(e => this.handleDocumentChange(e.document)),
+      { dispose: () => this.pendingDocumentUpdates.forEach(timer => clearTimeout(timer)) }
+    );
+
+    // Set up test run handler for normal execution, and for continuous runs (watch mode)
     this.controller.createRunProfile(
       'Run Cucumber Tests',
       vscode.TestRunProfileKind.Run,
-      (request, token) => this.runTests(request, token, false),
-      true  // isDefault
+      (request, token) => request.continuous
+        ? this.watchForContinuousRun(request, token)
+        : this.runTests(request, token, false),
+      true,  // isDefault
+      undefined,
+      true   // supportsContinuousRun
+    );
+
+    // Continuous runs re-run what a save affects
+    context.subscriptions.push(
+      vscode.workspace.onWillSaveTextDocument(e => this.snapshotBeforeSave(e.document)),
+      vscode.workspace.onDidSaveTextDocument(document => this.handleContinuousSave(document)),
+      { dispose: () => this.continuousRunTimer && clearTimeout(this.continuousRunTimer) }
     );
 
     // Set up debug profile for debugging
@@ -357,6 +598,28 @@ class CucumberTestController {
       false  // not default
     );
 
+    // Reruns the failed scenarios of the last run (within the selection, if any)
+    this.controller.createRunProfile(
+      'Rerun Failed Scenarios',
+      vscode.TestRunProfileKind.Run,
+      (request, token) => this.rerunFailedScenarios(request.include, token),
+      false
+    );
+
+    // Profiles that ask for a tag expression applied to that run only
+    this.controller.createRunProfile(
+      'Run Cucumber Tests with Tag Expression...',
+      vscode.TestRunProfileKind.Run,
+      (request, token) => this.runTestsWithTagExpression(request, token, false),
+      false
+    );
+    this.controller.createRunProfile(
+      'Debug Cucumber Tests with Tag Expression...',
+      vscode.TestRunProfileKind.Debug,
+      (request, token) => this.runTestsWithTagExpression(request, token, true),
+      false
+    );
+
     // Add refresh button to test controller
     this.controller.refreshHandler = () => {
       console.log('Test controller refresh triggered');
@@ -378,10 +641,7 @@ class CucumberTestController {
 
   private handleFileEvent(eventType: string, uri: vscode.Uri) {
     // Filter out files from build/target directories
-    const filePath = uri.fsPath.toLowerCase();
-    const excludedPaths = ['target', 'build', 'out', 'dist', 'node_modules', '.git'];
-    
-    if (excludedPaths.some(excluded => filePath.includes(`/${excluded}/`) || filePath.includes(`\\${excluded}\\`))) {
+    if (isBuildOutputPath(uri.fsPath)) {
       console.log(`Ignoring ${eventType} event for build directory file: ${uri.fsPath}`);
       return;
     }
@@ -390,18 +650,268 @@ class CucumberTestController {
     
     if (eventType === 'delete') {
       this.deleteTest(uri);
+      evictGherkinDocument(uri);
+      featureDocumentIndex.delete(path.normalize(uri.fsPath));
+      stepUsageCounts = undefined;
+      featureIndexChanged.fire();
     } else {
       // Add small delay to ensure file is fully written
       setTimeout(() => {
         this.createOrUpdateTest(uri);
+        indexFeatureFile(uri);
       }, 100);
     }
   }
 
+  /**
+   * Updates the tests of a feature file while it is edited, before it is saved
+   */
+  private handleDocumentChange(document: vscode.TextDocument) {
+    const uri = document.uri;
+    if (uri.scheme !== 'file' || path.extname(uri.fsPath) !== '.feature' || isBuildOutputPath(uri.fsPath)) {
+      return;
+    }
+
+    const key = uri.toString();
+    const pending = this.pendingDocumentUpdates.get(key);
+    if (pending) {
+      clearTimeout(pending);
+    }
+    this.pendingDocumentUpdates.set(key, setTimeout(() => {
+      this.pendingDocumentUpdates.delete(key);
+      if (!document.isClosed) {
+        this.createOrUpdateTest(uri);
+      }
+    }, 500));
+  }
+
+  /**
+   * Keeps a continuous run active until it is cancelled; saves then trigger runs
+   */
+  private watchForContinuousRun(request: vscode.TestRunRequest, token: vscode.CancellationToken): Promise<void> {
+    logToExtension('Continuous run started: saved features and step definitions re-run affected scenarios', 'INFO');
+    this.continuousRuns.set(request, token);
+    return new Promise<void>(resolve => token.onCancellationRequested(() => {
+      this.continuousRuns.delete(request);
+      this.pendingContinuousItems.delete(request);
+      if (this.continuousRuns.size === 0) {
+        this.savedFeatureSignatures.clear();
+        this.savedJavaSources.clear();
+      }
+      logToExtension('Continuous run stopped', 'INFO');
+      resolve();
+    }));
+  }
+
+  /**
+   * Remembers the content on disk of a file about to be saved, to find out afterwards what the save changed
+   */
+  private snapshotBeforeSave(document: vscode.TextDocument) {
+    const filePath = path.normalize(document.uri.fsPath);
+    if (this.continuousRuns.size === 0 || document.uri.scheme !== 'file' || isBuildOutputPath(filePath) || !fs.existsSync(filePath)) {
+      return;
+    }
+
+    if (path.extname(filePath) === '.feature') {
+      const source = fs.readFileSync(filePath, 'utf8');
+      this.savedFeatureSignatures.set(filePath, new Set(getScenarioSignatures(parseGherkin(source), source).values()));
+    } else if (path.extname(filePath) === '.java') {
+      this.savedJavaSources.set(filePath, fs.readFileSync(filePath, 'utf8'));
+    }
+  }
+
+  private async handleContinuousSave(document: vscode.TextDocument) {
+    const filePath = path.normalize(document.uri.fsPath);
+    if (this.continuousRuns.size === 0 || document.uri.scheme !== 'file' || isBuildOutputPath(filePath)) {
+      return;
+    }
+
+    let affected: vscode.TestItem[] = [];
+    if (path.extname(filePath) === '.feature') {
+      affected = await this.findChangedScenarios(document);
+    } else if (path.extname(filePath) === '.java') {
+      affected = await this.findScenariosForJavaChange(filePath, document.getText());
+    } else {
+      return;
+    }
+
+    logToExtension(`Continuous run: ${affected.length} test(s) affected by saving ${path.basename(filePath)}`, 'INFO');
+    if (affected.length > 0) {
+      this.queueContinuousRun(affected);
+    }
+  }
+
+  /**
+   * Scenarios of a saved feature that are new or differ from the version before the save
+   *
+   * A scenario differs when its own lines, its tags or a Background it runs
+   * changed; moving it or editing other scenarios does not count.
+   */
+  private async findChangedScenarios(document: vscode.TextDocument): Promise<vscode.TestItem[]> {
+    const featureId = path.normalize(document.uri.fsPath);
+    const previous = this.savedFeatureSignatures.get(featureId);
+    this.savedFeatureSignatures.delete(featureId);
+
+    await this.createOrUpdateTest(document.uri);
+    const featureItem = this.watchedFiles.get(featureId);
+    if (!featureItem) {
+      return [];
+    }
+    if (!previous) {
+      return [featureItem];
+    }
+
+    const changed: vscode.TestItem[] = [];
+    for (const [line, signature] of getScenarioSignatures(getGherkinDocument(document), document.getText())) {
+      const scenarioItem = previous.has(signature) ? undefined : this.findScenarioItemAtLine(featureId, line);
+      if (scenarioItem) {
+        changed.push(scenarioItem);
+      }
+    }
+    return changed;
+  }
+
+  /**
+   * Scenarios affected by a saved Java class
+   *
+   * When the step definition methods that changed are known, these are the
+   * scenarios with a step (or Background step) bound to one of them. When they
+   * are not (no earlier version, or only other code of the class changed, e.g.
+   * hooks or helpers), every feature whose glue package contains the class.
+   */
+  private async findScenariosForJavaChange(filePath: string, source: string): Promise<vscode.TestItem[]> {
+    const previous = this.savedJavaSources.get(filePath);
+    this.savedJavaSources.delete(filePath);
+
+    await ensureStepDefinitionIndex();
+    indexStepDefinitionFile(filePath, source);
+
+    // Current definitions are the indexed ones, which step matching knows;
+    // removed ones are matched by compiling their expression
+    const definitions = stepDefinitionIndex.getDefinitionsInFile(filePath);
+    if (previous !== undefined) {
+      const previousDefinitions = previous.includes('io.cucumber') ? parseStepDefinitions(previous, filePath) : [];
+      const key = (definition: StepDefinition) => `${definition.keyword}|${definition.expression}|${definition.methodName}`;
+      const previousSources = new Map(previousDefinitions.map(definition => [key(definition), getStepDefinitionSource(previous, definition)]));
+      const currentKeys = new Set(definitions.map(key));
+
+      // Changed or added methods, and removed ones (their steps are now undefined)
+      const changed = [
+        ...definitions.filter(definition => previousSources.get(key(definition)) !== getStepDefinitionSource(source, definition)),
+        ...previousDefinitions.filter(definition => !currentKeys.has(key(definition)))
+      ];
+      if (changed.length > 0) {
+        const affected = new Set<vscode.TestItem>();
+        for (const definition of changed) {
+          for (const location of findStepReferences(definition)) {
+            this.findScenariosRunningLine(path.normalize(location.uri.fsPath), location.range.start.line + 1)
+              .forEach(item => affected.add(item));
+          }
+        }
+        return Array.from(affected);
+      }
+    }
+
+    // Which scenarios depend on the change is unknown: run the features using this glue package
+    const packageName = source.match(/^\s*package\s+([\w.]+)\s*;/m)?.[1];
+    if (packageName === undefined) {
+      return [];
+    }
+    const affected: vscode.TestItem[] = [];
+    for (const featureItem of this.watchedFiles.values()) {
+      const gluePath = featureItem.uri ? await getFeatureGluePath(featureItem.uri) : null;
+      if (gluePath !== null && (packageName === gluePath || packageName.startsWith(`${gluePath}.`))) {
+        affected.push(featureItem);
+      }
+    }
+    return affected;
+  }
+
+  /**
+   * Scenarios that run a step line: the scenario containing it, or every scenario its Background runs before
+   */
+  private findScenariosRunningLine(featureId: string, line: number): vscode.TestItem[] {
+    const featureItem = this.watchedFiles.get(featureId);
+    if (!featureItem) {
+      return [];
+    }
+    return this.collectScenarioItems(featureItem).filter(scenario => {
+      let ownStep = false;
+      scenario.children.forEach(child => {
+        if (child.id.includes(':step:') && getItemLine(child) === line) {
+          ownStep = true;
+        }
+      });
+      return ownStep || (this.scenarioBackgrounds.get(scenario.id) || []).some(step => step.lineNumber === line);
+    });
+  }
+
+  /**
+   * Adds tests to the next run of every continuous run, coalescing saves in quick succession
+   */
+  private queueContinuousRun(items: vscode.TestItem[]) {
+    for (const request of this.continuousRuns.keys()) {
+      // Only tests within what the continuous run was started for
+      const selected = items.filter(item =>
+        (!request.include || request.include.some(parent => isSameOrDescendant(item, parent))) &&
+        !(request.exclude || []).some(parent => isSameOrDescendant(item, parent)));
+      if (selected.length === 0) {
+        continue;
+      }
+      const pending = this.pendingContinuousItems.get(request) || new Set<vscode.TestItem>();
+      selected.forEach(item => pending.add(item));
+      this.pendingContinuousItems.set(request, pending);
+    }
+
+    if (this.continuousRunTimer) {
+      clearTimeout(this.continuousRunTimer);
+    }
+    this.continuousRunTimer = setTimeout(() => {
+      this.continuousRunTimer = undefined;
+      this.runPendingContinuousItems();
+    }, 1000);
+  }
+
+  private async runPendingContinuousItems() {
+    // Runs never overlap: they would build into the same target directories
+    if (this.continuousRunInProgress) {
+      logToExtension('Continuous run: a run is in progress, affected tests run after it', 'DEBUG');
+      return;
+    }
+
+    this.continuousRunInProgress = true;
+    try {
+      while (this.pendingContinuousItems.size > 0) {
+        const pending = Array.from(this.pendingContinuousItems.entries());
+        this.pendingContinuousItems.clear();
+
+        for (const [request, items] of pending) {
+          // A test whose parent is queued as well runs with its parent
+          const runnable = Array.from(items).filter(item =>
+            !Array.from(items).some(other => other !== item && isSameOrDescendant(item, other)));
+          const token = this.continuousRuns.get(request);
+          if (!token || token.isCancellationRequested || runnable.length === 0) {
+            continue;
+          }
+
+          // Stopping the continuous run also stops the run it triggered
+          logToExtension(`Continuous run: running ${runnable.length} affected test(s)`, 'INFO');
+          await this.runTests(new vscode.TestRunRequest(runnable, undefined, request.profile), token, false);
+        }
+      }
+    } finally {
+      this.continuousRunInProgress = false;
+    }
+  }
+
   private async discoverTests() {
     // Clear all existing tests first
     this.controller.items.replace([]);
     this.watchedFiles.clear();
+    this.scenarioBackgrounds.clear();
+    featureDocumentIndex.clear();
+    stepUsageCounts = undefined;
+    featureIndexChanged.fire();
     
     // Exclude common build/target directories to avoid duplicates
     const featureFiles = await vscode.workspace.findFiles(
@@ -414,96 +924,175 @@ class CucumberTestController {
     for (const uri of featureFiles) {
       console.log(`Processing feature file: ${uri.fsPath}`);
       await this.createOrUpdateTest(uri);
+      indexFeatureFile(uri);
     }
   }
 
+  /**
+   * Adds the tests of a feature file, or updates them in place when the feature is already known
+   */
   private async createOrUpdateTest(uri: vscode.Uri) {
     try {
       const document = await vscode.workspace.openTextDocument(uri);
       const featureInfo = this.parseFeatureFile(document);
       
+      // While a feature is being edited it may not parse, keep its last tests
       if (!featureInfo) {return;}
 
       // Create unique feature ID using normalized file path
       const featureId = path.normalize(uri.fsPath);
+      let featureItem = this.watchedFiles.get(featureId);
+      const isNew = !featureItem;
       
-      // Check if feature already exists
-      if (this.watchedFiles.has(featureId)) {
-        console.log(`Feature already exists: ${featureId}`);
-        return;
+      if (!featureItem) {
+        featureItem = this.controller.createTestItem(featureId, featureInfo.name, uri);
+        this.controller.items.add(featureItem);
+        this.watchedFiles.set(featureId, featureItem);
       }
-      
-      const featureItem = this.controller.createTestItem(featureId, featureInfo.name, uri);
-      
-      // Set range for feature to show play button in gutter
-      featureItem.range = new vscode.Range(
-        featureInfo.lineNumber - 1, 0,
-        featureInfo.lineNumber - 1, 0
-      );
-      
-      this.controller.items.add(featureItem);
-      this.watchedFiles.set(featureId, featureItem);
-
-      // Add scenarios as children
-      for (const scenario of featureInfo.scenarios) {
-        const scenarioId = `${featureId}:scenario:${scenario.lineNumber}`;
-        const scenarioItem = this.controller.createTestItem(
-          scenarioId,
-          scenario.name,
-          uri
-        );
-
-        scenarioItem.range = new vscode.Range(
-          scenario.lineNumber - 1, 0,
-          scenario.lineNumber - 1, 0
-        );
 
-        featureItem.children.add(scenarioItem);
+      this.syncFeatureItem(featureItem, featureInfo, uri);
 
-        // Add steps as children of scenario
-        if (scenario.steps && scenario.steps.length > 0) {
-          for (const step of scenario.steps) {
-            const stepId = `${scenarioId}:step:${step.lineNumber}`;
-            const stepItem = this.controller.createTestItem(
-              stepId,
-              `${step.keyword} ${step.text}`,
-              uri
-            );
+      const ruleScenarioCount = featureInfo.rules.reduce((count, rule) => count + rule.scenarios.length, 0);
+      console.log(`${isNew ? 'Added' : 'Updated'} feature: ${featureInfo.name} with ${featureInfo.scenarios.length + ruleScenarioCount} scenarios and ${featureInfo.rules.length} rules`);
 
-            stepItem.range = new vscode.Range(
-              step.lineNumber - 1, 0,
-              step.lineNumber - 1, 0
-            );
+    } catch (error) {
+      console.error('Error parsing feature file:', error);
+    }
+  }
 
-            scenarioItem.children.add(stepItem);
-          }
-        }
+  /**
+   * Brings the items of a feature in line with its parsed content
+   *
+   * Items are identified by content (rule and scenario names, step text,
+   * example values) rather than by line, so an item that only moved keeps its
+   * ID, and with it its last result; only its range is updated. Items that
+   * moved to another parent (e.g. into a Rule) are re-created with the same ID.
+   */
+  private syncFeatureItem(featureItem: vscode.TestItem, featureInfo: FeatureInfo, uri: vscode.Uri) {
+    const featureId = featureItem.id;
+    const existing = new Map<string, vscode.TestItem>();
+    const collect = (item: vscode.TestItem) => item.children.forEach(child => {
+      existing.set(child.id, child);
+      collect(child);
+    });
+    collect(featureItem);
+
+    featureItem.label = featureInfo.name;
+    featureItem.tags = toTestTags(featureInfo.tags);
+    // Set range for feature to show play button in gutter
+    featureItem.range = new vscode.Range(
+      featureInfo.lineNumber - 1, 0,
+      featureInfo.lineNumber - 1, 0
+    );
 
-        // Add example rows as children of scenario
-        if (scenario.examples && scenario.examples.length > 0) {
-          for (const example of scenario.examples) {
-            const exampleId = `${scenarioId}:example:${example.lineNumber}`;
-            const exampleItem = this.controller.createTestItem(
-              exampleId,
-              `Example: ${example.data.trim()}`,
-              uri
-            );
-
-            exampleItem.range = new vscode.Range(
-              example.lineNumber - 1, 0,
-              example.lineNumber - 1, 0
-            );
-
-            scenarioItem.children.add(exampleItem);
-          }
-        }
+    for (const scenarioId of Array.from(this.scenarioBackgrounds.keys())) {
+      if (scenarioId.startsWith(`${featureId}:scenario:`)) {
+        this.scenarioBackgrounds.delete(scenarioId);
       }
+    }
+
+    // Scenario IDs stay "<featureId>:scenario:<key>" regardless of the parent
+    const scenarioKey = createTestItemKeyFactory();
+    const ruleKey = createTestItemKeyFactory();
+    const children: vscode.TestItem[] = featureInfo.scenarios.map(scenario =>
+      this.syncScenarioItem(featureItem, `${featureId}:scenario:${scenarioKey(scenario.name)}`, scenario, uri, existing));
+
+    // Add rules with their scenarios as an intermediate level
+    for (const rule of featureInfo.rules) {
+      // Cover the whole rule so that "run test at cursor" picks it up inside the block
+      const ruleItem = this.getOrCreateTestItem(
+        featureItem,
+        `${featureId}:rule:${ruleKey(rule.name)}`,
+        `${rule.name} (Rule)`,
+        uri,
+        new vscode.Range(rule.lineNumber - 1, 0, rule.endLineNumber - 1, 0),
+        toTestTags(rule.tags),
+        existing
+      );
+      ruleItem.children.replace(rule.scenarios.map(scenario =>
+        this.syncScenarioItem(ruleItem, `${featureId}:scenario:${scenarioKey(scenario.name)}`, scenario, uri, existing)));
+      children.push(ruleItem);
+    }
 
-      console.log(`Added feature: ${featureInfo.name} with ${featureInfo.scenarios.length} scenarios`);
+    featureItem.children.replace(children);
+  }
 
-    } catch (error) {
-      console.error('Error parsing feature file:', error);
+  /**
+   * Creates or updates a scenario item with its steps and example rows under a feature or rule item
+   */
+  private syncScenarioItem(
+    parent: vscode.TestItem,
+    scenarioId: string,
+    scenario: ScenarioInfo,
+    uri: vscode.Uri,
+    existing: Map<string, vscode.TestItem>
+  ): vscode.TestItem {
+    const lineRange = (line: number) => new vscode.Range(line - 1, 0, line - 1, 0);
+    const scenarioTags = toTestTags(scenario.tags || []);
+    const scenarioItem = this.getOrCreateTestItem(
+      parent, scenarioId, scenario.name, uri, lineRange(scenario.lineNumber), scenarioTags, existing);
+    this.scenarioBackgrounds.set(scenarioId, scenario.backgroundSteps || []);
+
+    const children: vscode.TestItem[] = [];
+
+    // The Before container of the last run keeps its results
+    const beforeContainer = scenarioItem.children.get(`${scenarioId}:before`);
+    if (beforeContainer) {
+      children.push(beforeContainer);
+    }
+
+    // Add steps as children of scenario
+    const stepKey = createTestItemKeyFactory();
+    for (const step of scenario.steps || []) {
+      const label = `${step.keyword} ${step.text}`;
+      children.push(this.getOrCreateTestItem(
+        scenarioItem, `${scenarioId}:step:${stepKey(label)}`, label, uri, lineRange(step.lineNumber), scenarioTags, existing));
+    }
+
+    // Add example rows as children of scenario, identified by their values (not their alignment)
+    const exampleKey = createTestItemKeyFactory();
+    for (const example of scenario.examples || []) {
+      const data = example.data.trim();
+      children.push(this.getOrCreateTestItem(
+        scenarioItem,
+        `${scenarioId}:example:${exampleKey(data.replace(/\s*\|\s*/g, '|'))}`,
+        `Example: ${data}`,
+        uri,
+        lineRange(example.lineNumber),
+        toTestTags(example.tags),
+        existing
+      ));
+    }
+
+    scenarioItem.children.replace(children);
+    return scenarioItem;
+  }
+
+  /**
+   * Returns the existing item with an ID if it is still under the same parent, else a new one
+   */
+  private getOrCreateTestItem(
+    parent: vscode.TestItem,
+    id: string,
+    label: string,
+    uri: vscode.Uri,
+    range: vscode.Range,
+    tags: vscode.TestTag[],
+    existing: Map<string, vscode.TestItem>
+  ): vscode.TestItem {
+    let item = existing.get(id);
+    if (item && item.parent !== parent) {
+      // Moved to another parent: an ID may only appear once in the tree
+      item.parent?.children.delete(id);
+      item = undefined;
     }
+    if (!item) {
+      item = this.controller.createTestItem(id, label, uri);
+    }
+    item.label = label;
+    item.range = range;
+    item.tags = tags;
+    return item;
   }
 
   private deleteTest(uri: vscode.Uri) {
@@ -513,81 +1102,140 @@ class CucumberTestController {
     if (featureItem) {
       this.controller.items.delete(featureId);
       this.watchedFiles.delete(featureId);
+      for (const scenarioId of Array.from(this.scenarioBackgrounds.keys())) {
+        if (scenarioId.startsWith(`${featureId}:scenario:`)) {
+          this.scenarioBackgrounds.delete(scenarioId);
+        }
+      }
       console.log(`Deleted feature: ${featureId}`);
     }
   }
 
   private parseFeatureFile(document: vscode.TextDocument): FeatureInfo | null {
-    const text = document.getText();
-    const lines = text.split('\n');
+    const gherkinDocument = getGherkinDocument(document);
+    const feature = gherkinDocument.feature;
+
+    if (!feature) {return null;}
+
+    const toStepInfo = (step: GherkinStep): StepInfo => ({
+      keyword: step.keyword,
+      text: step.text,
+      lineNumber: step.location.line
+    });
+
+    // Tags are inherited: Feature → Rule → Scenario → Examples
+    const mergeTags = (inherited: string[], tags: GherkinTag[]) =>
+      Array.from(new Set([...inherited, ...tags.map(tag => tag.name)]));
+
+    const toScenarioInfo = (scenario: GherkinScenario, backgroundSteps: StepInfo[], inheritedTags: string[]): ScenarioInfo => {
+      const scenarioTags = mergeTags(inheritedTags, scenario.tags);
+      return {
+        name: scenario.isOutline ? `${scenario.name} (Outline)` : scenario.name,
+        lineNumber: scenario.location.line,
+        // Only data rows are runnable, the Examples header row is excluded
+        examples: scenario.examples.flatMap(examples => examples.tableBody.map(row => ({
+          lineNumber: row.location.line,
+          data: document.lineAt(row.location.line - 1).text.trim(),
+          tags: mergeTags(scenarioTags, examples.tags)
+        }))),
+        steps: scenario.steps.map(toStepInfo),
+        backgroundSteps,
+        tags: mergeTags(scenarioTags, scenario.examples.flatMap(examples => examples.tags))
+      };
+    };
+    const featureTags = mergeTags([], feature.tags);
+
+    // A Feature Background runs before every scenario, a Rule Background only before the Rule's scenarios
+    const featureBackground = feature.children.find(child => child.type === 'Background');
+    const featureBackgroundSteps = featureBackground && featureBackground.type === 'Background'
+      ? featureBackground.steps.map(toStepInfo)
+      : [];
 
-    let featureName = '';
-    let featureLineNumber = 0;
     const scenarios: ScenarioInfo[] = [];
-    let currentScenario: ScenarioInfo | null = null;
-
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i].trim();
-
-      if (line.startsWith('Feature:')) {
-        featureName = line.substring(8).trim();
-        featureLineNumber = i + 1;
-      } else if (line.startsWith('Scenario:')) {
-        const scenarioName = line.substring(9).trim();
-        currentScenario = {
-          name: scenarioName,
-          lineNumber: i + 1,
-          examples: [],
-          steps: []  // Initialize steps array
-        };
-        scenarios.push(currentScenario);
-      } else if (line.startsWith('Scenario Outline:')) {
-        const scenarioName = line.substring(17).trim();
-        currentScenario = {
-          name: `${scenarioName} (Outline)`,
-          lineNumber: i + 1,
-          examples: [],
-          steps: []  // Initialize steps array
-        };
-        scenarios.push(currentScenario);
-      } else if (line.startsWith('|') && currentScenario && i > 0) {
-        // Check if this is an example row (not header)
-        const exampleInfo = findExampleRowInfo(lines, i);
-        if (exampleInfo && currentScenario.examples) {
-          currentScenario.examples.push({
-            lineNumber: i + 1,
-            data: line
-          });
-        }
-      } else if (currentScenario && currentScenario.steps) {
-        // Check if this line is a step (Given/When/Then/And/But)
-        const stepMatch = line.match(/^(Given|When|Then|And|But)\s+(.+)/);
-        if (stepMatch) {
-          const keyword = stepMatch[1];
-          const stepText = stepMatch[2].trim();
-          currentScenario.steps.push({
-            keyword: keyword,
-            text: stepText,
-            lineNumber: i + 1
-          });
+    const rules: RuleInfo[] = [];
+
+    for (const child of feature.children) {
+      if (child.type === 'Scenario') {
+        scenarios.push(toScenarioInfo(child, featureBackgroundSteps, featureTags));
+      } else if (child.type === 'Rule') {
+        const ruleBackgroundSteps: StepInfo[] = [];
+        for (const ruleChild of child.children) {
+          if (ruleChild.type === 'Background') {
+            ruleBackgroundSteps.push(...ruleChild.steps.map(toStepInfo));
+          }
         }
+        const ruleTags = mergeTags(featureTags, child.tags);
+        rules.push({
+          name: child.name,
+          lineNumber: child.location.line,
+          endLineNumber: child.range.end.line,
+          tags: ruleTags,
+          scenarios: child.children
+            .filter((ruleChild): ruleChild is GherkinScenario => ruleChild.type === 'Scenario')
+            .map(scenario => toScenarioInfo(scenario, [...featureBackgroundSteps, ...ruleBackgroundSteps], ruleTags))
+        });
       }
     }
 
-    if (!featureName) {return null;}
-
     return {
-      name: featureName,
+      name: feature.name,
       scenarios,
+      rules,
       filePath: document.uri.fsPath,
-      lineNumber: featureLineNumber
+      lineNumber: feature.location.line,
+      tags: featureTags
     };
   }
 
-  private async runTests(request: vscode.TestRunRequest, token: vscode.CancellationToken, isDebug: boolean = false) {
+  /**
+   * Asks for a tag expression, then runs the requested tests selected by it
+   *
+   * The expression is added to the cucumberTags setting for this run only;
+   * the last one entered is offered again next time.
+   */
+  private async runTestsWithTagExpression(request: vscode.TestRunRequest, token: vscode.CancellationToken, isDebug: boolean) {
+    const expression = await vscode.window.showInputBox({
+      title: `${isDebug ? 'Debug' : 'Run'} Cucumber Tests with Tag Expression`,
+      prompt: 'Only scenarios matching this expression run, e.g. @smoke and not @wip',
+      value: globalContext?.workspaceState.get<string>(RUN_TAG_EXPRESSION_KEY, ''),
+      validateInput: (value) => {
+        if (!value.trim()) {
+          return 'Enter a tag expression';
+        }
+        try {
+          parseTagExpression(value);
+          return undefined;
+        } catch (error: any) {
+          return error.message;
+        }
+      }
+    });
+    if (!expression || token.isCancellationRequested) {
+      return;
+    }
+
+    await globalContext?.workspaceState.update(RUN_TAG_EXPRESSION_KEY, expression.trim());
+    await this.runTests(request, token, isDebug, expression.trim());
+  }
+
+  private async runTests(
+    request: vscode.TestRunRequest,
+    token: vscode.CancellationToken,
+    isDebug: boolean = false,
+    tagExpression?: string,
+    rerun = false
+  ) {
     const run = this.controller.createTestRun(request);
-    
+
     const testItems = request.include || this.gatherAllTests();
+
+    // A run replaces the remembered failures of the tests it runs, those of other tests are kept
+    if (request.include) {
+      this.forgetFailedScenarios(request.include);
+    } else {
+      failedScenarios.clear();
+    }
+    updateFailedScenariosContext();
     
     // Log execution mode
     if (isDebug) {
@@ -595,18 +1243,274 @@ class CucumberTestController {
     } else {
       logToExtension('Starting tests in RUN mode', 'INFO');
     }
+    if (tagExpression) {
+      logToExtension(`Tag expression for this run: ${tagExpression}`, 'INFO');
+    }
     
+    const batches = await this.createRunBatches(testItems, run, isDebug, rerun, tagExpression);
+
+    // Each unit is one Maven/Java process: a batch, or a single test
+    const units: vscode.TestItem[][] = [];
+    const batchesQueued = new Set<CucumberRunBatch>();
     for (const testItem of testItems) {
-      if (token.isCancellationRequested) {
-        break;
+      const batch = batches.get(testItem);
+      if (!batch) {
+        units.push([testItem]);
+      } else if (!batchesQueued.has(batch)) {
+        batchesQueued.add(batch);
+        units.push(batch.items);
       }
-
-      await this.runSingleTest(testItem, run, isDebug);
     }
 
-    run.end();
-  }
-
+    const runUnit = async (items: vscode.TestItem[]) => {
+      const batch = batches.get(items[0]);
+      if (!batch) {
+        await this.runSingleTest(items[0], run, isDebug, tagExpression);
+      } else {
+        await Promise.all(batch.items.map(item =>
+          this.runSingleTest(item, run, isDebug, tagExpression, batch.launcherFor(item)).finally(() => batch.leave(item))));
+      }
+    };
+
+    // Debug runs share the debug port, so they never run side by side
+    const config = vscode.workspace.getConfiguration('cucumberJavaEasyRunner');
+    const maxParallelRuns = isDebug ? 1 : Math.max(1, Math.floor(config.get<number>('maxParallelRuns', 1)));
+    const lanes = maxParallelRuns > 1 ? this.groupByTargetDirectory(units) : [units];
+    if (lanes.length > 1) {
+      logToExtension(`Running ${units.length} processes in ${lanes.length} independent module groups, at most ${maxParallelRuns} at a time`, 'INFO');
+    }
+
+    await runWithConcurrency(lanes, maxParallelRuns, async (lane) => {
+      for (const unit of lane) {
+        if (token.isCancellationRequested) {
+          break;
+        }
+        await runUnit(unit);
+      }
+    });
+
+    run.end();
+  }
+
+  /**
+   * Runs the scenarios that failed when they last ran again, one Cucumber invocation per module
+   *
+   * @param include - Only rerun failed scenarios inside these items (e.g. the selection of a run profile)
+   */
+  async rerunFailedScenarios(include?: readonly vscode.TestItem[], token?: vscode.CancellationToken): Promise<void> {
+    const items: vscode.TestItem[] = [];
+    for (const [modulePath, selections] of failedScenarios) {
+      for (const selection of selections) {
+        const featureItem = this.watchedFiles.get(path.normalize(resolveRerunFeaturePath(selection.featurePath, modulePath)));
+        if (!featureItem) {
+          logToExtension(`Failed scenarios of ${selection.featurePath} are no longer in Test Explorer`, 'WARN');
+          continue;
+        }
+        for (const line of ([] as number[]).concat(selection.lines || [])) {
+          const item = this.findRunnableItemAtLine(featureItem, line);
+          if (item && !items.includes(item) && (!include || include.some(parent => isSameOrDescendant(item, parent)))) {
+            items.push(item);
+          }
+        }
+      }
+    }
+
+    if (items.length === 0) {
+      vscode.window.showInformationMessage('No failed Cucumber scenarios to rerun.');
+      return;
+    }
+
+    logToExtension(`Rerunning ${items.length} failed scenario(s)`, 'INFO');
+    const tokenSource = token ? undefined : new vscode.CancellationTokenSource();
+    try {
+      await this.runTests(new vscode.TestRunRequest(items), token || tokenSource!.token, false, undefined, true);
+    } finally {
+      tokenSource?.dispose();
+    }
+  }
+
+  /**
+   * Drops the remembered failures of the scenarios and Examples rows of test items
+   */
+  private forgetFailedScenarios(testItems: readonly vscode.TestItem[]) {
+    for (const testItem of testItems) {
+      if (!testItem.uri || testItem.id.includes(':step:')) {
+        continue;
+      }
+      const featurePath = path.normalize(testItem.uri.fsPath);
+
+      // Lines of the item and everything below it, or the whole feature
+      const lines = new Set<number>();
+      const addLines = (item: vscode.TestItem) => {
+        lines.add(getItemLine(item));
+        item.children.forEach(addLines);
+      };
+      addLines(testItem);
+      const wholeFeature = !testItem.parent;
+
+      for (const [modulePath, selections] of failedScenarios) {
+        const remaining = selections
+          .map(selection => {
+            if (path.normalize(resolveRerunFeaturePath(selection.featurePath, modulePath)) !== featurePath) {
+              return selection;
+            }
+            if (selection.lines === undefined) {
+              return wholeFeature ? undefined : selection;
+            }
+            const selectionLines = ([] as number[]).concat(selection.lines).filter(line => !wholeFeature && !lines.has(line));
+            return selectionLines.length > 0 ? { featurePath: selection.featurePath, lines: selectionLines } : undefined;
+          })
+          .filter((selection): selection is FeatureSelection => selection !== undefined);
+        if (remaining.length > 0) {
+          failedScenarios.set(modulePath, remaining);
+        } else {
+          failedScenarios.delete(modulePath);
+        }
+      }
+    }
+  }
+
+  /**
+   * The scenario or Examples row item at a 1-based line of a feature
+   */
+  private findRunnableItemAtLine(featureItem: vscode.TestItem, line: number): vscode.TestItem | undefined {
+    for (const scenario of this.collectScenarioItems(featureItem)) {
+      if (getItemLine(scenario) === line) {
+        return scenario;
+      }
+      let example: vscode.TestItem | undefined;
+      scenario.children.forEach(child => {
+        if (child.id.includes(':example:') && getItemLine(child) === line) {
+          example = child;
+        }
+      });
+      if (example) {
+        return example;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Groups the tests of a run by Maven module and runner class, so that each group starts one JVM
+   *
+   * Only Run mode with Maven execution is batched; debug runs attach to one
+   * JVM per test. Tests whose runner class cannot be found without asking
+   * run on their own, as do groups of a single test.
+   *
+   * A rerun of failed scenarios is always batched, per module, in both
+   * execution modes: Java execution passes the failed scenarios to Cucumber
+   * as a rerun file (`@target/cucumber-rerun.txt`).
+   */
+  private async createRunBatches(
+    testItems: readonly vscode.TestItem[],
+    run: vscode.TestRun,
+    isDebug: boolean,
+    rerun = false,
+    tagExpression?: string
+  ): Promise<Map<vscode.TestItem, CucumberRunBatch>> {
+    const batches = new Map<vscode.TestItem, CucumberRunBatch>();
+    const config = vscode.workspace.getConfiguration('cucumberJavaEasyRunner');
+    const isMaven = config.get<string>('executionMode', 'maven') === 'maven';
+    if (isDebug || (!rerun && (!isMaven || testItems.length < 2))) {
+      return batches;
+    }
+
+    const configuredTestClass = config.get<string>('testClassName', '');
+    const testClasses = new Map<string, Promise<string | null>>();
+    const groups = new Map<string, { workspaceFolder: vscode.WorkspaceFolder; moduleInfo: ModuleInfo; testClassName: string; items: vscode.TestItem[] }>();
+
+    for (const testItem of testItems) {
+      const workspaceFolder = testItem.uri && !testItem.id.includes(':step:')
+        ? vscode.workspace.getWorkspaceFolder(testItem.uri)
+        : undefined;
+      if (!workspaceFolder) {
+        continue;
+      }
+      const moduleInfo = findMavenModule(testItem.uri!.fsPath, workspaceFolder.uri.fsPath);
+      if (!testClasses.has(moduleInfo.modulePath)) {
+        testClasses.set(moduleInfo.modulePath, configuredTestClass || !isMaven
+          ? Promise.resolve(configuredTestClass)
+          : findCucumberTestClass(moduleInfo.modulePath));
+      }
+      const testClassName = await testClasses.get(moduleInfo.modulePath) || '';
+      if (!testClassName && isMaven) {
+        continue;
+      }
+
+      const key = `${moduleInfo.modulePath}|${testClassName}`;
+      const group = groups.get(key) || { workspaceFolder, moduleInfo, testClassName, items: [] };
+      group.items.push(testItem);
+      groups.set(key, group);
+    }
+
+    for (const { workspaceFolder, moduleInfo, testClassName, items } of groups.values()) {
+      if (items.length < 2 && !rerun) {
+        continue;
+      }
+      const workspaceRoot = workspaceFolder.uri.fsPath;
+      const onOutput = (data: string) => run.appendOutput(data, undefined, findCommonAncestor(items));
+      const batch = new CucumberRunBatch(items, moduleInfo, isMaven, (selections, onStepUpdate) => isMaven
+        ? runCucumberTestWithMavenUnified(
+          workspaceRoot,
+          workspaceFolder,
+          moduleInfo,
+          path.relative(workspaceRoot, items[0].uri!.fsPath),
+          testClassName,
+          false,
+          undefined,
+          undefined,
+          undefined,
+          onOutput,
+          onStepUpdate,
+          selections,
+          tagExpression
+        )
+        : runRerunFileWithJava(moduleInfo.modulePath, selections, onOutput, onStepUpdate, tagExpression));
+      items.forEach(item => batches.set(item, batch));
+    }
+    return batches;
+  }
+
+  /**
+   * Splits the processes of a run into lanes that may run side by side
+   *
+   * Processes that write to the same `target` directory (same module, or a
+   * run of the root project, which builds every module) must not overlap, so
+   * they share a lane and run one after another, in request order.
+   */
+  private groupByTargetDirectory(units: vscode.TestItem[][]): vscode.TestItem[][][] {
+    const lanes = new Map<string, vscode.TestItem[][]>();
+    const rootRuns = new Set<string>();
+
+    const keyed = units.map(unit => {
+      const uri = unit[0].uri;
+      const workspaceFolder = uri ? vscode.workspace.getWorkspaceFolder(uri) : undefined;
+      if (!uri || !workspaceFolder) {
+        return { unit, workspaceRoot: '', key: '' };
+      }
+      const moduleInfo = findMavenModule(uri.fsPath, workspaceFolder.uri.fsPath);
+      if (moduleInfo.moduleRelativePath === '.') {
+        rootRuns.add(workspaceFolder.uri.fsPath);
+      }
+      return { unit, workspaceRoot: workspaceFolder.uri.fsPath, key: path.join(moduleInfo.modulePath, 'target') };
+    });
+
+    for (const { unit, workspaceRoot, key } of keyed) {
+      const laneKey = rootRuns.has(workspaceRoot) ? workspaceRoot : key;
+      const lane = lanes.get(laneKey) || [];
+      lane.push(unit);
+      lanes.set(laneKey, lane);
+    }
+
+    for (const [laneKey, lane] of lanes) {
+      if (lane.length > 1) {
+        logToExtension(`${lane.length} processes share ${laneKey} and run one after another`, 'DEBUG');
+      }
+    }
+    return Array.from(lanes.values());
+  }
+
   private gatherAllTests(): vscode.TestItem[] {
     const tests: vscode.TestItem[] = [];
     
@@ -618,13 +1522,33 @@ class CucumberTestController {
     return tests;
   }
 
-  private async runSingleTest(testItem: vscode.TestItem, run: vscode.TestRun, isDebug: boolean = false) {
+  private async runSingleTest(
+    testItem: vscode.TestItem,
+    run: vscode.TestRun,
+    isDebug: boolean = false,
+    tagExpression?: string,
+    launch?: TestLauncher
+  ) {
     // TestRun lifecycle: started() → running → passed()/failed()/skipped() → end()
     // Mark test item as started to show "preparing" state in Test Explorer
     run.started(testItem);
 
+    // Cucumber would not select it, so it does not run at all
+    const tagFilter = tagExpression ? parseTagExpression(tagExpression) : undefined;
+    const scenarioItems = testItem.id.includes(':scenario:') ? [testItem] : this.collectScenarioItems(testItem);
+    if (tagFilter && !scenarioItems.some(item => matchesTagExpression(item, tagFilter))) {
+      logToExtension(`Skipping "${testItem.label}": not selected by the tag expression`, 'INFO');
+      run.skipped(testItem);
+      return;
+    }
+
     try {
       const uri = testItem.uri!;
+
+      // Runs Cucumber on its own unless the test is part of a batch
+      const launchTest: TestLauncher = launch || ((lines, exampleLine, onStepUpdate) => isDebug
+        ? runSelectedTestInDebugMode(uri, testItem, run, lines, exampleLine, onStepUpdate, tagExpression)
+        : runSelectedTestAndWait(uri, lines, exampleLine, (data) => run.appendOutput(data, undefined, testItem), onStepUpdate, tagExpression));
       
       // Log test execution mode
       logToExtension(
@@ -646,6 +1570,7 @@ class CucumberTestController {
       const scenarioBeforeContainers = new Map<string, vscode.TestItem>(); // Map scenario ID to its Before container
       const scenarioBackgroundMaps = new Map<string, Map<string, vscode.TestItem>>(); // Map scenario ID to its background steps map
       const scenarioBackgroundOrders = new Map<string, vscode.TestItem[]>(); // Map scenario ID to its background steps order
+      const scenarioRunOrder: vscode.TestItem[] = []; // Scenarios in the order Cucumber executes them (file order)
       
       // If running a scenario, collect all step children IN ORDER (sorted by line number)
       if (testItem.id.includes(':scenario:') && !testItem.id.includes(':step:')) {
@@ -681,12 +1606,8 @@ class CucumberTestController {
           }
         });
 
-        // Sort by line number (extracted from step ID: "...:step:lineNumber")
-        stepChildren.sort((a, b) => {
-          const lineA = parseInt(a.id.split(':step:')[1]) || 0;
-          const lineB = parseInt(b.id.split(':step:')[1]) || 0;
-          return lineA - lineB;
-        });
+        // Sort by line number
+        stepChildren.sort((a, b) => getItemLine(a) - getItemLine(b));
 
         logToExtension(`📋 Pre-registering ${stepChildren.length} steps in Test Explorer (in order):`, 'INFO');
         
@@ -696,7 +1617,7 @@ class CucumberTestController {
         for (let i = 0; i < stepChildren.length; i++) {
           const child = stepChildren[i];
           const stepText = child.label;
-          const lineNum = child.id.split(':step:')[1];
+          const lineNum = getItemLine(child);
           const stepId = child.id; // Use unique ID as key
           
           // Add to map using step ID as key (handles duplicate step texts)
@@ -718,10 +1639,16 @@ class CucumberTestController {
       
       // Track current scenario being executed (for Feature-level execution)
       let currentScenarioId: string | undefined = undefined;
+      // Feature ID is the prefix of every item ID in this feature
+      const featureId = testItem.id.split(':scenario:')[0].split(':rule:')[0];
+      // Steps that failed once stay failed when an outline runs them again for the next Examples row
+      const failedStepIds = new Set<string>();
       
       const onStepUpdate = (stepResult: StepResult) => {
         const stepText = `${stepResult.keyword} ${stepResult.name}`;
         let stepItem: vscode.TestItem | undefined = undefined;
+        // Results from the Cucumber message protocol carry exact feature lines
+        const hasExactLocation = stepResult.scenarioLineNumber !== undefined;
 
         logToExtension(`━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━`, 'INFO');
         logToExtension(`onStepUpdate called:`, 'INFO');
@@ -729,16 +1656,31 @@ class CucumberTestController {
         logToExtension(`  status: ${stepResult.status}`, 'INFO');
         logToExtension(`  stepItemsMap size: ${stepItemsMap.size}`, 'INFO');
 
+        if (hasExactLocation) {
+          // Message protocol: pickle → scenario line, pickle step → step line
+          currentScenarioId = this.findScenarioItemAtLine(featureId, stepResult.scenarioLineNumber!)?.id;
+          if (stepResult.lineNumber !== undefined) {
+            stepItem = Array.from(stepItemsMap.values()).find(item =>
+              item.parent?.id === currentScenarioId && getItemLine(item) === stepResult.lineNumber);
+          }
+          if (stepItem) {
+            logToExtension(`✅ Found step by location: "${stepItem.label}" (line ${stepResult.lineNumber})`, 'INFO');
+          } else {
+            logToExtension(`  ${stepResult.isHook ? 'Hook' : 'Background step'} of scenario line ${stepResult.scenarioLineNumber}: "${stepText}"`, 'DEBUG');
+          }
+        }
+
         // NEW APPROACH: Since Map now uses step ID (not text) as key,
         // we need to find the step by matching the label text
         // For duplicate step texts (e.g., same step in different lines),
         // we need to match them sequentially based on execution order
+        // (only needed when the result has no exact location)
         
         // Try to find step by exact label match
         // For duplicate steps, we use the first unprocessed one (not yet marked passed/failed/skipped)
         let foundSteps: Array<{id: string, item: vscode.TestItem}> = [];
         
-        for (const [stepId, item] of stepItemsMap.entries()) {
+        for (const [stepId, item] of hasExactLocation ? [] : stepItemsMap.entries()) {
           // Check if label matches (exact match or fuzzy match)
           const itemLabel = item.label;
           
@@ -768,7 +1710,7 @@ class CucumberTestController {
             
             for (const fs of foundSteps) {
               const isProcessed = processedSteps.has(fs.id);
-              const lineNum = fs.id.split(':step:')[1];
+              const lineNum = getItemLine(fs.item);
               logToExtension(`    [Check] Line ${lineNum}: ${isProcessed ? '✓ already processed' : '⭘ not yet processed'}`, 'DEBUG');
               
               if (!isProcessed) {
@@ -792,16 +1734,10 @@ class CucumberTestController {
           stepItem = selectedStep.item;
           
           // CRITICAL v26.2: Track current scenario for Feature-level execution
-          // Extract scenario ID from step ID: "...feature:...:scenario:LINE:step:LINE"
-          if (stepItem.id.includes(':scenario:')) {
-            const parts = stepItem.id.split(':scenario:');
-            if (parts.length > 1) {
-              // Get scenario ID up to (but not including) ":step:"
-              const afterScenario = parts[1];
-              const scenarioLineAndRest = afterScenario.split(':step:')[0];
-              currentScenarioId = `${parts[0]}:scenario:${scenarioLineAndRest}`;
-              logToExtension(`  📍 Current scenario ID updated: ${currentScenarioId}`, 'DEBUG');
-            }
+          // The scenario of a step is its parent item
+          if (stepItem.parent && stepItem.parent.id.includes(':scenario:')) {
+            currentScenarioId = stepItem.parent.id;
+            logToExtension(`  📍 Current scenario ID updated: ${currentScenarioId}`, 'DEBUG');
           }
           
           logToExtension(`✅ Found step match: "${stepItem.label}"`, 'INFO');
@@ -812,20 +1748,21 @@ class CucumberTestController {
             logToExtension(`  ℹ️  All steps with same text:`, 'INFO');
             foundSteps.forEach((s, idx) => {
               const processed = processedSteps.has(s.id) ? '✓ processed' : '⭘ pending';
-              const lineNum = s.id.split(':step:')[1];
+              const lineNum = getItemLine(s.item);
               const isCurrent = s.id === selectedStep.item.id ? ' ← CURRENT' : '';
               logToExtension(`    [${idx}] Line ${lineNum}: ${s.item.label} (${processed})${isCurrent}`, 'INFO');
             });
           }
-        } else {
+        } else if (!hasExactLocation) {
           logToExtension(`❌ No matching step found in stepItemsMap`, 'WARN');
           logToExtension(`  Available steps (${stepItemsMap.size}):`, 'DEBUG');
           let count = 0;
-          for (const [stepId, item] of stepItemsMap.entries()) {
-            const lineNum = stepId.split(':step:')[1];
-            logToExtension(`  [${count++}] Line ${lineNum}: "${item.label}"`, 'DEBUG');
+          for (const item of stepItemsMap.values()) {
+            logToExtension(`  [${count++}] Line ${getItemLine(item)}: "${item.label}"`, 'DEBUG');
           }
-          
+        }
+
+        if (!stepItem) {
           // This is likely a Background or Before hook step
           // Create a dynamic step item in the Before container
           
@@ -834,8 +1771,16 @@ class CucumberTestController {
           let targetBackgroundMap = backgroundStepsMap;
           let targetBackgroundOrder = backgroundStepsOrder;
           
-          // If we're in Feature-level execution and know the current scenario
-          if (currentScenarioId && scenarioBeforeContainers.has(currentScenarioId)) {
+          // Background steps run BEFORE the scenario's own steps, so they belong to the next
+          // scenario that has not started yet and whose Feature/Rule Background contains the step
+          // (a Rule Background only applies to the scenarios inside that Rule)
+          const ownerScenarioId = hasExactLocation
+            ? currentScenarioId
+            : this.findBackgroundOwner(stepText, scenarioRunOrder, processedSteps) || currentScenarioId;
+
+          // If we're in Feature-level execution and know the owning scenario
+          if (ownerScenarioId && scenarioBeforeContainers.has(ownerScenarioId)) {
+            currentScenarioId = ownerScenarioId;
             targetBeforeContainer = scenarioBeforeContainers.get(currentScenarioId)!;
             targetBackgroundMap = scenarioBackgroundMaps.get(currentScenarioId)!;
             targetBackgroundOrder = scenarioBackgroundOrders.get(currentScenarioId)!;
@@ -904,6 +1849,12 @@ class CucumberTestController {
           
           // Mark this step as processed
           processedSteps.add(stepItem.id);
+
+          // A later Examples row must not turn a failed step green again
+          if (failedStepIds.has(stepItem.id) && (stepResult.status === 'passed' || stepResult.status === 'skipped')) {
+            logToExtension(`  Keeping FAILED state of ${stepItem.id} (status ${stepResult.status} from a later run)`, 'DEBUG');
+            return;
+          }
           
           // Transition to terminal state based on step result
           switch (stepResult.status) {
@@ -914,6 +1865,7 @@ class CucumberTestController {
               break;
             case 'failed': {
               hasFailedStep = true; // Mark that we have a failed step
+              failedStepIds.add(stepItem.id);
               const errorMsg = stepResult.errorMessage || 'Step failed';
               run.failed(stepItem, new vscode.TestMessage(errorMsg));
               logToExtension(`❌ Step FAILED: ${stepText}`, 'ERROR');
@@ -925,6 +1877,12 @@ class CucumberTestController {
                 logToExtension(`Marking scenario as FAILED due to step failure: ${stepText}`, 'ERROR');
                 run.failed(testItem, new vscode.TestMessage(`Step failed: ${stepText}\n${errorMsg}`));
                 logToExtension(`  TestRun.failed() called for scenario: ${testItem.id}`, 'DEBUG');
+              } else {
+                // Feature/Rule run: fail the scenario the step belongs to
+                const failedScenario = scenarioRunOrder.find(scenario => scenario.id === currentScenarioId);
+                if (failedScenario) {
+                  run.failed(failedScenario, new vscode.TestMessage(`Step failed: ${stepText}\n${errorMsg}`));
+                }
               }
               break;
             }
@@ -933,6 +1891,25 @@ class CucumberTestController {
               logToExtension(`⊝ Step SKIPPED: ${stepText}`, 'WARN');
               logToExtension(`  TestRun.skipped() called for: ${stepItem.id}`, 'DEBUG');
               break;
+            case 'pending':
+            case 'undefined':
+            case 'ambiguous': {
+              // The step could not be executed as written: errored, not failed
+              hasFailedStep = true;
+              failedStepIds.add(stepItem.id);
+              const problem = describeStepProblem(stepResult);
+              run.errored(stepItem, new vscode.TestMessage(problem));
+              logToExtension(`⚠️ Step ${stepResult.status.toUpperCase()}: ${stepText}`, 'WARN');
+              logToExtension(`  TestRun.errored() called for: ${stepItem.id}`, 'DEBUG');
+
+              const problemScenario = testItem.id.includes(':scenario:')
+                ? testItem
+                : scenarioRunOrder.find(scenario => scenario.id === currentScenarioId);
+              if (problemScenario) {
+                run.errored(problemScenario, new vscode.TestMessage(problem));
+              }
+              break;
+            }
           }
         } else {
           logToExtension(`⚠️ Step not found in Test Explorer: ${stepText}`, 'WARN');
@@ -946,33 +1923,12 @@ class CucumberTestController {
         run.skipped(testItem);
         return;
       } else if (testItem.id.includes(':example:')) {
-        // This is an example row
-        const parts = testItem.id.split(':');
-        const scenarioLine = parseInt(parts[2]); // scenario line number
-        const exampleLine = parseInt(parts[4]); // example line number
+        // This is an example row, child of its scenario
+        const scenarioLine = testItem.parent ? getItemLine(testItem.parent) : 0;
+        const exampleLine = getItemLine(testItem);
         logToExtension(`Running example at scenario line ${scenarioLine}, example line ${exampleLine}`, 'INFO');
         
-        let exitCode: number;
-        if (isDebug) {
-          // Debug mode execution
-          exitCode = await runSelectedTestInDebugMode(
-            uri,
-            testItem,
-            run,
-            scenarioLine,
-            exampleLine,
-            onStepUpdate
-          );
-        } else {
-          // Normal mode execution
-          exitCode = await runSelectedTestAndWait(
-            uri,
-            scenarioLine,
-            exampleLine,
-            (data) => run.appendOutput(data, undefined, testItem),
-            onStepUpdate
-          );
-        }
+        const exitCode = await launchTest(scenarioLine, exampleLine, onStepUpdate);
         // Mark example as passed if no steps failed, regardless of exit code
         if (!hasFailedStep) {
           run.passed(testItem);
@@ -981,34 +1937,11 @@ class CucumberTestController {
         // If hasFailedStep is true, we already marked it as failed in onStepUpdate
       } else if (testItem.id.includes(':scenario:')) {
         // This is a scenario
-        const parts = testItem.id.split(':scenario:');
-        const lineNumber = parseInt(parts[1].split(':')[0]); // Get first part before any additional colons
+        const lineNumber = getItemLine(testItem);
         logToExtension(`Running scenario at line ${lineNumber}`, 'INFO');
         
-        let exitCode: number;
-        if (isDebug) {
-          logToExtension('🐛 Branch: DEBUG mode', 'INFO');
-          // Debug mode execution
-          exitCode = await runSelectedTestInDebugMode(
-            uri,
-            testItem,
-            run,
-            lineNumber,
-            undefined,
-            onStepUpdate
-          );
-        } else {
-          logToExtension('▶️  Branch: RUN mode - calling runSelectedTestAndWait', 'INFO');
-          // Normal mode execution
-          exitCode = await runSelectedTestAndWait(
-            uri,
-            lineNumber,
-            undefined,
-            (data) => run.appendOutput(data, undefined, testItem),
-            onStepUpdate
-          );
-          logToExtension(`▶️  runSelectedTestAndWait returned with exit code: ${exitCode}`, 'INFO');
-        }
+        const exitCode = await launchTest(lineNumber, undefined, onStepUpdate);
+        logToExtension(`▶️  Scenario run returned with exit code: ${exitCode}`, 'INFO');
 
         // Mark scenario as passed if no steps failed, regardless of exit code
         // (exit code may be non-zero due to other tests failing in multi-module projects)
@@ -1020,22 +1953,21 @@ class CucumberTestController {
         }
         // If hasFailedStep is true, we already marked it as failed in onStepUpdate
       } else {
-        // This is a feature file - need to initialize ALL scenarios and their steps
-        logToExtension(`Running entire feature file: ${testItem.label}`, 'INFO');
+        // This is a feature file or a Rule - need to initialize ALL scenarios and their steps
+        const isRule = testItem.id.includes(':rule:');
+        logToExtension(`Running entire ${isRule ? 'rule' : 'feature file'}: ${testItem.label}`, 'INFO');
         logToExtension(`╔═══════════════════════════════════════════════════════════════╗`, 'INFO');
         logToExtension(`║ Initializing Feature Run - All Scenarios                     ║`, 'INFO');
         logToExtension(`╚═══════════════════════════════════════════════════════════════╝`, 'INFO');
         
         // CRITICAL FIX v26.2: Initialize ALL scenarios and their steps when running feature
-        // Collect all scenario children
-        const scenarios: vscode.TestItem[] = [];
-        testItem.children.forEach(child => {
-          if (child.id.includes(':scenario:')) {
-            scenarios.push(child);
-          }
-        });
+        // Collect all scenario children (including scenarios nested in Rules)
+        // With a tag expression, only the scenarios Cucumber selects get results
+        const scenarios = this.collectScenarioItems(testItem)
+          .filter(scenario => !tagFilter || matchesTagExpression(scenario, tagFilter));
+        scenarioRunOrder.push(...scenarios);
         
-        logToExtension(`📋 Feature contains ${scenarios.length} scenarios`, 'INFO');
+        logToExtension(`📋 ${isRule ? 'Rule' : 'Feature'} contains ${scenarios.length} scenarios`, 'INFO');
         
         // Initialize each scenario and its steps
         for (let scenarioIdx = 0; scenarioIdx < scenarios.length; scenarioIdx++) {
@@ -1068,11 +2000,7 @@ class CucumberTestController {
           });
           
           // Sort steps by line number
-          stepChildren.sort((a, b) => {
-            const lineA = parseInt(a.id.split(':step:')[1]) || 0;
-            const lineB = parseInt(b.id.split(':step:')[1]) || 0;
-            return lineA - lineB;
-          });
+          stepChildren.sort((a, b) => getItemLine(a) - getItemLine(b));
           
           logToExtension(`  📋 Initializing ${stepChildren.length} steps:`, 'INFO');
           
@@ -1080,7 +2008,7 @@ class CucumberTestController {
           for (let i = 0; i < stepChildren.length; i++) {
             const child = stepChildren[i];
             const stepText = child.label;
-            const lineNum = child.id.split(':step:')[1];
+            const lineNum = getItemLine(child);
             const stepId = child.id;
             
             // Add to map using step ID as key
@@ -1096,36 +2024,31 @@ class CucumberTestController {
         logToExtension(`\n✅ All ${scenarios.length} scenarios and ${stepItemsMap.size} steps initialized`, 'INFO');
         logToExtension(`━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━`, 'INFO');
         
-        let exitCode: number;
-        if (isDebug) {
-          // Debug mode execution
-          exitCode = await runSelectedTestInDebugMode(
-            uri,
-            testItem,
-            run,
-            undefined,
-            undefined,
-            onStepUpdate
-          );
-        } else {
-          // Normal mode execution
-          exitCode = await runSelectedTestAndWait(
-            uri,
-            undefined,
-            undefined,
-            (data) => run.appendOutput(data, undefined, testItem),
-            onStepUpdate
-          );
+        // A Rule has no line filter of its own, so select it through all of its scenario lines
+        const ruleLines = isRule
+          ? scenarios.map(getItemLine).filter(line => line > 0)
+          : undefined;
+        if (ruleLines && ruleLines.length === 0) {
+          // Without lines Cucumber would run the whole feature
+          logToExtension(`Skipping rule "${testItem.label}": it has no scenarios`, 'INFO');
+          run.skipped(testItem);
+          return;
+        }
+        if (ruleLines) {
+          logToExtension(`Running rule scenarios at lines ${ruleLines.join(', ')}`, 'INFO');
         }
 
-        // Mark feature as passed if no steps failed, regardless of exit code
+        const exitCode = await launchTest(ruleLines, undefined, onStepUpdate);
+
+        // Mark feature/rule as passed if no steps failed, regardless of exit code
         // (exit code may be non-zero due to other tests failing in multi-module projects)
         // TestRun lifecycle: Feature state determined by child step failures
         if (!hasFailedStep) {
           run.passed(testItem);
-          logToExtension(`Feature PASSED (no failed steps, exit code ${exitCode})`, 'INFO');
+          logToExtension(`${isRule ? 'Rule' : 'Feature'} PASSED (no failed steps, exit code ${exitCode})`, 'INFO');
+        } else {
+          run.failed(testItem, new vscode.TestMessage(`One or more steps failed in ${testItem.label}`));
         }
-        // If hasFailedStep is true, we already marked it as failed in onStepUpdate
       }
 
     } catch (error) {
@@ -1134,6 +2057,91 @@ class CucumberTestController {
     }
   }
 
+  /**
+   * Collects scenario items under a feature or rule item, descending into Rules, sorted by line
+   */
+  private collectScenarioItems(parent: vscode.TestItem): vscode.TestItem[] {
+    const scenarios: vscode.TestItem[] = [];
+    parent.children.forEach(child => {
+      if (child.id.includes(':scenario:')) {
+        scenarios.push(child);
+      } else if (child.id.includes(':rule:')) {
+        scenarios.push(...this.collectScenarioItems(child));
+      }
+    });
+
+    return scenarios.sort((a, b) => getItemLine(a) - getItemLine(b));
+  }
+
+  /**
+   * Finds the scenario item of a feature at a 1-based line
+   */
+  private findScenarioItemAtLine(featureId: string, line: number): vscode.TestItem | undefined {
+    const featureItem = this.watchedFiles.get(featureId);
+    return featureItem ? this.collectScenarioItems(featureItem).find(item => getItemLine(item) === line) : undefined;
+  }
+
+  /**
+   * Finds the scenario a Background step belongs to: the first scenario (in run order)
+   * whose own steps have not run yet and whose Feature/Rule Background contains the step
+   */
+  private findBackgroundOwner(
+    stepText: string,
+    scenarioRunOrder: vscode.TestItem[],
+    processedSteps: Set<string>
+  ): string | undefined {
+    for (const scenario of scenarioRunOrder) {
+      let started = false;
+      scenario.children.forEach(child => {
+        if (child.id.includes(':step:') && processedSteps.has(child.id)) {
+          started = true;
+        }
+      });
+      if (started) {continue;}
+
+      const backgroundSteps = this.scenarioBackgrounds.get(scenario.id) || [];
+      if (backgroundSteps.some(step => `${step.keyword} ${step.text}` === stepText)) {
+        return scenario.id;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Runs scenarios (or some of their example rows) as if they were selected in Test Explorer
+   */
+  async runScenarios(scenarios: TaggedScenario[], isDebug = false): Promise<void> {
+    const items: vscode.TestItem[] = [];
+    for (const scenario of scenarios) {
+      const scenarioItem = this.findScenarioItemAtLine(path.normalize(scenario.featurePath), scenario.lineNumber);
+      if (!scenarioItem) {
+        continue;
+      }
+
+      if (scenario.exampleLineNumbers) {
+        scenarioItem.children.forEach(child => {
+          if (child.id.includes(':example:') && scenario.exampleLineNumbers!.includes(getItemLine(child))) {
+            items.push(child);
+          }
+        });
+      } else {
+        items.push(scenarioItem);
+      }
+    }
+
+    if (items.length === 0) {
+      vscode.window.showWarningMessage('No matching scenarios found in Test Explorer. Try refreshing the tests.');
+      return;
+    }
+
+    const tokenSource = new vscode.CancellationTokenSource();
+    try {
+      await this.runTests(new vscode.TestRunRequest(items), tokenSource.token, isDebug);
+    } finally {
+      tokenSource.dispose();
+    }
+  }
+
   private async executeTest(uri: vscode.Uri, lineNumber?: number, exampleLine?: number) {
     // Use the existing runSelectedTest function
     await runSelectedTest(uri, lineNumber, exampleLine);
@@ -1156,40 +2164,36 @@ class CucumberCodeLensProvider implements vscode.CodeLensProvider {
       return codeLenses;
     }
 
-    const text = document.getText();
-    const lines = text.split('\n');
+    const feature = getGherkinDocument(document).feature;
+    if (!feature) {
+      return codeLenses;
+    }
 
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i].trim();
-      
-      if (line.startsWith('Feature:')) {
-        // Position the button at the very beginning of the line
-        const range = new vscode.Range(i, 0, i, 0);
-        codeLenses.push(new vscode.CodeLens(range, {
-          title: '$(play-circle) ',
-          tooltip: 'Click to run the entire feature file',
-          command: 'cucumberJavaEasyRunner.runFeatureCodeLens',
-          arguments: [document.uri]
-        }));
-      } else if (line.startsWith('Scenario:') || line.startsWith('Scenario Outline:')) {
-        // Position the button at the very beginning of the line
-        const range = new vscode.Range(i, 0, i, 0);
-        codeLenses.push(new vscode.CodeLens(range, {
-          title: '$(play) ',
-          tooltip: 'Click to run this scenario',
-          command: 'cucumberJavaEasyRunner.runScenarioCodeLens',
-          arguments: [document.uri, i + 1] // 1-indexed line number
-        }));
-      } else if (line.startsWith('|') && i > 0) {
-        // Check if this is an example row (not header)
-        const exampleInfo = this.findExampleRowInfo(lines, i);
-        if (exampleInfo) {
-          const range = new vscode.Range(i, 0, i, 0);
-          codeLenses.push(new vscode.CodeLens(range, {
+    // Position the buttons at the very beginning of the line
+    const lineStart = (line: number) => new vscode.Range(line - 1, 0, line - 1, 0);
+
+    codeLenses.push(new vscode.CodeLens(lineStart(feature.location.line), {
+      title: '$(play-circle) ',
+      tooltip: 'Click to run the entire feature file',
+      command: 'cucumberJavaEasyRunner.runFeatureCodeLens',
+      arguments: [document.uri]
+    }));
+
+    for (const scenario of getScenarios(feature)) {
+      codeLenses.push(new vscode.CodeLens(lineStart(scenario.location.line), {
+        title: '$(play) ',
+        tooltip: 'Click to run this scenario',
+        command: 'cucumberJavaEasyRunner.runScenarioCodeLens',
+        arguments: [document.uri, scenario.location.line] // 1-indexed line number
+      }));
+
+      for (const examples of scenario.examples) {
+        for (const row of examples.tableBody) {
+          codeLenses.push(new vscode.CodeLens(lineStart(row.location.line), {
             title: '$(play) ',
             tooltip: 'Click to run this example row',
             command: 'cucumberJavaEasyRunner.runExampleCodeLens',
-            arguments: [document.uri, exampleInfo.scenarioLine, i + 1] // scenario line and example line
+            arguments: [document.uri, scenario.location.line, row.location.line] // scenario line and example line
           }));
         }
       }
@@ -1197,1068 +2201,3140 @@ class CucumberCodeLensProvider implements vscode.CodeLensProvider {
 
     return codeLenses;
   }
+}
 
-  private findExampleRowInfo(lines: string[], currentLine: number): { scenarioLine: number } | null {
-    // Go backwards to find Examples heading
-    let examplesLine = -1;
-    let headerLine = -1;
-    
-    for (let i = currentLine; i >= 0; i--) {
-      const line = lines[i].trim();
-      if (line.startsWith('Examples:')) {
-        examplesLine = i;
-        break;
-      }
+/**
+ * Read-only documents showing the scenarios of an outline expanded, one per Examples row
+ *
+ * The preview URI carries the feature file and the outline's line; the
+ * preview follows edits of the feature file. Examples rows of feature files
+ * get a preview CodeLens, whether or not the run CodeLenses are enabled.
+ */
+class OutlinePreviewProvider implements vscode.TextDocumentContentProvider, vscode.CodeLensProvider {
+  static readonly scheme = 'cucumber-outline';
+
+  private readonly changeEmitter = new vscode.EventEmitter<vscode.Uri>();
+  readonly onDidChange = this.changeEmitter.event;
+  private previews = new Map<string, OutlinePreview>();
+
+  constructor(context: vscode.ExtensionContext) {
+    context.subscriptions.push(
+      this.changeEmitter,
+      vscode.workspace.onDidChangeTextDocument(e => {
+        for (const document of vscode.workspace.textDocuments) {
+          if (document.uri.scheme === OutlinePreviewProvider.scheme &&
+              OutlinePreviewProvider.parseUri(document.uri).featureUri.toString() === e.document.uri.toString()) {
+            this.changeEmitter.fire(document.uri);
+          }
+        }
+      }),
+      vscode.workspace.onDidCloseTextDocument(document => this.previews.delete(document.uri.toString()))
+    );
+  }
+
+  static toUri(featureUri: vscode.Uri, scenarioLine: number): vscode.Uri {
+    const name = path.basename(featureUri.fsPath, '.feature');
+    return vscode.Uri.from({
+      scheme: OutlinePreviewProvider.scheme,
+      path: `/${name} (expanded, line ${scenarioLine}).feature`,
+      query: new URLSearchParams({ feature: featureUri.toString(), line: String(scenarioLine) }).toString()
+    });
+  }
+
+  static parseUri(uri: vscode.Uri): { featureUri: vscode.Uri; scenarioLine: number } {
+    const query = new URLSearchParams(uri.query);
+    return { featureUri: vscode.Uri.parse(query.get('feature') || ''), scenarioLine: Number(query.get('line')) };
+  }
+
+  /**
+   * Line of the expanded scenario of an Examples row in an open preview (1-based)
+   */
+  getScenarioLine(previewUri: vscode.Uri, exampleLine: number): number | undefined {
+    return this.previews.get(previewUri.toString())?.scenarios.find(entry => entry.exampleLine === exampleLine)?.line;
+  }
+
+  async provideTextDocumentContent(uri: vscode.Uri): Promise<string> {
+    const { featureUri, scenarioLine } = OutlinePreviewProvider.parseUri(uri);
+    const featureDocument = await vscode.workspace.openTextDocument(featureUri);
+    const feature = getGherkinDocument(featureDocument).feature;
+    const scenario = getScenarioAtLine(getGherkinDocument(featureDocument), scenarioLine);
+
+    if (!feature || !scenario || scenario.examples.length === 0) {
+      this.previews.delete(uri.toString());
+      return `# No Scenario Outline with Examples at ${vscode.workspace.asRelativePath(featureUri)}:${scenarioLine}\n`;
     }
-    
-    if (examplesLine === -1) {
-      return null;
+
+    const preview = renderOutlinePreview(feature, scenario, vscode.workspace.asRelativePath(featureUri));
+    this.previews.set(uri.toString(), preview);
+    return preview.text;
+  }
+
+  provideCodeLenses(document: vscode.TextDocument): vscode.CodeLens[] {
+    if (document.uri.scheme !== OutlinePreviewProvider.scheme) {
+      return this.provideFeatureCodeLenses(document);
     }
-    
-    // Find the header row (first | line after Examples)
-    for (let i = examplesLine + 1; i < lines.length; i++) {
-      const line = lines[i].trim();
-      if (line.startsWith('|')) {
-        headerLine = i;
-        break;
-      }
+
+    const preview = this.previews.get(document.uri.toString());
+    if (!preview) {
+      return [];
     }
-    
-    // Current line must be after header line to be a data row
-    if (headerLine === -1 || currentLine <= headerLine) {
-      return null;
+
+    const { featureUri, scenarioLine } = OutlinePreviewProvider.parseUri(document.uri);
+    const codeLenses: vscode.CodeLens[] = [];
+    for (const { line, exampleLine } of preview.scenarios) {
+      const range = new vscode.Range(line - 1, 0, line - 1, 0);
+      codeLenses.push(
+        new vscode.CodeLens(range, {
+          title: '$(play) Run',
+          tooltip: `Run the example at line ${exampleLine}`,
+          command: 'cucumberJavaEasyRunner.runExampleCodeLens',
+          arguments: [featureUri, scenarioLine, exampleLine]
+        }),
+        new vscode.CodeLens(range, {
+          title: '$(debug-alt) Debug',
+          tooltip: `Debug the example at line ${exampleLine}`,
+          command: 'cucumberJavaEasyRunner.debugExample',
+          arguments: [featureUri, scenarioLine, exampleLine]
+        })
+      );
     }
-    
-    // Find the Scenario Outline
-    for (let i = examplesLine; i >= 0; i--) {
-      const line = lines[i].trim();
-      if (line.startsWith('Scenario Outline:')) {
-        return { scenarioLine: i + 1 }; // 1-indexed
+    return codeLenses;
+  }
+
+  private provideFeatureCodeLenses(document: vscode.TextDocument): vscode.CodeLens[] {
+    const feature = getGherkinDocument(document).feature;
+    const codeLenses: vscode.CodeLens[] = [];
+    for (const scenario of feature ? getScenarios(feature) : []) {
+      for (const examples of scenario.examples) {
+        for (const row of examples.tableBody) {
+          codeLenses.push(new vscode.CodeLens(new vscode.Range(row.location.line - 1, 0, row.location.line - 1, 0), {
+            title: '$(open-preview) ',
+            tooltip: 'Click to preview this example row expanded',
+            command: 'cucumberJavaEasyRunner.previewOutline',
+            arguments: [document.uri, scenario.location.line, row.location.line]
+          }));
+        }
       }
     }
-    
-    return null;
+    return codeLenses;
   }
 }
 
 /**
- * Finds example row info
+ * Quick fixes on undefined steps of the last run: generate their step definitions
  */
-function findExampleRowInfo(lines: string[], currentLine: number): { scenarioLine: number } | null {
-  // Go backwards to find Examples heading
-  let examplesLine = -1;
-  let headerLine = -1;
-  
-  for (let i = currentLine; i >= 0; i--) {
-    const line = lines[i].trim();
-    if (line.startsWith('Examples:')) {
-      examplesLine = i;
-      break;
-    }
-  }
-  
-  if (examplesLine === -1) {
-    return null;
-  }
-  
-  // Find the header row (first | line after Examples)
-  for (let i = examplesLine + 1; i < lines.length; i++) {
-    const line = lines[i].trim();
-    if (line.startsWith('|')) {
-      headerLine = i;
-      break;
+class UndefinedStepCodeActionProvider implements vscode.CodeActionProvider {
+  static readonly providedCodeActionKinds = [vscode.CodeActionKind.QuickFix];
+
+  provideCodeActions(document: vscode.TextDocument, range: vscode.Range | vscode.Selection): vscode.CodeAction[] {
+    const undefinedSteps = undefinedStepSnippets.get(document.uri.fsPath) || [];
+    const actions: vscode.CodeAction[] = [];
+
+    for (const step of undefinedSteps) {
+      if (step.lineNumber === undefined || step.lineNumber - 1 < range.start.line || step.lineNumber - 1 > range.end.line) {
+        continue;
+      }
+      const action = new vscode.CodeAction(`Generate step definition for "${step.stepText}"`, vscode.CodeActionKind.QuickFix);
+      action.command = {
+        title: action.title,
+        command: 'cucumberJavaEasyRunner.generateStepDefinitions',
+        arguments: [document.uri, step.lineNumber]
+      };
+      action.isPreferred = true;
+      actions.push(action);
     }
-  }
-  
-  // Current line must be after header line to be a data row
-  if (headerLine === -1 || currentLine <= headerLine) {
-    return null;
-  }
-  
-  // Find the Scenario Outline
-  for (let i = examplesLine; i >= 0; i--) {
-    const line = lines[i].trim();
-    if (line.startsWith('Scenario Outline:')) {
-      return { scenarioLine: i + 1 }; // 1-indexed
+
+    if (actions.length > 0 && undefinedSteps.length > 1) {
+      const allAction = new vscode.CodeAction(`Generate all ${undefinedSteps.length} missing step definitions`, vscode.CodeActionKind.QuickFix);
+      allAction.command = {
+        title: allAction.title,
+        command: 'cucumberJavaEasyRunner.generateStepDefinitions',
+        arguments: [document.uri]
+      };
+      actions.push(allAction);
     }
+
+    return actions;
   }
-  
-  return null;
 }
 
-// Global test controller instance
-let globalTestController: CucumberTestController | undefined;
+/**
+ * Go to Definition from a feature step to the Java methods it matches
+ *
+ * Several matches (e.g. ambiguous steps) are returned together, which VS Code
+ * shows as a peek list.
+ */
+class StepDefinitionProvider implements vscode.DefinitionProvider {
+  async provideDefinition(
+    document: vscode.TextDocument,
+    position: vscode.Position
+  ): Promise<vscode.LocationLink[] | undefined> {
+    const result = await findStepMatchesAtLine(document, position.line + 1);
+    if (!result || result.matches.length === 0) {
+      return undefined;
+    }
 
-// Global output channel for Cucumber results
-let cucumberOutputChannel: vscode.OutputChannel | undefined;
+    const originSelectionRange = toStepRange(result.entry);
 
-// Global output channel for Extension logs
-let extensionLogChannel: vscode.OutputChannel | undefined;
-
-// Global status bar item for execution mode
-let executionModeStatusBar: vscode.StatusBarItem | undefined;
-
-// Global extension context
-let globalContext: vscode.ExtensionContext | undefined;
-
-// Test class mapping cache (workspace state)
-const TEST_CLASS_CACHE_KEY = 'cucumberTestClassMapping';
+    return result.matches.map(match => {
+      const target = toDefinitionLocation(match.definition);
+      return {
+        originSelectionRange,
+        targetUri: target.uri,
+        targetRange: new vscode.Range(
+          match.definition.annotationLocation.line - 1,
+          match.definition.annotationLocation.column - 1,
+          target.range.end.line,
+          target.range.end.character
+        ),
+        targetSelectionRange: target.range
+      };
+    });
+  }
+}
 
 /**
- * Logs a message to the extension log channel
+ * Find All References from a Java step definition to the feature steps it matches
  */
-function logToExtension(message: string, level: 'INFO' | 'WARN' | 'ERROR' | 'DEBUG' = 'INFO'): void {
-  if (!extensionLogChannel) {return;}
-
-  const timestamp = new Date().toLocaleTimeString();
-  const prefix = `[${timestamp}] [${level}]`;
-  extensionLogChannel.appendLine(`${prefix} ${message}`);
+class StepReferenceProvider implements vscode.ReferenceProvider {
+  async provideReferences(
+    document: vscode.TextDocument,
+    position: vscode.Position,
+    context: vscode.ReferenceContext
+  ): Promise<vscode.Location[] | undefined> {
+    await ensureStepDefinitionIndex();
+
+    // Use the editor content, the method may have been added or changed without saving
+    const javaPath = path.normalize(document.uri.fsPath);
+    stepDefinitionIndex.updateFile(javaPath, document.getText());
+
+    const definition = stepDefinitionIndex.getDefinitionAtLine(javaPath, position.line + 1);
+    if (!definition) {
+      return undefined;
+    }
 
-  // Also log to console for development
-  console.log(`${prefix} ${message}`);
+    const locations = findStepReferences(definition);
+    if (context.includeDeclaration) {
+      locations.unshift(toDefinitionLocation(definition));
+    }
+    return locations;
+  }
 }
 
-export function activate(context: vscode.ExtensionContext) {
-  globalContext = context;
+/**
+ * Step text completion after a step keyword, from the step definition index
+ *
+ * Parameters become snippet placeholders; the most used steps come first.
+ */
+class StepCompletionProvider implements vscode.CompletionItemProvider {
+  private keywordPrefixPattern: RegExp | undefined;
+
+  async provideCompletionItems(
+    document: vscode.TextDocument,
+    position: vscode.Position
+  ): Promise<vscode.CompletionItem[] | undefined> {
+    const line = document.lineAt(position.line);
+    if (!this.keywordPrefixPattern) {
+      this.keywordPrefixPattern = new RegExp(`^\\s*(?:${getStepKeywordPattern()}|\\*(?=\\s))\\s*`);
+    }
+    const keywordMatch = line.text.substring(0, position.character).match(this.keywordPrefixPattern);
+    if (!keywordMatch) {
+      return undefined;
+    }
 
-  // Dispose existing controller if it exists
-  if (globalTestController) {
-    try {
-      globalTestController.dispose();
-    } catch (error) {
-      console.log('Error disposing previous controller:', error);
+    await ensureStepDefinitionIndex();
+    const counts = getStepUsageCounts();
+
+    // One suggestion per step pattern, with the usage of all its definitions
+    const suggestions = new Map<string, { definition: StepDefinition; count: number }>();
+    for (const definition of stepDefinitionIndex.getDefinitions()) {
+      const existing = suggestions.get(definition.expression);
+      const count = (existing ? existing.count : 0) + (counts.get(definition) || 0);
+      suggestions.set(definition.expression, { definition: existing ? existing.definition : definition, count });
     }
-  }
 
-  // Create output channel for Extension logs
-  extensionLogChannel = vscode.window.createOutputChannel('Cucumber Java Easy Runner - Logs');
-  context.subscriptions.push(extensionLogChannel);
-  logToExtension('Extension activated', 'INFO');
+    const start = new vscode.Position(position.line, keywordMatch[0].length);
+    const range = {
+      inserting: new vscode.Range(start, position),
+      replacing: new vscode.Range(start, line.range.end)
+    };
 
-  // Create output channel for Cucumber results
-  cucumberOutputChannel = vscode.window.createOutputChannel('Cucumber Test Results');
-  context.subscriptions.push(cucumberOutputChannel);
+    const ranked = Array.from(suggestions.values()).sort((a, b) => b.count - a.count);
+    return ranked.map(({ definition, count }, rank) => {
+      const snippet = toStepSnippet(definition);
+      const item = new vscode.CompletionItem(
+        { label: snippet.text, description: count === 1 ? '1 use' : `${count} uses` },
+        vscode.CompletionItemKind.Method
+      );
+      item.insertText = new vscode.SnippetString(snippet.snippet);
+      item.filterText = snippet.text;
+      item.sortText = String(rank).padStart(6, '0');
+      item.range = range;
+      item.detail = `${definition.className}.${definition.methodName}()`;
+      item.documentation = new vscode.MarkdownString().appendCodeblock(
+        `@${definition.keyword}("${definition.expression}")`,
+        'java'
+      );
+      return item;
+    });
+  }
+}
 
-  // Create status bar item for execution mode
-  executionModeStatusBar = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 100);
-  executionModeStatusBar.command = 'cucumberJavaEasyRunner.toggleExecutionMode';
-  executionModeStatusBar.tooltip = 'Click to toggle execution mode';
-  updateExecutionModeStatusBar();
-  executionModeStatusBar.show();
-  context.subscriptions.push(executionModeStatusBar);
-  logToExtension('Status bar created', 'DEBUG');
+/**
+ * Formats feature files: indentation, table alignment and doc string fences
+ *
+ * Range formatting is widened to whole tables and doc strings so that a table
+ * is never half aligned.
+ */
+class GherkinFormattingProvider implements vscode.DocumentFormattingEditProvider, vscode.DocumentRangeFormattingEditProvider {
+  provideDocumentFormattingEdits(document: vscode.TextDocument, options: vscode.FormattingOptions): vscode.TextEdit[] {
+    return this.format(document, options, 1, document.lineCount);
+  }
 
-  // Create new test controller
-  globalTestController = new CucumberTestController(context);
-  logToExtension('Test controller initialized', 'INFO');
-  
-  // Check if CodeLens should be enabled (default: false since we have Test Explorer)
-  const config = vscode.workspace.getConfiguration('cucumberJavaEasyRunner');
-  const enableCodeLens = config.get('enableCodeLens', false);
-  
-  if (enableCodeLens) {
-    // Register CodeLens provider only if enabled
-    const codeLensProvider = new CucumberCodeLensProvider();
-    const codeLensDisposable = vscode.languages.registerCodeLensProvider(
-      { pattern: '**/*.feature' },
-      codeLensProvider
-    );
-    context.subscriptions.push(codeLensDisposable);
-    console.log('CodeLens provider registered');
-  } else {
-    console.log('CodeLens disabled - use Test Explorer instead');
+  provideDocumentRangeFormattingEdits(
+    document: vscode.TextDocument,
+    range: vscode.Range,
+    options: vscode.FormattingOptions
+  ): vscode.TextEdit[] {
+    let startLine = range.start.line + 1;
+    let endLine = range.end.line + 1;
+    for (const block of getFormattingBlocks(getGherkinDocument(document))) {
+      if (block.startLine <= endLine && block.endLine >= startLine) {
+        startLine = Math.min(startLine, block.startLine);
+        endLine = Math.max(endLine, block.endLine);
+      }
+    }
+    return this.format(document, options, startLine, endLine);
   }
 
-  // Command to run the entire feature file
-  const runFeatureCommand = vscode.commands.registerCommand('cucumberJavaEasyRunner.runFeature', async (uri: vscode.Uri) => {
-    let featureUri = uri;
-    
-    // If called from editor instead of explorer
-    if (!featureUri && vscode.window.activeTextEditor) {
-      featureUri = vscode.window.activeTextEditor.document.uri;
+  private format(
+    document: vscode.TextDocument,
+    options: vscode.FormattingOptions,
+    startLine: number,
+    endLine: number
+  ): vscode.TextEdit[] {
+    const indent = options.insertSpaces ? ' '.repeat(options.tabSize) : '\t';
+    const formatted = formatGherkinLines(document.getText(), getGherkinDocument(document), { indent });
+    const edits: vscode.TextEdit[] = [];
+
+    for (let line = startLine; line <= Math.min(endLine, document.lineCount); line++) {
+      const current = document.lineAt(line - 1);
+      if (current.text !== formatted[line - 1]) {
+        edits.push(vscode.TextEdit.replace(current.range, formatted[line - 1]));
+      }
     }
-    
-    if (!featureUri) {
-      vscode.window.showErrorMessage('Please open or select a feature file.');
-      return;
+    return edits;
+  }
+}
+
+/**
+ * Outline view and breadcrumbs: Feature > Rule > Background/Scenario > Examples
+ */
+class GherkinDocumentSymbolProvider implements vscode.DocumentSymbolProvider {
+  provideDocumentSymbols(document: vscode.TextDocument): vscode.DocumentSymbol[] {
+    const feature = getGherkinDocument(document).feature;
+    if (!feature) {
+      return [];
     }
-    
-    runSelectedTest(featureUri);
-  });
 
-  // CodeLens command to run the entire feature file
-  const runFeatureCodeLensCommand = vscode.commands.registerCommand('cucumberJavaEasyRunner.runFeatureCodeLens', async (uri: vscode.Uri) => {
-    console.log('runFeatureCodeLensCommand called with URI:', uri.toString());
-    vscode.window.showInformationMessage('Feature test starting...');
-    runSelectedTest(uri);
-  });
+    const featureSymbol = createGherkinSymbol(document, feature, vscode.SymbolKind.Module);
+    for (const child of feature.children) {
+      if (child.type === 'Rule') {
+        const ruleSymbol = createGherkinSymbol(document, child, vscode.SymbolKind.Namespace);
+        ruleSymbol.children = child.children.map(ruleChild => createScenarioSymbol(document, ruleChild));
+        featureSymbol.children.push(ruleSymbol);
+      } else {
+        featureSymbol.children.push(createScenarioSymbol(document, child));
+      }
+    }
+    return [featureSymbol];
+  }
+}
 
-  // CodeLens command to run a single scenario
-  const runScenarioCodeLensCommand = vscode.commands.registerCommand('cucumberJavaEasyRunner.runScenarioCodeLens', async (uri: vscode.Uri, lineNumber: number) => {
-    console.log('runScenarioCodeLensCommand called with URI:', uri.toString(), 'line:', lineNumber);
-    vscode.window.showInformationMessage(`Scenario test starting at line ${lineNumber}...`);
-    runSelectedTest(uri, lineNumber);
-  });
+/**
+ * Folding of rules, backgrounds, scenarios, examples, data tables, doc strings and comment blocks
+ */
+class GherkinFoldingRangeProvider implements vscode.FoldingRangeProvider {
+  provideFoldingRanges(document: vscode.TextDocument): vscode.FoldingRange[] {
+    const gherkinDocument = getGherkinDocument(document);
+    const ranges: vscode.FoldingRange[] = [];
+    const addRange = (range: GherkinRange, kind?: vscode.FoldingRangeKind) => {
+      if (range.end.line > range.start.line) {
+        ranges.push(new vscode.FoldingRange(range.start.line - 1, range.end.line - 1, kind));
+      }
+    };
 
-  // CodeLens command to run a single example
-  const runExampleCodeLensCommand = vscode.commands.registerCommand('cucumberJavaEasyRunner.runExampleCodeLens', async (uri: vscode.Uri, scenarioLine: number, exampleLine: number) => {
-    console.log('runExampleCodeLensCommand called with URI:', uri.toString(), 'scenario line:', scenarioLine, 'example line:', exampleLine);
-    vscode.window.showInformationMessage(`Example test starting at line ${exampleLine}...`);
-    runSelectedTest(uri, scenarioLine, exampleLine);
-  });
+    const addContainer = (container: GherkinBackground | GherkinScenario) => {
+      addRange(container.range);
+      for (const step of container.steps) {
+        if (step.dataTable) {
+          addRange(step.dataTable.range);
+        }
+        if (step.docString) {
+          addRange(step.docString.range);
+        }
+      }
+      if (container.type === 'Scenario') {
+        container.examples.forEach(examples => addRange(examples.range));
+      }
+    };
 
-  // Command to run a single scenario
-  const runScenarioCommand = vscode.commands.registerCommand('cucumberJavaEasyRunner.runScenario', async () => {
-    const editor = vscode.window.activeTextEditor;
-    if (!editor) {
-      vscode.window.showErrorMessage('Please open a feature file.');
-      return;
-    }
-    
-    const uri = editor.document.uri;
-    if (path.extname(uri.fsPath) !== '.feature') {
-      vscode.window.showErrorMessage('This command only works with .feature files.');
-      return;
-    }
-    
-    const currentLine = editor.selection.active.line;
-    const scenario = findScenarioAtLine(editor.document, currentLine);
-    
-    if (!scenario) {
-      vscode.window.showErrorMessage('Please right-click inside a Scenario or Scenario Outline.');
-      return;
-    }
-    
-    runSelectedTest(uri, scenario.lineNumber);
-  });
-  
-  // Command to run a single example row
-  const runExampleCommand = vscode.commands.registerCommand('cucumberJavaEasyRunner.runExample', async () => {
-    const editor = vscode.window.activeTextEditor;
-    if (!editor) {
-      vscode.window.showErrorMessage('Please open a feature file.');
-      return;
-    }
-    
-    const uri = editor.document.uri;
-    if (path.extname(uri.fsPath) !== '.feature') {
-      vscode.window.showErrorMessage('This command only works with .feature files.');
-      return;
-    }
-    
-    const currentLine = editor.selection.active.line;
-    console.log(`runExampleCommand called, line: ${currentLine}`);
-    
-    // First check if the line starts with |
-    const lineText = editor.document.lineAt(currentLine).text.trim();
-    if (!lineText.startsWith('|')) {
-      vscode.window.showErrorMessage('Please right-click on a data row (starting with |) in an Examples table.');
-      return;
+    for (const child of gherkinDocument.feature?.children || []) {
+      if (child.type === 'Rule') {
+        addRange(child.range);
+        child.children.forEach(addContainer);
+      } else {
+        addContainer(child);
+      }
     }
-    
-    const examples = findExampleAtLine(editor.document, currentLine);
-    
-    if (!examples) {
-      vscode.window.showErrorMessage('Example row not detected. Please right-click on a data row (starting with |, not the header row) in an Examples table.');
-      return;
+
+    // Blocks of consecutive comment lines
+    const comments = gherkinDocument.comments;
+    for (let i = 0; i < comments.length; i++) {
+      let end = i;
+      while (end + 1 < comments.length && comments[end + 1].location.line === comments[end].location.line + 1) {
+        end++;
+      }
+      if (end > i) {
+        ranges.push(new vscode.FoldingRange(comments[i].location.line - 1, comments[end].location.line - 1, vscode.FoldingRangeKind.Comment));
+      }
+      i = end;
     }
-    
-    runSelectedTest(uri, examples.lineNumber, examples.exampleLineNumber);
-  });
 
-  // Command to toggle execution mode
-  const toggleExecutionModeCommand = vscode.commands.registerCommand('cucumberJavaEasyRunner.toggleExecutionMode', async () => {
-    const config = vscode.workspace.getConfiguration('cucumberJavaEasyRunner');
-    const currentMode = config.get<string>('executionMode', 'java');
-    const newMode = currentMode === 'java' ? 'maven' : 'java';
+    return ranges;
+  }
+}
 
-    await config.update('executionMode', newMode, vscode.ConfigurationTarget.Workspace);
-    updateExecutionModeStatusBar();
+/**
+ * Go to Symbol in Workspace (Ctrl+T) for features, rules and scenarios
+ */
+class GherkinWorkspaceSymbolProvider implements vscode.WorkspaceSymbolProvider {
+  provideWorkspaceSymbols(query: string): vscode.SymbolInformation[] {
+    const symbols: vscode.SymbolInformation[] = [];
+    const add = (node: GherkinFeature | GherkinRule | GherkinScenario, kind: vscode.SymbolKind, containerName: string, uri: vscode.Uri) => {
+      const name = getSymbolName(node);
+      if (matchesSymbolQuery(name, query)) {
+        symbols.push(new vscode.SymbolInformation(name, kind, containerName, new vscode.Location(uri, toRange(node.range))));
+      }
+    };
 
-    vscode.window.showInformationMessage(`Execution mode switched to: ${newMode.toUpperCase()}`);
-  });
+    for (const [featurePath, document] of getFeatureDocuments()) {
+      const feature = document.feature;
+      if (!feature) {
+        continue;
+      }
+      const uri = vscode.Uri.file(featurePath);
+      add(feature, vscode.SymbolKind.Module, path.basename(featurePath), uri);
+
+      for (const child of feature.children) {
+        if (child.type === 'Rule') {
+          add(child, vscode.SymbolKind.Namespace, feature.name, uri);
+          for (const ruleChild of child.children) {
+            if (ruleChild.type === 'Scenario') {
+              add(ruleChild, vscode.SymbolKind.Method, `${feature.name} › ${child.name}`, uri);
+            }
+          }
+        } else if (child.type === 'Scenario') {
+          add(child, vscode.SymbolKind.Method, feature.name, uri);
+        }
+      }
+    }
+    return symbols;
+  }
+}
 
-  // Command to clear test class cache
-  const clearTestClassCacheCommand = vscode.commands.registerCommand('cucumberJavaEasyRunner.clearTestClassCache', async () => {
-    await context.workspaceState.update(TEST_CLASS_CACHE_KEY, {});
-    vscode.window.showInformationMessage('Test class cache cleared successfully!');
-  });
+/**
+ * Hover on a feature step: the Java method it binds to and the arguments it captures
+ *
+ * Outline steps also show their text for each Examples row.
+ */
+class StepHoverProvider implements vscode.HoverProvider {
+  async provideHover(document: vscode.TextDocument, position: vscode.Position): Promise<vscode.Hover | undefined> {
+    const result = await findStepMatchesAtLine(document, position.line + 1);
+    if (!result) {
+      return undefined;
+    }
 
-  context.subscriptions.push(runFeatureCommand);
-  context.subscriptions.push(runFeatureCodeLensCommand);
-  context.subscriptions.push(runScenarioCodeLensCommand);
-  context.subscriptions.push(runExampleCodeLensCommand);
-  context.subscriptions.push(runScenarioCommand);
-  context.subscriptions.push(runExampleCommand);
-  context.subscriptions.push(toggleExecutionModeCommand);
-  context.subscriptions.push(clearTestClassCacheCommand);
+    const { entry, matches } = result;
+    const range = toStepRange(entry);
+    if (!range.contains(position)) {
+      return undefined;
+    }
 
-  // Watch for configuration changes to update status bar
-  context.subscriptions.push(
-    vscode.workspace.onDidChangeConfiguration((e) => {
-      if (e.affectsConfiguration('cucumberJavaEasyRunner.executionMode')) {
-        updateExecutionModeStatusBar();
+    const markdown = new vscode.MarkdownString();
+    markdown.supportThemeIcons = true;
+
+    if (matches.length === 0) {
+      markdown.appendMarkdown('$(warning) No step definition matches this step\n');
+    } else if (matches.length > 1) {
+      markdown.appendMarkdown(`$(warning) Ambiguous step: ${matches.length} step definitions match\n\n`);
+    }
+
+    const stepText = getStepMatchText(entry);
+    matches.forEach((match, index) => {
+      if (index > 0) {
+        markdown.appendMarkdown('\n---\n\n');
       }
-    })
-  );
+      appendStepDefinitionHover(markdown, match, stepText);
+    });
+
+    appendOutlineRowsHover(markdown, entry, matches.length === 1 ? matches[0].definition : undefined);
+    return new vscode.Hover(markdown, range);
+  }
 }
 
 /**
- * Updates the status bar to show current execution mode
+ * Renames a step pattern from a feature step or from its annotation value
+ *
+ * The annotation and every feature step using it are rewritten in one edit,
+ * keeping the arguments of each step. All changes need confirmation, so the
+ * refactor preview is shown before anything is applied.
  */
-function updateExecutionModeStatusBar(): void {
-  if (!executionModeStatusBar) {
-    return;
+class StepRenameProvider implements vscode.RenameProvider {
+  async prepareRename(
+    document: vscode.TextDocument,
+    position: vscode.Position
+  ): Promise<{ range: vscode.Range; placeholder: string }> {
+    const target = await findStepRenameTarget(document, position);
+    return { range: target.range, placeholder: target.definition.expression };
   }
 
-  const config = vscode.workspace.getConfiguration('cucumberJavaEasyRunner');
-  const executionMode = config.get<string>('executionMode', 'java');
+  async provideRenameEdits(
+    document: vscode.TextDocument,
+    position: vscode.Position,
+    newName: string
+  ): Promise<vscode.WorkspaceEdit> {
+    const { definition } = await findStepRenameTarget(document, position);
+    const renamed = { expression: newName, isRegex: isRegularExpression(newName) };
+
+    const expectedCount = countStepParameters(definition);
+    const actualCount = countStepParameters(renamed);
+    if (expectedCount !== actualCount) {
+      throw new Error(`The new step pattern has ${actualCount} parameter(s), but "${definition.expression}" has ${expectedCount}`);
+    }
+    if (renamed.isRegex && !compileJavaRegex(newName)) {
+      throw new Error(`Invalid regular expression: ${newName}`);
+    }
 
-  if (executionMode === 'maven') {
-    executionModeStatusBar.text = '$(package) Maven';
-    executionModeStatusBar.tooltip = 'Execution Mode: Maven Test\nClick to switch to Java mode';
-  } else {
-    executionModeStatusBar.text = '$(coffee) Java';
-    executionModeStatusBar.tooltip = 'Execution Mode: Java Direct\nClick to switch to Maven mode';
+    const edit = new vscode.WorkspaceEdit();
+    const escaped = newName.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+    edit.replace(
+      vscode.Uri.file(definition.filePath),
+      toJavaRange(definition.expressionRange),
+      `"${escaped}"`,
+      { needsConfirmation: true, label: 'Step definition' }
+    );
+
+    let stepCount = 0;
+    for (const [featurePath, gherkinDocument] of getFeatureDocuments()) {
+      for (const entry of gherkinDocument.feature ? getSteps(gherkinDocument.feature) : []) {
+        const values = getStepArgumentValues(entry, definition);
+        if (!values) {
+          continue;
+        }
+        const { textRange } = entry.step;
+        edit.replace(
+          vscode.Uri.file(featurePath),
+          toRange(textRange),
+          renderStepText(renamed, values),
+          { needsConfirmation: true, label: 'Feature steps' }
+        );
+        stepCount++;
+      }
+    }
+
+    logToExtension(`Renaming step "${definition.expression}" to "${newName}" in ${stepCount} feature step(s)`, 'INFO');
+    return edit;
   }
 }
 
 /**
- * Gets the cached test class for a feature file
+ * `@` completion with the tags of the feature files and of the runner classes' tag filters
  */
-function getCachedTestClass(context: vscode.ExtensionContext, featurePath: string): string | undefined {
-  const mapping = context.workspaceState.get<TestClassMapping>(TEST_CLASS_CACHE_KEY, {});
-  return mapping[featurePath];
+class TagCompletionProvider implements vscode.CompletionItemProvider {
+  async provideCompletionItems(
+    document: vscode.TextDocument,
+    position: vscode.Position
+  ): Promise<vscode.CompletionItem[] | undefined> {
+    const line = document.lineAt(position.line).text;
+    const prefix = line.substring(0, position.character);
+    const tagMatch = prefix.match(/(?:^|\s)(@[^\s@#]*)$/);
+    if (!tagMatch || !/^\s*@/.test(prefix)) {
+      return undefined;
+    }
+
+    const range = new vscode.Range(position.line, position.character - tagMatch[1].length, position.line, position.character);
+    const usedOnLine = new Set(line.split(/\s+/).filter(token => token.startsWith('@') && token !== tagMatch[1]));
+    const usage = collectTagUsage();
+    const runnerTags = await getRunnerTagSelections();
+
+    const tags = new Set<string>([...usage.keys(), ...Array.from(runnerTags.keys()).map(tag => `@${tag}`)]);
+    const items: vscode.CompletionItem[] = [];
+    for (const tag of tags) {
+      if (usedOnLine.has(tag)) {
+        continue;
+      }
+      const scenarioCount = usage.get(tag)?.scenarios.length || 0;
+      const runners = runnerTags.get(tag.substring(1)) || [];
+      const item = new vscode.CompletionItem(
+        { label: tag, description: scenarioCount === 1 ? '1 scenario' : `${scenarioCount} scenarios` },
+        vscode.CompletionItemKind.Constant
+      );
+      item.range = range;
+      item.sortText = String(1000000 - scenarioCount).padStart(7, '0') + tag;
+      if (runners.length > 0) {
+        item.detail = `Selected by ${runners.join(', ')}`;
+      }
+      items.push(item);
+    }
+    return items;
+  }
 }
 
 /**
- * Caches the test class for a feature file
+ * Hover on a tag: how many scenarios carry it and which runner classes select it
  */
-async function cacheTestClass(context: vscode.ExtensionContext, featurePath: string, testClassName: string): Promise<void> {
-  const mapping = context.workspaceState.get<TestClassMapping>(TEST_CLASS_CACHE_KEY, {});
-  mapping[featurePath] = testClassName;
-  await context.workspaceState.update(TEST_CLASS_CACHE_KEY, mapping);
+class TagHoverProvider implements vscode.HoverProvider {
+  async provideHover(document: vscode.TextDocument, position: vscode.Position): Promise<vscode.Hover | undefined> {
+    const tag = findTagAtPosition(getGherkinDocument(document), position);
+    if (!tag) {
+      return undefined;
+    }
+
+    const usage = collectTagUsage().get(tag.name);
+    const runners = (await getRunnerTagSelections()).get(tag.name.substring(1)) || [];
+    const scenarioCount = usage ? usage.scenarios.length : 0;
+    const featureCount = usage ? usage.featureCount : 0;
+
+    const markdown = new vscode.MarkdownString();
+    markdown.appendMarkdown(`**${tag.name}**\n\n`);
+    markdown.appendMarkdown(`${scenarioCount} scenario${scenarioCount === 1 ? '' : 's'} in ${featureCount} feature file${featureCount === 1 ? '' : 's'}\n\n`);
+    markdown.appendMarkdown(runners.length > 0
+      ? `Selected by runner class${runners.length === 1 ? '' : 'es'}: ${runners.map(runner => `\`${runner}\``).join(', ')}`
+      : 'Not selected by any runner class tag filter');
+    return new vscode.Hover(markdown, toRange(tag.range));
+  }
 }
 
+type TagTreeNode =
+  | { kind: 'tag'; usage: TagUsage }
+  | { kind: 'scenario'; scenario: TaggedScenario };
+
 /**
- * Runs the selected feature, scenario, or example row
+ * Tree of the workspace's tags and the scenarios carrying them
  */
-async function runSelectedTest(uri: vscode.Uri, lineNumber?: number, exampleLine?: number) {
-  const terminal = vscode.window.createTerminal('Cucumber Feature');
-
-  // Find the project root directory
-  const workspaceFolder = vscode.workspace.getWorkspaceFolder(uri);
-  if (!workspaceFolder) {
-    vscode.window.showErrorMessage('Feature file is not inside a workspace.');
-    return false;
+class TagTreeDataProvider implements vscode.TreeDataProvider<TagTreeNode> {
+  private readonly changeEmitter = new vscode.EventEmitter<TagTreeNode | undefined>();
+  readonly onDidChangeTreeData = this.changeEmitter.event;
+  private refreshTimer: NodeJS.Timeout | undefined;
+
+  refresh(): void {
+    if (this.refreshTimer) {
+      clearTimeout(this.refreshTimer);
+    }
+    // Feature files are indexed one by one during discovery, refresh once afterwards
+    this.refreshTimer = setTimeout(() => this.changeEmitter.fire(undefined), 300);
   }
 
-  const workspaceRoot = workspaceFolder.uri.fsPath;
-
-  // Get configuration
-  const config = vscode.workspace.getConfiguration('cucumberJavaEasyRunner');
-  const executionMode = config.get<string>('executionMode', 'java');
-  const configuredTestClass = config.get<string>('testClassName', '');
+  getTreeItem(node: TagTreeNode): vscode.TreeItem {
+    if (node.kind === 'tag') {
+      const count = node.usage.scenarios.length;
+      const item = new vscode.TreeItem(node.usage.tag, vscode.TreeItemCollapsibleState.Collapsed);
+      item.description = count === 1 ? '1 scenario' : `${count} scenarios`;
+      item.iconPath = new vscode.ThemeIcon('tag');
+      item.contextValue = 'cucumberTag';
+      return item;
+    }
 
-  // Find the Maven module for this feature file
-  const moduleInfo = findMavenModule(uri.fsPath, workspaceRoot);
+    const { scenario } = node;
+    const item = new vscode.TreeItem(scenario.name, vscode.TreeItemCollapsibleState.None);
+    item.description = `${path.basename(scenario.featurePath)}:${scenario.lineNumber}`;
+    if (scenario.exampleLineNumbers) {
+      item.description += ` (${scenario.exampleLineNumbers.length} examples)`;
+    }
+    item.iconPath = new vscode.ThemeIcon('symbol-method');
+    item.command = {
+      title: 'Open Scenario',
+      command: 'vscode.open',
+      arguments: [
+        vscode.Uri.file(scenario.featurePath),
+        { selection: new vscode.Range(scenario.lineNumber - 1, 0, scenario.lineNumber - 1, 0) }
+      ]
+    };
+    return item;
+  }
 
-  // Get the relative path of the feature file in the workspace
-  const relativePath = path.relative(workspaceRoot, uri.fsPath);
+  getChildren(node?: TagTreeNode): TagTreeNode[] {
+    if (!node) {
+      return Array.from(collectTagUsage().values())
+        .sort((a, b) => a.tag.localeCompare(b.tag))
+        .map(usage => ({ kind: 'tag' as const, usage }));
+    }
+    if (node.kind === 'tag') {
+      return node.usage.scenarios.map(scenario => ({ kind: 'scenario' as const, scenario }));
+    }
+    return [];
+  }
 
-  // Save the run mode information
-  let runMode = 'feature';
-  if (lineNumber && lineNumber > 0) {
-    runMode = exampleLine ? 'example' : 'scenario';
+  dispose(): void {
+    if (this.refreshTimer) {
+      clearTimeout(this.refreshTimer);
+    }
+    this.changeEmitter.dispose();
   }
+}
 
-  logToExtension(`Run mode: ${runMode}`, 'INFO');
-  logToExtension(`Execution mode: ${executionMode}`, 'INFO');
-  logToExtension(`Module path: ${moduleInfo.modulePath}`, 'DEBUG');
-  logToExtension(`Module relative path: ${moduleInfo.moduleRelativePath}`, 'DEBUG');
-  logToExtension(`Feature: ${relativePath}`, 'INFO');
-  logToExtension(`Scenario line: ${lineNumber || 'entire feature'}`, 'DEBUG');
-  logToExtension(`Example line: ${exampleLine || 'all scenarios'}`, 'DEBUG');
+/**
+ * Semantic tokens of feature files
+ *
+ * Colours what the TextMate grammar cannot know: keywords of every Gherkin
+ * dialect, and the step arguments captured by the step definition a step
+ * matches in its glue package. Tags, comments, doc strings, table cells and
+ * outline placeholders are coloured too, so that dialects look the same.
+ */
+class GherkinSemanticTokensProvider implements vscode.DocumentSemanticTokensProvider {
+  static readonly legend = new vscode.SemanticTokensLegend(
+    ['keyword', 'comment', 'string', 'number', 'parameter', 'variable', 'decorator', 'property', 'type']
+  );
 
-  // Clear and show output channel
-  if (cucumberOutputChannel) {
-    cucumberOutputChannel.clear();
-    cucumberOutputChannel.show(true);
-    cucumberOutputChannel.appendLine('═══════════════════════════════════════════');
-    cucumberOutputChannel.appendLine(`🥒 Cucumber Test Run - ${new Date().toLocaleTimeString()}`);
-    cucumberOutputChannel.appendLine('═══════════════════════════════════════════');
-    cucumberOutputChannel.appendLine(`📁 Feature: ${relativePath}`);
-    cucumberOutputChannel.appendLine(`🔧 Mode: ${executionMode.toUpperCase()}`);
-    cucumberOutputChannel.appendLine('═══════════════════════════════════════════\n');
-  }
+  private readonly changeEmitter = new vscode.EventEmitter<void>();
+  readonly onDidChangeSemanticTokens = this.changeEmitter.event;
 
-  try {
-    if (executionMode === 'maven') {
-      // Maven execution mode
-      let testClassName: string = configuredTestClass;
+  /**
+   * Requests new tokens for all documents (e.g. after step definitions changed)
+   */
+  refresh(): void {
+    this.changeEmitter.fire();
+  }
 
-      // Try to use cached test class if rememberTestClass is enabled
-      const rememberTestClass = config.get<boolean>('rememberTestClass', true);
-      if (!testClassName && rememberTestClass && globalContext) {
-        const cachedClass = getCachedTestClass(globalContext, relativePath);
-        if (cachedClass) {
-          testClassName = cachedClass;
-          console.log(`Using cached test class: ${testClassName}`);
-        }
+  async provideDocumentSemanticTokens(
+    document: vscode.TextDocument,
+    token: vscode.CancellationToken
+  ): Promise<vscode.SemanticTokens | undefined> {
+    const gherkinDocument = getGherkinDocument(document);
+    const feature = gherkinDocument.feature;
+    const tokens: GherkinSemanticToken[] = [];
+    const add = (range: GherkinRange, type: string, priority = 0) => {
+      if (range.start.line === range.end.line && range.end.column > range.start.column) {
+        tokens.push({ line: range.start.line - 1, start: range.start.column - 1, end: range.end.column - 1, type, priority });
       }
+    };
 
-      // Auto-detect test class if not configured
-      if (!testClassName) {
-        const autoDetectedClass = await findCucumberTestClass(moduleInfo.modulePath);
-
-        if (!autoDetectedClass) {
-          const userInput = await vscode.window.showInputBox({
-            prompt: 'Enter test class name (e.g., MktSegmentCriteriaUpdateTest)',
-            placeHolder: 'MktSegmentCriteriaUpdateTest'
-          });
+    gherkinDocument.comments.forEach(comment => add(comment.range, 'comment'));
+    if (!feature) {
+      return buildSemanticTokens(tokens);
+    }
 
-          if (!userInput) {
-            vscode.window.showErrorMessage('Test class name not specified, operation cancelled.');
-            return false;
-          }
-          testClassName = userInput;
-        } else {
-          testClassName = autoDetectedClass;
+    const addKeyword = (node: { keyword: string; location: { line: number; column: number } }, colon = true) => add({
+      start: node.location,
+      end: { line: node.location.line, column: node.location.column + node.keyword.length + (colon ? 1 : 0) }
+    }, 'keyword');
+    const addTags = (tags: GherkinTag[]) => tags.forEach(tag => add(tag.range, 'decorator'));
+    const addCells = (rows: GherkinTableRow[], headerType?: string) => rows.forEach((row, index) =>
+      row.cells.forEach(cell => add(cell.range, index === 0 && headerType ? headerType : 'string')));
+
+    addTags(feature.tags);
+    addKeyword(feature);
+
+    const addContainer = (container: GherkinBackground | GherkinScenario) => {
+      addKeyword(container);
+      for (const step of container.steps) {
+        addKeyword(step, false);
+        if (step.dataTable) {
+          addCells(step.dataTable.rows);
         }
-
-        // Cache the test class for future use
-        if (rememberTestClass && globalContext) {
-          await cacheTestClass(globalContext, relativePath, testClassName);
+        if (step.docString) {
+          this.addDocString(document, step.docString, add);
         }
       }
+      if (container.type !== 'Scenario') {
+        return;
+      }
 
-      let message = '';
-      if (runMode === 'feature') {
-        message = `Running feature file with Maven test (${testClassName})`;
-      } else if (runMode === 'scenario') {
-        message = `Running scenario at line ${lineNumber} with Maven test (${testClassName})`;
-      } else if (runMode === 'example') {
-        message = `Running example at line ${lineNumber}:${exampleLine} with Maven test (${testClassName})`;
+      addTags(container.tags);
+      for (const examples of container.examples) {
+        addTags(examples.tags);
+        addKeyword(examples);
+        addCells(examples.tableHeader ? [examples.tableHeader, ...examples.tableBody] : examples.tableBody, examples.tableHeader ? 'property' : undefined);
       }
+      if (container.isOutline) {
+        this.addPlaceholders(document, container, add);
+      }
+    };
 
-      vscode.window.showInformationMessage(message);
-      await runCucumberTestWithMaven(
-        workspaceRoot,
-        moduleInfo,
-        relativePath,
-        testClassName,
-        terminal,
-        lineNumber,
-        exampleLine
-      );
-    } else {
-      // Java execution mode (original behavior)
-      const gluePath = await findGluePath(moduleInfo.modulePath);
+    for (const child of feature.children) {
+      if (child.type === 'Rule') {
+        addTags(child.tags);
+        addKeyword(child);
+        child.children.forEach(addContainer);
+      } else {
+        addContainer(child);
+      }
+    }
 
-      if (!gluePath) {
-        const userInput = await vscode.window.showInputBox({
-          prompt: 'Enter glue path for steps directory (e.g. org.example.steps)',
-          placeHolder: 'org.example.steps'
-        });
+    await this.addStepArguments(document, feature, add);
+    if (token.isCancellationRequested) {
+      return undefined;
+    }
+    return buildSemanticTokens(tokens);
+  }
 
-        if (!userInput) {
-          vscode.window.showErrorMessage('Glue path not specified, operation cancelled.');
-          return false;
-        }
+  private addDocString(
+    document: vscode.TextDocument,
+    docString: GherkinDocString,
+    add: (range: GherkinRange, type: string) => void
+  ): void {
+    for (let line = docString.range.start.line; line <= docString.range.end.line && line <= document.lineCount; line++) {
+      const text = document.lineAt(line - 1).text;
+      const start = text.length - text.trimStart().length;
+      add({ start: { line, column: start + 1 }, end: { line, column: text.trimEnd().length + 1 } }, 'string');
+    }
+  }
 
-        runCucumberTest(moduleInfo.modulePath, relativePath, userInput, terminal, lineNumber, exampleLine);
-      } else {
-        let message = '';
-        if (runMode === 'feature') {
-          message = `Running feature file with glue path "${gluePath}"`;
-        } else if (runMode === 'scenario') {
-          message = `Running scenario at line ${lineNumber} with glue path "${gluePath}"`;
-        } else if (runMode === 'example') {
-          message = `Running example at line ${lineNumber}:${exampleLine} with glue path "${gluePath}"`;
-        }
+  /**
+   * `<placeholder>`s in the name and steps of an outline (not in its Examples)
+   */
+  private addPlaceholders(
+    document: vscode.TextDocument,
+    scenario: GherkinScenario,
+    add: (range: GherkinRange, type: string, priority?: number) => void
+  ): void {
+    const lastLine = scenario.examples.length > 0 ? scenario.examples[0].location.line - 1 : scenario.range.end.line;
+    for (let line = scenario.location.line; line <= lastLine && line <= document.lineCount; line++) {
+      const text = document.lineAt(line - 1).text;
+      if (text.trimStart().startsWith('#')) {
+        continue;
+      }
+      for (const match of text.matchAll(/<[^<>\s][^<>]*>/g)) {
+        add({
+          start: { line, column: match.index! + 1 },
+          end: { line, column: match.index! + match[0].length + 1 }
+        }, 'variable', 2);
+      }
+    }
+  }
 
-        vscode.window.showInformationMessage(message);
-        runCucumberTest(moduleInfo.modulePath, relativePath, gluePath, terminal, lineNumber, exampleLine);
+  /**
+   * Arguments of steps bound to exactly one step definition of the feature's glue
+   */
+  private async addStepArguments(
+    document: vscode.TextDocument,
+    feature: GherkinFeature,
+    add: (range: GherkinRange, type: string, priority?: number) => void
+  ): Promise<void> {
+    await ensureStepDefinitionIndex();
+    const gluePath = document.uri.scheme === 'file' ? await getFeatureGluePath(document.uri) : null;
+    const filter = gluePath ? (definition: StepDefinition) => isInGluePath(definition, gluePath) : undefined;
+
+    for (const { step } of getSteps(feature)) {
+      // Outline steps are matched on their substituted text, whose offsets differ from the source
+      if (/<[^<>]+>/.test(step.text)) {
+        continue;
+      }
+      const matches = stepDefinitionIndex.findMatches(step.text, filter);
+      if (matches.length !== 1) {
+        continue;
+      }
+      const { line, column } = step.textRange.start;
+      for (const argument of matches[0].arguments) {
+        add({
+          start: { line, column: column + argument.start },
+          end: { line, column: column + argument.end }
+        }, toArgumentTokenType(argument.parameterType), 1);
       }
     }
-  } catch (error: any) {
-    vscode.window.showErrorMessage(`Error: ${error.message || 'Unknown error'}`);
   }
 }
 
 /**
- * Runs the selected test and waits for the Java process to finish. Streams output via the provided callback.
+ * Warnings on feature steps that no step definition matches, or that several match
+ *
+ * Steps are matched against the definitions in the glue package the runner
+ * would use for the feature, and checked again as feature or Java files change.
  */
-async function runSelectedTestAndWait(
-  uri: vscode.Uri,
-  lineNumber?: number,
-  exampleLine?: number,
-  onOutput?: (chunk: string) => void,
-  onStepUpdate?: (step: StepResult) => void
-): Promise<number> {
-  logToExtension('🔵 ======== runSelectedTestAndWait CALLED ========', 'INFO');
-  logToExtension(`📄 URI: ${uri.fsPath}`, 'INFO');
-  logToExtension(`📍 Line: ${lineNumber}, Example: ${exampleLine}`, 'INFO');
-  
-  const workspaceFolder = vscode.workspace.getWorkspaceFolder(uri);
-  if (!workspaceFolder) {
-    vscode.window.showErrorMessage('Feature file is not inside a workspace.');
-    return 1;
+class StepDefinitionDiagnostics implements vscode.Disposable {
+  private collection = vscode.languages.createDiagnosticCollection('cucumber-steps');
+  private pendingUpdates = new Map<string, NodeJS.Timeout>();
+
+  constructor(context: vscode.ExtensionContext) {
+    context.subscriptions.push(
+      this,
+      vscode.workspace.onDidOpenTextDocument(document => this.schedule(document, 0)),
+      vscode.workspace.onDidChangeTextDocument(e => this.schedule(e.document)),
+      vscode.workspace.onDidCloseTextDocument(document => this.collection.delete(document.uri)),
+      vscode.workspace.onDidChangeConfiguration(e => {
+        if (e.affectsConfiguration('cucumberJavaEasyRunner.customGluePath') ||
+            e.affectsConfiguration('cucumberJavaEasyRunner.testClassName') ||
+            e.affectsConfiguration('cucumberJavaEasyRunner.enableStepDiagnostics')) {
+          this.refreshAll(true);
+        }
+      })
+    );
+    this.refreshAll();
   }
 
-  const workspaceRoot = workspaceFolder.uri.fsPath;
+  /**
+   * Checks all open feature files again
+   *
+   * @param resolveGlue - Also resolve the glue packages again (e.g. after Java files changed)
+   */
+  refreshAll(resolveGlue = false): void {
+    if (resolveGlue) {
+      featureGluePaths.clear();
+    }
+    for (const document of vscode.workspace.textDocuments) {
+      this.schedule(document, 0);
+    }
+  }
 
-  // Get configuration
-  const config = vscode.workspace.getConfiguration('cucumberJavaEasyRunner');
-  const executionMode = config.get<string>('executionMode', 'maven');
-  const configuredTestClass = config.get<string>('testClassName', '');
-  
-  logToExtension(`⚙️  Execution mode: ${executionMode}`, 'INFO');
-  logToExtension(`🧪 Configured test class: ${configuredTestClass || '(auto-detect)'}`, 'INFO');
+  dispose(): void {
+    for (const timer of this.pendingUpdates.values()) {
+      clearTimeout(timer);
+    }
+    this.pendingUpdates.clear();
+    this.collection.dispose();
+  }
 
-  // Find the Maven module for this feature file
-  const moduleInfo = findMavenModule(uri.fsPath, workspaceRoot);
+  private schedule(document: vscode.TextDocument, delay = 500): void {
+    if (path.extname(document.uri.fsPath) !== '.feature' || document.uri.scheme !== 'file') {
+      return;
+    }
 
-  const relativePath = path.relative(workspaceRoot, uri.fsPath);
+    const key = document.uri.toString();
+    const pending = this.pendingUpdates.get(key);
+    if (pending) {
+      clearTimeout(pending);
+    }
+    this.pendingUpdates.set(key, setTimeout(() => {
+      this.pendingUpdates.delete(key);
+      this.update(document).catch(error => {
+        logToExtension(`Failed to check steps of ${document.uri.fsPath}: ${error.message}`, 'ERROR');
+      });
+    }, delay));
+  }
 
-  try {
-    if (executionMode === 'maven') {
-      logToExtension('🔶 Branch: Maven execution mode', 'INFO');
-      // Maven execution mode
-      let testClassName: string = configuredTestClass;
+  private async update(document: vscode.TextDocument): Promise<void> {
+    const config = vscode.workspace.getConfiguration('cucumberJavaEasyRunner');
+    if (!config.get<boolean>('enableStepDiagnostics', true) || document.isClosed) {
+      this.collection.delete(document.uri);
+      return;
+    }
 
-      // Auto-detect test class if not configured
-      if (!testClassName) {
-        logToExtension('🔍 Auto-detecting test class...', 'INFO');
-        const autoDetectedClass = await findCucumberTestClass(moduleInfo.modulePath);
+    const version = document.version;
+    await ensureStepDefinitionIndex();
+    const gluePath = await getFeatureGluePath(document.uri);
+    if (document.isClosed || document.version !== version) {
+      return;  // A newer update is scheduled
+    }
 
-        if (!autoDetectedClass) {
-          logToExtension('❌ Auto-detection failed, prompting user...', 'WARN');
-          const userInput = await vscode.window.showInputBox({
-            prompt: 'Enter test class name (e.g., MktSegmentCriteriaUpdateTest)',
-            placeHolder: 'MktSegmentCriteriaUpdateTest'
-          });
+    const filter = gluePath ? (definition: StepDefinition) => isInGluePath(definition, gluePath) : undefined;
+    const feature = getGherkinDocument(document).feature;
 
-          if (!userInput) {
-            vscode.window.showErrorMessage('Test class name not specified, operation cancelled.');
-            return 1;
-          }
-          testClassName = userInput;
-        } else {
-          logToExtension(`✅ Auto-detected test class: ${autoDetectedClass}`, 'INFO');
-          testClassName = autoDetectedClass;
-        }
-      } else {
-        logToExtension(`✅ Using configured test class: ${testClassName}`, 'INFO');
+    // Without any glue source in the workspace (e.g. steps from a dependency) every step would be flagged
+    if (!feature || !stepDefinitionIndex.getDefinitions().some(definition => !filter || filter(definition))) {
+      this.collection.delete(document.uri);
+      return;
+    }
+
+    const diagnostics: vscode.Diagnostic[] = [];
+    for (const entry of getSteps(feature)) {
+      const stepText = getStepMatchText(entry);
+      const matches = stepDefinitionIndex.findMatches(stepText, filter);
+      if (matches.length === 1) {
+        continue;
       }
 
-      // ⭐ Use the same unified execution function as Debug mode, but without debugger
-      logToExtension(`🚀 Calling unified Maven execution (RUN mode, no debugger)...`, 'INFO');
-      return await runCucumberTestWithMavenUnified(
-        workspaceRoot,
-        workspaceFolder,
-        moduleInfo,
-        relativePath,
-        testClassName,
-        false, // isDebug = false for Run mode
-        lineNumber,
-        exampleLine,
-        undefined, // projectName
-        onOutput,
-        onStepUpdate
+      const stepDescription = `${entry.step.keyword} ${entry.step.text}`;
+      const diagnostic = new vscode.Diagnostic(
+        toStepRange(entry),
+        matches.length === 0
+          ? `Undefined step: no step definition${gluePath ? ` in glue "${gluePath}"` : ''} matches "${stepDescription}"`
+          : `Ambiguous step: ${matches.length} step definitions match "${stepDescription}"`,
+        vscode.DiagnosticSeverity.Warning
       );
-    } else {
-      logToExtension('🔶 Branch: Java execution mode', 'INFO');
-      // Java execution mode (original behavior)
-      logToExtension('🔍 Finding glue path...', 'INFO');
-      const gluePath = await findGluePath(moduleInfo.modulePath);
-
-      if (!gluePath) {
-        logToExtension('❌ Glue path not found, prompting user...', 'WARN');
-        const userInput = await vscode.window.showInputBox({
-          prompt: 'Enter glue path for steps directory (e.g. org.example.steps)',
-          placeHolder: 'org.example.steps'
-        });
-        if (!userInput) {
-          logToExtension('❌ User cancelled glue path input', 'ERROR');
-          vscode.window.showErrorMessage('Glue path not specified, operation cancelled.');
-          return 1;
-        }
-        logToExtension(`📝 User provided glue path: ${userInput}`, 'INFO');
-        logToExtension('🚀 Calling runCucumberTestWithResult (with user input)...', 'INFO');
-        return await runCucumberTestWithResult(moduleInfo.modulePath, relativePath, userInput, lineNumber, exampleLine, onOutput);
-      } else {
-        logToExtension(`✅ Found glue path: ${gluePath}`, 'INFO');
-        logToExtension('🚀 Calling runCucumberTestWithResult (auto-detected)...', 'INFO');
-        return await runCucumberTestWithResult(moduleInfo.modulePath, relativePath, gluePath, lineNumber, exampleLine, onOutput);
-      }
+      diagnostic.source = 'Cucumber';
+      diagnostic.code = matches.length === 0 ? 'undefined-step' : 'ambiguous-step';
+      diagnostic.relatedInformation = matches.map(match => new vscode.DiagnosticRelatedInformation(
+        toDefinitionLocation(match.definition),
+        `@${match.definition.keyword}("${match.definition.expression}")`
+      ));
+      diagnostics.push(diagnostic);
     }
-  } catch (error: any) {
-    vscode.window.showErrorMessage(`Error: ${error.message || 'Unknown error'}`);
-    return 1;
+
+    this.collection.set(document.uri, diagnostics);
   }
 }
 
 /**
- * Runs the selected test in DEBUG mode with debugger attachment
+ * Lint warnings on feature files (duplicate names, empty scenarios, required tags, ...)
+ *
+ * Rules are configured by a `.gherkin-lintrc` at the root of the workspace
+ * folder, overridden by the `lintRules` setting.
  */
-async function runSelectedTestInDebugMode(
-  uri: vscode.Uri,
-  testItem: vscode.TestItem,
-  run: vscode.TestRun,
-  lineNumber?: number,
-  exampleLine?: number,
-  onStepUpdate?: (step: StepResult) => void
-): Promise<number> {
-  // ⭐ v25: Use Maven Surefire Debug Mode
-  // Maven handles all classpath, dependencies, and Spring configuration correctly
-  logToExtension('=== v25 DEBUG MODE: Maven Surefire Debug ===', 'INFO');
-  
-  const workspaceFolder = vscode.workspace.getWorkspaceFolder(uri);
-  if (!workspaceFolder) {
-    vscode.window.showErrorMessage('Feature file is not inside a workspace.');
-    return 1;
-  }
-
-  const workspaceRoot = workspaceFolder.uri.fsPath;
-  const config = vscode.workspace.getConfiguration('cucumberJavaEasyRunner');
+class GherkinLintDiagnostics implements vscode.Disposable {
+  private collection = vscode.languages.createDiagnosticCollection('gherkin-lint');
+  private pendingUpdates = new Map<string, NodeJS.Timeout>();
+  private problems = new Map<string, GherkinLintProblem[]>();
+  private lintrcCache = new Map<string, GherkinLintSettings | undefined>();
 
-  // 1. Check breakpoints
-  const allBreakpoints = vscode.debug.breakpoints;
-  logToExtension(`Total breakpoints in workspace: ${allBreakpoints.length}`, 'INFO');
-  
-  if (allBreakpoints.length > 0) {
-    logToExtension('Breakpoints details:', 'DEBUG');
-    allBreakpoints.forEach((bp, index) => {
-      if (bp instanceof vscode.SourceBreakpoint) {
-        logToExtension(`  [${index}] ${bp.location.uri.fsPath}:${bp.location.range.start.line + 1} - Enabled: ${bp.enabled}`, 'DEBUG');
-      }
-    });
-  } else {
-    logToExtension('⚠️ WARNING: No breakpoints detected in workspace!', 'WARN');
-    vscode.window.showWarningMessage('No breakpoints set. Set breakpoints in your step definitions before debugging.');
+  constructor(context: vscode.ExtensionContext) {
+    const lintrcWatcher = vscode.workspace.createFileSystemWatcher('**/.gherkin-lintrc');
+    const onLintrcChange = () => {
+      this.lintrcCache.clear();
+      this.refreshAll();
+    };
+    context.subscriptions.push(
+      this,
+      lintrcWatcher,
+      lintrcWatcher.onDidCreate(onLintrcChange),
+      lintrcWatcher.onDidChange(onLintrcChange),
+      lintrcWatcher.onDidDelete(onLintrcChange),
+      vscode.workspace.onDidOpenTextDocument(document => this.schedule(document, 0)),
+      vscode.workspace.onDidChangeTextDocument(e => this.schedule(e.document)),
+      vscode.workspace.onDidCloseTextDocument(document => {
+        this.collection.delete(document.uri);
+        this.problems.delete(document.uri.toString());
+      }),
+      vscode.workspace.onDidChangeConfiguration(e => {
+        if (e.affectsConfiguration('cucumberJavaEasyRunner.enableGherkinLint') ||
+            e.affectsConfiguration('cucumberJavaEasyRunner.lintRules')) {
+          this.refreshAll();
+        }
+      })
+    );
+    this.refreshAll();
   }
 
-  try {
-    // 2. Find Maven module and test class
-    const moduleInfo = findMavenModule(uri.fsPath, workspaceRoot);
-    const relativePath = path.relative(workspaceRoot, uri.fsPath);
+  /**
+   * Lint problems of a document from its last check, for quick fixes
+   */
+  getProblems(uri: vscode.Uri): GherkinLintProblem[] {
+    return this.problems.get(uri.toString()) || [];
+  }
 
-    const configuredTestClass = config.get<string>('testClassName', '');
-    let testClassName: string = configuredTestClass;
+  refreshAll(): void {
+    for (const document of vscode.workspace.textDocuments) {
+      this.schedule(document, 0);
+    }
+  }
 
-    if (!testClassName) {
-      // ⭐ v25: Try smart detection from feature file first
-      const smartDetected = await findCucumberTestClassFromFeature(moduleInfo.modulePath, uri.fsPath);
-      
-      if (smartDetected) {
-        testClassName = smartDetected;
-        logToExtension(`⭐ v25: Smart detection selected test class: ${testClassName}`, 'INFO');
-      } else {
-        // Fallback to old method
-        const autoDetectedClass = await findCucumberTestClass(moduleInfo.modulePath);
-        if (!autoDetectedClass) {
-          const userInput = await vscode.window.showInputBox({
-            prompt: 'Enter test class name (e.g., MktSegmentCriteriaUpdateTest)',
-            placeHolder: 'MktSegmentCriteriaUpdateTest'
-          });
+  dispose(): void {
+    for (const timer of this.pendingUpdates.values()) {
+      clearTimeout(timer);
+    }
+    this.pendingUpdates.clear();
+    this.collection.dispose();
+  }
 
-          if (!userInput) {
-            vscode.window.showErrorMessage('Test class name not specified, operation cancelled.');
-            return 1;
-          }
-          testClassName = userInput;
-        } else {
-          testClassName = autoDetectedClass;
-        }
-      }
+  private schedule(document: vscode.TextDocument, delay = 300): void {
+    if (path.extname(document.uri.fsPath) !== '.feature' || document.uri.scheme !== 'file') {
+      return;
     }
 
-    // 3. Extract Maven artifactId as project name
-    let projectName: string | undefined;
-    const pomPath = path.join(moduleInfo.modulePath, 'pom.xml');
-    if (fs.existsSync(pomPath)) {
-      const artifactId = await extractMavenArtifactId(pomPath);
-      if (artifactId) {
-        projectName = artifactId;
-        logToExtension(`Maven artifactId: ${projectName}`, 'DEBUG');
-      }
+    const key = document.uri.toString();
+    const pending = this.pendingUpdates.get(key);
+    if (pending) {
+      clearTimeout(pending);
     }
+    this.pendingUpdates.set(key, setTimeout(() => {
+      this.pendingUpdates.delete(key);
+      this.update(document);
+    }, delay));
+  }
 
-    if (!projectName) {
-      projectName = path.basename(moduleInfo.modulePath);
+  private update(document: vscode.TextDocument): void {
+    const key = document.uri.toString();
+    const config = vscode.workspace.getConfiguration('cucumberJavaEasyRunner', document.uri);
+    if (!config.get<boolean>('enableGherkinLint', true) || document.isClosed) {
+      this.collection.delete(document.uri);
+      this.problems.delete(key);
+      return;
     }
 
-    // 5. ⭐ v26: Execute using UNIFIED function (DEBUG mode = isDebug:true)
-    logToExtension('⭐ v26: Executing test using UNIFIED function with DEBUG mode...', 'INFO');
-    
-    const exitCode = await runCucumberTestWithMavenUnified(
-      workspaceRoot,
-      workspaceFolder,
-      moduleInfo,
-      path.relative(workspaceRoot, uri.fsPath), // relativePath
-      testClassName,
-      true, // ⭐ isDebug = true for DEBUG mode
-      lineNumber,
-      exampleLine,
-      projectName,
-      (data: any) => run.appendOutput(data, undefined, testItem),
-      onStepUpdate
-    );
+    const problems = lintGherkin(document.getText(), getGherkinDocument(document), this.getRules(document.uri));
+    this.problems.set(key, problems);
+    this.collection.set(document.uri, problems.map(problem => {
+      const diagnostic = new vscode.Diagnostic(
+        document.validateRange(toRange(problem.range)),
+        problem.message,
+        toDiagnosticSeverity(problem.severity)
+      );
+      diagnostic.source = 'Gherkin lint';
+      diagnostic.code = problem.rule;
+      return diagnostic;
+    }));
+  }
 
-    logToExtension(`v26 UNIFIED (DEBUG) completed with exit code: ${exitCode}`, 'INFO');
-    return exitCode;
+  private getRules(uri: vscode.Uri): GherkinLintRuleConfig[] {
+    const config = vscode.workspace.getConfiguration('cucumberJavaEasyRunner', uri);
+    const workspaceFolder = vscode.workspace.getWorkspaceFolder(uri);
+    const lintrc = workspaceFolder ? this.readLintrc(workspaceFolder.uri.fsPath) : undefined;
+    const { rules, unknownRules } = resolveGherkinLintRules(lintrc, config.get<GherkinLintSettings>('lintRules', {}));
+    if (unknownRules.length > 0) {
+      logToExtension(`Unknown Gherkin lint rules ignored: ${unknownRules.join(', ')}`, 'WARN');
+    }
+    return rules;
+  }
 
-  } catch (error: any) {
-    logToExtension(`v25 Debug mode error: ${error.message}`, 'ERROR');
-    
-    const shouldContinue = await handleDebugError(error);
-    if (shouldContinue) {
-      logToExtension('Falling back to normal run mode', 'WARN');
-      return await runSelectedTestAndWait(
-        uri,
-        lineNumber,
-        exampleLine,
-        (data) => run.appendOutput(data, undefined, testItem),
-        onStepUpdate
-      );
+  private readLintrc(folderPath: string): GherkinLintSettings | undefined {
+    if (this.lintrcCache.has(folderPath)) {
+      return this.lintrcCache.get(folderPath);
     }
 
-    return 1;
+    let settings: GherkinLintSettings | undefined;
+    const lintrcPath = path.join(folderPath, '.gherkin-lintrc');
+    if (fs.existsSync(lintrcPath)) {
+      try {
+        settings = JSON.parse(fs.readFileSync(lintrcPath, 'utf8'));
+        logToExtension(`Loaded Gherkin lint rules from ${lintrcPath}`, 'DEBUG');
+      } catch (error: any) {
+        logToExtension(`Cannot read ${lintrcPath}: ${error.message}`, 'WARN');
+      }
+    }
+    this.lintrcCache.set(folderPath, settings);
+    return settings;
   }
 }
 
 /**
- * v16-v22: OLD Attach Mode implementation (DEPRECATED)
- * Kept for reference, but no longer used
- * 
- * @deprecated Use runSelectedTestInDebugMode (v23) instead
+ * Quick fixes of lint problems whose fix is mechanical (e.g. missing tags, duplicate rows)
  */
-async function runSelectedTestInDebugModeAttachV22(
-  uri: vscode.Uri,
-  testItem: vscode.TestItem,
-  run: vscode.TestRun,
-  lineNumber?: number,
-  exampleLine?: number,
-  onStepUpdate?: (step: StepResult) => void
-): Promise<number> {
-  logToExtension('=== DEBUG MODE: Starting debug test execution ===', 'INFO');
-  
-  // 1. Check current breakpoints
-  const allBreakpoints = vscode.debug.breakpoints;
-  logToExtension(`Total breakpoints in workspace: ${allBreakpoints.length}`, 'INFO');
-  
-  if (allBreakpoints.length > 0) {
-    logToExtension('Breakpoints details:', 'DEBUG');
-    allBreakpoints.forEach((bp, index) => {
-      if (bp instanceof vscode.SourceBreakpoint) {
-        logToExtension(`  [${index}] ${bp.location.uri.fsPath}:${bp.location.range.start.line + 1} - Enabled: ${bp.enabled}`, 'DEBUG');
+class GherkinLintCodeActionProvider implements vscode.CodeActionProvider {
+  static readonly providedCodeActionKinds = [vscode.CodeActionKind.QuickFix];
+
+  constructor(private readonly lintDiagnostics: GherkinLintDiagnostics) {}
+
+  provideCodeActions(
+    document: vscode.TextDocument,
+    _range: vscode.Range | vscode.Selection,
+    context: vscode.CodeActionContext
+  ): vscode.CodeAction[] {
+    const problems = this.lintDiagnostics.getProblems(document.uri);
+    const actions: vscode.CodeAction[] = [];
+
+    for (const diagnostic of context.diagnostics) {
+      if (diagnostic.source !== 'Gherkin lint') {
+        continue;
       }
-    });
-  } else {
-    logToExtension('⚠️ WARNING: No breakpoints detected in workspace!', 'WARN');
-    vscode.window.showWarningMessage('No breakpoints set. Set breakpoints in your step definitions before debugging.');
-  }
-  
-  const workspaceFolder = vscode.workspace.getWorkspaceFolder(uri);
-  if (!workspaceFolder) {
-    vscode.window.showErrorMessage('Feature file is not inside a workspace.');
-    return 1;
+      const problem = problems.find(candidate =>
+        candidate.rule === diagnostic.code && document.validateRange(toRange(candidate.range)).isEqual(diagnostic.range));
+      for (const fix of problem?.fixes || []) {
+        const action = new vscode.CodeAction(fix.title, vscode.CodeActionKind.QuickFix);
+        action.diagnostics = [diagnostic];
+        action.isPreferred = fix.isPreferred;
+        action.edit = new vscode.WorkspaceEdit();
+        for (const edit of fix.edits) {
+          action.edit.replace(document.uri, document.validateRange(toRange(edit.range)), edit.newText);
+        }
+        actions.push(action);
+      }
+    }
+
+    return actions;
   }
+}
 
-  const workspaceRoot = workspaceFolder.uri.fsPath;
+// Global test controller instance
+let globalTestController: CucumberTestController | undefined;
 
-  // Get configuration
-  const config = vscode.workspace.getConfiguration('cucumberJavaEasyRunner');
-  const executionMode = config.get<string>('executionMode', 'java');
+// Global output channel for Cucumber results
+let cucumberOutputChannel: vscode.OutputChannel | undefined;
 
-  // Currently only Maven mode supports debug
-  if (executionMode !== 'maven') {
-    const action = await vscode.window.showWarningMessage(
-      'Debug mode currently only supports Maven execution mode. Switch to Maven mode?',
-      'Switch to Maven',
-      'Cancel'
-    );
+// Global output channel for Extension logs
+let extensionLogChannel: vscode.OutputChannel | undefined;
 
-    if (action === 'Switch to Maven') {
-      await config.update('executionMode', 'maven', vscode.ConfigurationTarget.Workspace);
-      vscode.window.showInformationMessage('Switched to Maven mode. Please try debugging again.');
-    }
-    return 1;
-  }
+// Global status bar item for execution mode
+let executionModeStatusBar: vscode.StatusBarItem | undefined;
 
-  let debugPort: number | undefined;
-  let debugSession: vscode.DebugSession | undefined;
+// Global extension context
+let globalContext: vscode.ExtensionContext | undefined;
 
-  try {
-    // ⭐ v21: Always use attach mode (launch mode has mainClass issues with Cucumber)
-    // Provide clear guidance about JaCoCo conflicts
-    const debugConfig = vscode.workspace.getConfiguration('cucumberJavaEasyRunner.debug');
-    const userRequestMode = debugConfig.get<string>('requestMode', 'attach');
-    
-    // v21: Force attach mode and warn about JaCoCo if needed
-    const debugRequestMode = 'attach';
+// Test class mapping cache (workspace state)
+const TEST_CLASS_CACHE_KEY = 'cucumberTestClassMapping';
+
+// Last tag expression entered for a tag-filtered run (workspace state)
+const RUN_TAG_EXPRESSION_KEY = 'cucumberRunTagExpression';
+
+// Step definitions of the workspace's Java glue code, shared by the step navigation features
+const stepDefinitionIndex = new StepDefinitionIndex();
+
+// Initial indexing of the step definitions, started on first use
+let stepDefinitionIndexReady: Promise<void> | undefined;
+
+// Parsed feature files of the workspace (by normalized path), for step references and symbols
+const featureDocumentIndex = new Map<string, GherkinDocument>();
+
+// Fired when feature files are indexed or removed
+const featureIndexChanged = new vscode.EventEmitter<void>();
+
+// Tags selected by each runner class (tag without @ -> class names), rebuilt when Java files change
+let runnerTagSelections: Promise<Map<string, string[]>> | undefined;
+
+// Glue package the runner would use for each feature file, cleared when Java files or settings change
+const featureGluePaths = new Map<string, Promise<string | null>>();
+
+// Failed scenarios of the last test run per Maven module (module path → rerun file entries)
+const failedScenarios = new Map<string, FeatureSelection[]>();
+
+// How many feature steps use each step definition, for ranking completions (rebuilt when either index changes)
+let stepUsageCounts: { definitionsVersion: number; counts: Map<StepDefinition, number> } | undefined;
+
+/**
+ * Logs a message to the extension log channel
+ */
+function logToExtension(message: string, level: 'INFO' | 'WARN' | 'ERROR' | 'DEBUG' = 'INFO'): void {
+  if (!extensionLogChannel) {return;}
+
+  const timestamp = new Date().toLocaleTimeString();
+  const prefix = `[${timestamp}] [${level}]`;
+  extensionLogChannel.appendLine(`${prefix} ${message}`);
+
+  // Also log to console for development
+  console.log(`${prefix} ${message}`);
+}
+
+export function activate(context: vscode.ExtensionContext) {
+  globalContext = context;
+
+  // Dispose existing controller if it exists
+  if (globalTestController) {
+    try {
+      globalTestController.dispose();
+    } catch (error) {
+      console.log('Error disposing previous controller:', error);
+    }
+  }
+
+  // Create output channel for Extension logs
+  extensionLogChannel = vscode.window.createOutputChannel('Cucumber Java Easy Runner - Logs');
+  context.subscriptions.push(extensionLogChannel);
+  logToExtension('Extension activated', 'INFO');
+
+  // Create output channel for Cucumber results
+  cucumberOutputChannel = vscode.window.createOutputChannel('Cucumber Test Results');
+  context.subscriptions.push(cucumberOutputChannel);
+
+  // Create status bar item for execution mode
+  executionModeStatusBar = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 100);
+  executionModeStatusBar.command = 'cucumberJavaEasyRunner.toggleExecutionMode';
+  executionModeStatusBar.tooltip = 'Click to toggle execution mode';
+  updateExecutionModeStatusBar();
+  executionModeStatusBar.show();
+  context.subscriptions.push(executionModeStatusBar);
+  logToExtension('Status bar created', 'DEBUG');
+
+  // Parsed feature documents are cached while they are open
+  context.subscriptions.push(
+    vscode.workspace.onDidCloseTextDocument(document => evictGherkinDocument(document.uri))
+  );
+
+  // Create new test controller
+  globalTestController = new CucumberTestController(context);
+  logToExtension('Test controller initialized', 'INFO');
+
+  // Failed scenarios of the last run, from Cucumber's rerun plugin
+  context.subscriptions.push(
+    vscode.commands.registerCommand('cucumberJavaEasyRunner.rerunFailed', () => globalTestController?.rerunFailedScenarios())
+  );
+  
+  // Check if CodeLens should be enabled (default: false since we have Test Explorer)
+  const config = vscode.workspace.getConfiguration('cucumberJavaEasyRunner');
+  const enableCodeLens = config.get('enableCodeLens', false);
+  
+  if (enableCodeLens) {
+    // Register CodeLens provider only if enabled
+    const codeLensProvider = new CucumberCodeLensProvider();
+    const codeLensDisposable = vscode.languages.registerCodeLensProvider(
+      { scheme: 'file', pattern: '**/*.feature' },
+      codeLensProvider
+    );
+    context.subscriptions.push(codeLensDisposable);
+    console.log('CodeLens provider registered');
+  } else {
+    console.log('CodeLens disabled - use Test Explorer instead');
+  }
+
+  // Command to run the entire feature file
+  const runFeatureCommand = vscode.commands.registerCommand('cucumberJavaEasyRunner.runFeature', async (uri: vscode.Uri) => {
+    let featureUri = uri;
     
-    if (userRequestMode === 'launch') {
-      logToExtension(`⚠️ v21: launch mode not supported for Cucumber, using attach mode`, 'WARN');
+    // If called from editor instead of explorer
+    if (!featureUri && vscode.window.activeTextEditor) {
+      featureUri = vscode.window.activeTextEditor.document.uri;
     }
     
-  logToExtension(`🎯 v22: Using debug request mode: ${debugRequestMode}`, 'INFO');
-  logToExtension(`⚠️ v22: Using MAVEN_OPTS for JDWP (bypasses pom.xml argLine issues)`, 'WARN');
-  logToExtension(`   MAVEN_OPTS is inherited by Surefire fork, works regardless of pom.xml config`, 'INFO');    // 2. Find Maven module and test class (common for both modes)
-    const moduleInfo = findMavenModule(uri.fsPath, workspaceRoot);
-    const relativePath = path.relative(workspaceRoot, uri.fsPath);
+    if (!featureUri) {
+      vscode.window.showErrorMessage('Please open or select a feature file.');
+      return;
+    }
+    
+    runSelectedTest(featureUri);
+  });
 
-    const configuredTestClass = config.get<string>('testClassName', '');
-    let testClassName: string = configuredTestClass;
+  // CodeLens command to run the entire feature file
+  const runFeatureCodeLensCommand = vscode.commands.registerCommand('cucumberJavaEasyRunner.runFeatureCodeLens', async (uri: vscode.Uri) => {
+    console.log('runFeatureCodeLensCommand called with URI:', uri.toString());
+    vscode.window.showInformationMessage('Feature test starting...');
+    runSelectedTest(uri);
+  });
 
-    if (!testClassName) {
-      const autoDetectedClass = await findCucumberTestClass(moduleInfo.modulePath);
-      if (!autoDetectedClass) {
-        const userInput = await vscode.window.showInputBox({
-          prompt: 'Enter test class name (e.g., MktSegmentCriteriaUpdateTest)',
-          placeHolder: 'MktSegmentCriteriaUpdateTest'
-        });
+  // CodeLens command to run a single scenario
+  const runScenarioCodeLensCommand = vscode.commands.registerCommand('cucumberJavaEasyRunner.runScenarioCodeLens', async (uri: vscode.Uri, lineNumber: number) => {
+    console.log('runScenarioCodeLensCommand called with URI:', uri.toString(), 'line:', lineNumber);
+    vscode.window.showInformationMessage(`Scenario test starting at line ${lineNumber}...`);
+    runSelectedTest(uri, lineNumber);
+  });
 
-        if (!userInput) {
-          vscode.window.showErrorMessage('Test class name not specified, operation cancelled.');
-          return 1;
-        }
-        testClassName = userInput;
-      } else {
-        testClassName = autoDetectedClass;
-      }
+  // CodeLens command to run a single example
+  const runExampleCodeLensCommand = vscode.commands.registerCommand('cucumberJavaEasyRunner.runExampleCodeLens', async (uri: vscode.Uri, scenarioLine: number, exampleLine: number) => {
+    console.log('runExampleCodeLensCommand called with URI:', uri.toString(), 'scenario line:', scenarioLine, 'example line:', exampleLine);
+    vscode.window.showInformationMessage(`Example test starting at line ${exampleLine}...`);
+    runSelectedTest(uri, scenarioLine, exampleLine);
+  });
+
+  // Command to run a single scenario
+  const runScenarioCommand = vscode.commands.registerCommand('cucumberJavaEasyRunner.runScenario', async () => {
+    const editor = vscode.window.activeTextEditor;
+    if (!editor) {
+      vscode.window.showErrorMessage('Please open a feature file.');
+      return;
     }
     
-    // ⭐ v24: Removed hardcoded sourcePaths logic
-    // Source paths will be auto-detected by v24 mechanism when needed
-    // (Currently only used in Launch Mode, not in Attach Mode below)
+    const uri = editor.document.uri;
+    if (path.extname(uri.fsPath) !== '.feature') {
+      vscode.window.showErrorMessage('This command only works with .feature files.');
+      return;
+    }
     
-    // Extract Maven artifactId as project name for accurate debugging (common for both modes)
-    let projectName: string | undefined;
-    const pomPath = path.join(moduleInfo.modulePath, 'pom.xml');
-    if (fs.existsSync(pomPath)) {
-      const artifactId = await extractMavenArtifactId(pomPath);
-      if (artifactId) {
-        projectName = artifactId;
-        logToExtension(`Extracted Maven artifactId as projectName: ${projectName}`, 'DEBUG');
-      } else {
-        logToExtension(`Failed to extract artifactId from ${pomPath}, will use fallback`, 'WARN');
-      }
-    } else {
-      logToExtension(`pom.xml not found at ${pomPath}, using fallback projectName`, 'DEBUG');
+    const currentLine = editor.selection.active.line;
+    const scenario = findScenarioAtLine(editor.document, currentLine);
+    
+    if (!scenario) {
+      vscode.window.showErrorMessage('Please right-click inside a Scenario or Scenario Outline.');
+      return;
     }
     
-    // Fallback to module folder name if extraction fails
-    if (!projectName) {
-      projectName = path.basename(moduleInfo.modulePath);
-      logToExtension(`Using module folder name as projectName: ${projectName}`, 'DEBUG');
+    runSelectedTest(uri, scenario.lineNumber);
+  });
+  
+  // Command to run a single example row
+  const runExampleCommand = vscode.commands.registerCommand('cucumberJavaEasyRunner.runExample', async () => {
+    const editor = vscode.window.activeTextEditor;
+    if (!editor) {
+      vscode.window.showErrorMessage('Please open a feature file.');
+      return;
     }
     
-    // ⭐ v21: Only attach mode supported (launch mode has Cucumber mainClass issues)
-    // Direct to attach mode implementation
-    {
-      // ═══════════════════════════════════════════════════════════════════════
-      // ⭐ v12: ATTACH MODE - Spawn Maven then attach debugger
-      // ═══════════════════════════════════════════════════════════════════════
-      
-      // 1. Allocate debug port
-      debugPort = await DebugPortManager.allocatePort(testItem.id);
-      logToExtension(`Allocated debug port: ${debugPort} for test: ${testItem.label}`, 'INFO');
-      
-      // Verify port is available
-      const net = require('net');
-      const portAvailable = await new Promise<boolean>((resolve) => {
-        const tester = net.createServer();
-        tester.once('error', () => resolve(false));
-        tester.once('listening', () => {
-          tester.close();
-          resolve(true);
-        });
-        tester.listen(debugPort, '127.0.0.1');
-      });
-      logToExtension(`Port ${debugPort} is ${portAvailable ? 'AVAILABLE ✓' : 'IN USE ✗'}`, portAvailable ? 'INFO' : 'ERROR');
-      
-      // 2. Start Maven with JDWP debug parameters
-      logToExtension(`Starting Maven in debug mode on port ${debugPort}`, 'INFO');
+    const uri = editor.document.uri;
+    if (path.extname(uri.fsPath) !== '.feature') {
+      vscode.window.showErrorMessage('This command only works with .feature files.');
+      return;
+    }
+    
+    const currentLine = editor.selection.active.line;
+    console.log(`runExampleCommand called, line: ${currentLine}`);
+    
+    // First check if the line starts with |
+    const lineText = editor.document.lineAt(currentLine).text.trim();
+    if (!lineText.startsWith('|')) {
+      vscode.window.showErrorMessage('Please right-click on a data row (starting with |) in an Examples table.');
+      return;
+    }
+    
+    const examples = findExampleAtLine(editor.document, currentLine);
+    
+    if (!examples) {
+      vscode.window.showErrorMessage('Example row not detected. Please right-click on a data row (starting with |, not the header row) in an Examples table.');
+      return;
+    }
+    
+    runSelectedTest(uri, examples.lineNumber, examples.exampleLineNumber);
+  });
 
-      const mavenProcess = await runCucumberTestWithMavenDebug(
-        workspaceRoot,
-        moduleInfo,
-        relativePath,
-        testClassName,
-        debugPort,
-        lineNumber,
-        exampleLine,
-        (data: string) => run.appendOutput(data, undefined, testItem),
-        onStepUpdate
-      );
+  // Expanded Scenario Outline preview, runnable and debuggable per Examples row
+  const outlinePreviewProvider = new OutlinePreviewProvider(context);
+  context.subscriptions.push(
+    vscode.workspace.registerTextDocumentContentProvider(OutlinePreviewProvider.scheme, outlinePreviewProvider),
+    vscode.languages.registerCodeLensProvider(
+      [{ scheme: OutlinePreviewProvider.scheme }, { scheme: 'file', pattern: '**/*.feature' }],
+      outlinePreviewProvider
+    ),
+    vscode.commands.registerCommand(
+      'cucumberJavaEasyRunner.previewOutline',
+      async (uri?: vscode.Uri, scenarioLine?: number, exampleLine?: number) => {
+        if (!uri || typeof scenarioLine !== 'number') {
+          // From the context menu (the file's URI) or the command palette: the outline at the cursor
+          const featureUri = uri || vscode.window.activeTextEditor?.document.uri;
+          const editor = featureUri && [vscode.window.activeTextEditor, ...vscode.window.visibleTextEditors].find(visible =>
+            visible?.document.uri.toString() === featureUri.toString());
+          if (!editor || path.extname(editor.document.uri.fsPath) !== '.feature') {
+            vscode.window.showErrorMessage('Please open a feature file.');
+            return;
+          }
+          const line = editor.selection.active.line + 1;
+          const gherkinDocument = getGherkinDocument(editor.document);
+          const scenario = getScenarioAtLine(gherkinDocument, line);
+          if (!scenario || scenario.examples.length === 0) {
+            vscode.window.showErrorMessage('Please place the cursor inside a Scenario Outline with Examples.');
+            return;
+          }
+          uri = editor.document.uri;
+          scenarioLine = scenario.location.line;
+          exampleLine = getExamplesRowAtLine(gherkinDocument, line)?.row.location.line;
+        }
 
-      // ⭐ v19: Wait for Surefire to start test JVM (not Maven main JVM)
-      // In v19, MAVEN_OPTS doesn't have JDWP, only -DargLine does
-      // So we need to wait for Surefire's forked JVM to output "Listening for transport"
-      await waitForDebugServerWithProgress(mavenProcess, debugPort, testItem.label);
+        const previewUri = OutlinePreviewProvider.toUri(uri, scenarioLine);
+        const previewDocument = await vscode.workspace.openTextDocument(previewUri);
+        const previewLine = exampleLine ? outlinePreviewProvider.getScenarioLine(previewUri, exampleLine) : undefined;
+        await vscode.window.showTextDocument(previewDocument, {
+          viewColumn: vscode.ViewColumn.Beside,
+          preview: true,
+          selection: previewLine ? new vscode.Range(previewLine - 1, 0, previewLine - 1, 0) : undefined
+        });
+      }
+    ),
+    vscode.commands.registerCommand(
+      'cucumberJavaEasyRunner.debugExample',
+      async (uri: vscode.Uri, scenarioLine: number, exampleLine: number) => {
+        if (!globalTestController) {
+          return;
+        }
+        logToExtension(`Debugging example at ${uri.fsPath}:${exampleLine}`, 'INFO');
+        await globalTestController.runScenarios([{
+          featurePath: uri.fsPath,
+          name: '',
+          lineNumber: scenarioLine,
+          exampleLineNumbers: [exampleLine]
+        }], true);
+      }
+    )
+  );
+
+  // Command to generate step definitions for the undefined steps of the last run
+  const generateStepDefinitionsCommand = vscode.commands.registerCommand(
+    'cucumberJavaEasyRunner.generateStepDefinitions',
+    async (uri?: vscode.Uri, lineNumber?: number) => generateStepDefinitions(uri, lineNumber)
+  );
+
+  context.subscriptions.push(
+    vscode.languages.registerCodeActionsProvider(
+      { pattern: '**/*.feature' },
+      new UndefinedStepCodeActionProvider(),
+      { providedCodeActionKinds: UndefinedStepCodeActionProvider.providedCodeActionKinds }
+    )
+  );
+
+  // Go to Definition from feature steps to their Java step definitions
+  context.subscriptions.push(
+    vscode.languages.registerDefinitionProvider({ pattern: '**/*.feature' }, new StepDefinitionProvider())
+  );
+  context.subscriptions.push(
+    vscode.languages.registerRenameProvider([{ pattern: '**/*.feature' }, { pattern: '**/*.java' }], new StepRenameProvider())
+  );
+  context.subscriptions.push(
+    vscode.languages.registerHoverProvider({ pattern: '**/*.feature' }, new StepHoverProvider())
+  );
+  context.subscriptions.push(
+    vscode.languages.registerReferenceProvider({ pattern: '**/*.java' }, new StepReferenceProvider())
+  );
+  context.subscriptions.push(
+    vscode.languages.registerCompletionItemProvider({ language: 'gherkin' }, new StepCompletionProvider(), ' ')
+  );
+
+  // Outline, breadcrumbs, folding and Go to Symbol in Workspace
+  context.subscriptions.push(
+    vscode.languages.registerDocumentSymbolProvider({ language: 'gherkin' }, new GherkinDocumentSymbolProvider()),
+    vscode.languages.registerFoldingRangeProvider({ language: 'gherkin' }, new GherkinFoldingRangeProvider()),
+    vscode.languages.registerWorkspaceSymbolProvider(new GherkinWorkspaceSymbolProvider())
+  );
+
+  // Tags: completion, hover and the tag explorer view
+  const tagTreeProvider = new TagTreeDataProvider();
+  context.subscriptions.push(
+    vscode.languages.registerCompletionItemProvider({ language: 'gherkin' }, new TagCompletionProvider(), '@'),
+    vscode.languages.registerHoverProvider({ language: 'gherkin' }, new TagHoverProvider()),
+    vscode.window.registerTreeDataProvider('cucumberJavaEasyRunner.tagExplorer', tagTreeProvider),
+    tagTreeProvider,
+    featureIndexChanged.event(() => tagTreeProvider.refresh()),
+    vscode.commands.registerCommand('cucumberJavaEasyRunner.refreshTags', () => {
+      runnerTagSelections = undefined;
+      tagTreeProvider.refresh();
+    }),
+    vscode.commands.registerCommand('cucumberJavaEasyRunner.runTag', async (node?: TagTreeNode) => {
+      let usage = node && node.kind === 'tag' ? node.usage : undefined;
+      if (!usage) {
+        const picked = await vscode.window.showQuickPick(
+          Array.from(collectTagUsage().values()).map(entry => ({
+            label: entry.tag,
+            description: `${entry.scenarios.length} scenarios`,
+            usage: entry
+          })),
+          { placeHolder: 'Select a tag to run its scenarios' }
+        );
+        usage = picked?.usage;
+      }
+      if (usage && globalTestController) {
+        logToExtension(`Running ${usage.scenarios.length} scenarios tagged ${usage.tag}`, 'INFO');
+        await globalTestController.runScenarios(usage.scenarios);
+      }
+    })
+  );
+
+  // Formatting of feature files
+  const formattingProvider = new GherkinFormattingProvider();
+  context.subscriptions.push(
+    vscode.languages.registerDocumentFormattingEditProvider({ language: 'gherkin' }, formattingProvider),
+    vscode.languages.registerDocumentRangeFormattingEditProvider({ language: 'gherkin' }, formattingProvider)
+  );
+
+  // Undefined and ambiguous step warnings while editing feature files
+  const stepDiagnostics = new StepDefinitionDiagnostics(context);
+
+  // Semantic highlighting of feature files (the TextMate grammar covers the English keywords)
+  const semanticTokensProvider = new GherkinSemanticTokensProvider();
+  context.subscriptions.push(vscode.languages.registerDocumentSemanticTokensProvider(
+    { language: 'gherkin' },
+    semanticTokensProvider,
+    GherkinSemanticTokensProvider.legend
+  ));
+  watchStepDefinitions(context, () => {
+    runnerTagSelections = undefined;
+    stepDiagnostics.refreshAll(true);
+    semanticTokensProvider.refresh();
+  });
+
+  // Configurable lint rules for feature files
+  const lintDiagnostics = new GherkinLintDiagnostics(context);
+  context.subscriptions.push(
+    vscode.languages.registerCodeActionsProvider(
+      { language: 'gherkin' },
+      new GherkinLintCodeActionProvider(lintDiagnostics),
+      { providedCodeActionKinds: GherkinLintCodeActionProvider.providedCodeActionKinds }
+    )
+  );
+
+  // Command to toggle execution mode
+  const toggleExecutionModeCommand = vscode.commands.registerCommand('cucumberJavaEasyRunner.toggleExecutionMode', async () => {
+    const config = vscode.workspace.getConfiguration('cucumberJavaEasyRunner');
+    const currentMode = config.get<string>('executionMode', 'java');
+    const newMode = currentMode === 'java' ? 'maven' : 'java';
+
+    await config.update('executionMode', newMode, vscode.ConfigurationTarget.Workspace);
+    updateExecutionModeStatusBar();
+
+    vscode.window.showInformationMessage(`Execution mode switched to: ${newMode.toUpperCase()}`);
+  });
+
+  // Command to clear test class cache
+  const clearTestClassCacheCommand = vscode.commands.registerCommand('cucumberJavaEasyRunner.clearTestClassCache', async () => {
+    await context.workspaceState.update(TEST_CLASS_CACHE_KEY, {});
+    vscode.window.showInformationMessage('Test class cache cleared successfully!');
+  });
+
+  context.subscriptions.push(runFeatureCommand);
+  context.subscriptions.push(runFeatureCodeLensCommand);
+  context.subscriptions.push(runScenarioCodeLensCommand);
+  context.subscriptions.push(runExampleCodeLensCommand);
+  context.subscriptions.push(runScenarioCommand);
+  context.subscriptions.push(runExampleCommand);
+  context.subscriptions.push(toggleExecutionModeCommand);
+  context.subscriptions.push(clearTestClassCacheCommand);
+  context.subscriptions.push(generateStepDefinitionsCommand);
+
+  // Watch for configuration changes to update status bar
+  context.subscriptions.push(
+    vscode.workspace.onDidChangeConfiguration((e) => {
+      if (e.affectsConfiguration('cucumberJavaEasyRunner.executionMode')) {
+        updateExecutionModeStatusBar();
+      }
+    })
+  );
+}
+
+/**
+ * Updates the status bar to show current execution mode
+ */
+function updateExecutionModeStatusBar(): void {
+  if (!executionModeStatusBar) {
+    return;
+  }
+
+  const config = vscode.workspace.getConfiguration('cucumberJavaEasyRunner');
+  const executionMode = config.get<string>('executionMode', 'java');
+
+  if (executionMode === 'maven') {
+    executionModeStatusBar.text = '$(package) Maven';
+    executionModeStatusBar.tooltip = 'Execution Mode: Maven Test\nClick to switch to Java mode';
+  } else {
+    executionModeStatusBar.text = '$(coffee) Java';
+    executionModeStatusBar.tooltip = 'Execution Mode: Java Direct\nClick to switch to Maven mode';
+  }
+}
+
+/**
+ * Gets the cached test class for a feature file
+ */
+function getCachedTestClass(context: vscode.ExtensionContext, featurePath: string): string | undefined {
+  const mapping = context.workspaceState.get<TestClassMapping>(TEST_CLASS_CACHE_KEY, {});
+  return mapping[featurePath];
+}
+
+/**
+ * Caches the test class for a feature file
+ */
+async function cacheTestClass(context: vscode.ExtensionContext, featurePath: string, testClassName: string): Promise<void> {
+  const mapping = context.workspaceState.get<TestClassMapping>(TEST_CLASS_CACHE_KEY, {});
+  mapping[featurePath] = testClassName;
+  await context.workspaceState.update(TEST_CLASS_CACHE_KEY, mapping);
+}
+
+/**
+ * Runs the selected feature, scenario, or example row
+ */
+async function runSelectedTest(uri: vscode.Uri, lineNumber?: number, exampleLine?: number) {
+  const terminal = vscode.window.createTerminal('Cucumber Feature');
+
+  // Find the project root directory
+  const workspaceFolder = vscode.workspace.getWorkspaceFolder(uri);
+  if (!workspaceFolder) {
+    vscode.window.showErrorMessage('Feature file is not inside a workspace.');
+    return false;
+  }
+
+  const workspaceRoot = workspaceFolder.uri.fsPath;
+
+  // Get configuration
+  const config = vscode.workspace.getConfiguration('cucumberJavaEasyRunner');
+  const executionMode = config.get<string>('executionMode', 'java');
+  const configuredTestClass = config.get<string>('testClassName', '');
+
+  // Find the Maven module for this feature file
+  const moduleInfo = findMavenModule(uri.fsPath, workspaceRoot);
+
+  // Get the relative path of the feature file in the workspace
+  const relativePath = path.relative(workspaceRoot, uri.fsPath);
+
+  // Save the run mode information
+  let runMode = 'feature';
+  if (lineNumber && lineNumber > 0) {
+    runMode = exampleLine ? 'example' : 'scenario';
+  }
+
+  logToExtension(`Run mode: ${runMode}`, 'INFO');
+  logToExtension(`Execution mode: ${executionMode}`, 'INFO');
+  logToExtension(`Module path: ${moduleInfo.modulePath}`, 'DEBUG');
+  logToExtension(`Module relative path: ${moduleInfo.moduleRelativePath}`, 'DEBUG');
+  logToExtension(`Feature: ${relativePath}`, 'INFO');
+  logToExtension(`Scenario line: ${lineNumber || 'entire feature'}`, 'DEBUG');
+  logToExtension(`Example line: ${exampleLine || 'all scenarios'}`, 'DEBUG');
+
+  // Clear and show output channel
+  if (cucumberOutputChannel) {
+    cucumberOutputChannel.clear();
+    cucumberOutputChannel.show(true);
+    cucumberOutputChannel.appendLine('═══════════════════════════════════════════');
+    cucumberOutputChannel.appendLine(`🥒 Cucumber Test Run - ${new Date().toLocaleTimeString()}`);
+    cucumberOutputChannel.appendLine('═══════════════════════════════════════════');
+    cucumberOutputChannel.appendLine(`📁 Feature: ${relativePath}`);
+    cucumberOutputChannel.appendLine(`🔧 Mode: ${executionMode.toUpperCase()}`);
+    cucumberOutputChannel.appendLine('═══════════════════════════════════════════\n');
+  }
+
+  try {
+    if (executionMode === 'maven') {
+      // Maven execution mode
+      let testClassName: string = configuredTestClass;
+
+      // Try to use cached test class if rememberTestClass is enabled
+      const rememberTestClass = config.get<boolean>('rememberTestClass', true);
+      if (!testClassName && rememberTestClass && globalContext) {
+        const cachedClass = getCachedTestClass(globalContext, relativePath);
+        if (cachedClass) {
+          testClassName = cachedClass;
+          console.log(`Using cached test class: ${testClassName}`);
+        }
+      }
+
+      // Auto-detect test class if not configured
+      if (!testClassName) {
+        const autoDetectedClass = await findCucumberTestClass(moduleInfo.modulePath);
+
+        if (!autoDetectedClass) {
+          const userInput = await vscode.window.showInputBox({
+            prompt: 'Enter test class name (e.g., MktSegmentCriteriaUpdateTest)',
+            placeHolder: 'MktSegmentCriteriaUpdateTest'
+          });
+
+          if (!userInput) {
+            vscode.window.showErrorMessage('Test class name not specified, operation cancelled.');
+            return false;
+          }
+          testClassName = userInput;
+        } else {
+          testClassName = autoDetectedClass;
+        }
+
+        // Cache the test class for future use
+        if (rememberTestClass && globalContext) {
+          await cacheTestClass(globalContext, relativePath, testClassName);
+        }
+      }
+
+      let message = '';
+      if (runMode === 'feature') {
+        message = `Running feature file with Maven test (${testClassName})`;
+      } else if (runMode === 'scenario') {
+        message = `Running scenario at line ${lineNumber} with Maven test (${testClassName})`;
+      } else if (runMode === 'example') {
+        message = `Running example at line ${lineNumber}:${exampleLine} with Maven test (${testClassName})`;
+      }
+
+      vscode.window.showInformationMessage(message);
+      await runCucumberTestWithMaven(
+        workspaceRoot,
+        moduleInfo,
+        relativePath,
+        testClassName,
+        terminal,
+        lineNumber,
+        exampleLine
+      );
+    } else {
+      // Java execution mode (original behavior)
+      const gluePath = await findGluePath(moduleInfo.modulePath);
+
+      if (!gluePath) {
+        const userInput = await vscode.window.showInputBox({
+          prompt: 'Enter glue path for steps directory (e.g. org.example.steps)',
+          placeHolder: 'org.example.steps'
+        });
+
+        if (!userInput) {
+          vscode.window.showErrorMessage('Glue path not specified, operation cancelled.');
+          return false;
+        }
+
+        runCucumberTest(moduleInfo.modulePath, relativePath, userInput, terminal, lineNumber, exampleLine);
+      } else {
+        let message = '';
+        if (runMode === 'feature') {
+          message = `Running feature file with glue path "${gluePath}"`;
+        } else if (runMode === 'scenario') {
+          message = `Running scenario at line ${lineNumber} with glue path "${gluePath}"`;
+        } else if (runMode === 'example') {
+          message = `Running example at line ${lineNumber}:${exampleLine} with glue path "${gluePath}"`;
+        }
+
+        vscode.window.showInformationMessage(message);
+        runCucumberTest(moduleInfo.modulePath, relativePath, gluePath, terminal, lineNumber, exampleLine);
+      }
+    }
+  } catch (error: any) {
+    vscode.window.showErrorMessage(`Error: ${error.message || 'Unknown error'}`);
+  }
+}
+
+/**
+ * Runs the selected test and waits for the Java process to finish. Streams output via the provided callback.
+ */
+async function runSelectedTestAndWait(
+  uri: vscode.Uri,
+  lineNumber?: FeatureLines,
+  exampleLine?: number,
+  onOutput?: (chunk: string) => void,
+  onStepUpdate?: (step: StepResult) => void,
+  tagExpression?: string
+): Promise<number> {
+  logToExtension('🔵 ======== runSelectedTestAndWait CALLED ========', 'INFO');
+  logToExtension(`📄 URI: ${uri.fsPath}`, 'INFO');
+  logToExtension(`📍 Line: ${lineNumber}, Example: ${exampleLine}`, 'INFO');
+
+  
+  const workspaceFolder = vscode.workspace.getWorkspaceFolder(uri);
+  if (!workspaceFolder) {
+    vscode.window.showErrorMessage('Feature file is not inside a workspace.');
+    return 1;
+  }
+
+  const workspaceRoot = workspaceFolder.uri.fsPath;
+
+  // Get configuration
+  const config = vscode.workspace.getConfiguration('cucumberJavaEasyRunner');
+  const executionMode = config.get<string>('executionMode', 'maven');
+  const configuredTestClass = config.get<string>('testClassName', '');
+  
+  logToExtension(`⚙️  Execution mode: ${executionMode}`, 'INFO');
+  logToExtension(`🧪 Configured test class: ${configuredTestClass || '(auto-detect)'}`, 'INFO');
+
+  // Find the Maven module for this feature file
+  const moduleInfo = findMavenModule(uri.fsPath, workspaceRoot);
+
+  const relativePath = path.relative(workspaceRoot, uri.fsPath);
+
+  // Remember undefined steps and their snippets for "Generate Step Definitions"
+  const recorder = recordUndefinedSteps(uri, onStepUpdate, onOutput);
+  onStepUpdate = recorder.onStepUpdate;
+  onOutput = recorder.onOutput;
+
+  try {
+    if (executionMode === 'maven') {
+      logToExtension('🔶 Branch: Maven execution mode', 'INFO');
+      // Maven execution mode
+      let testClassName: string = configuredTestClass;
+
+      // Auto-detect test class if not configured
+      if (!testClassName) {
+        logToExtension('🔍 Auto-detecting test class...', 'INFO');
+        const autoDetectedClass = await findCucumberTestClass(moduleInfo.modulePath);
+
+        if (!autoDetectedClass) {
+          logToExtension('❌ Auto-detection failed, prompting user...', 'WARN');
+          const userInput = await vscode.window.showInputBox({
+            prompt: 'Enter test class name (e.g., MktSegmentCriteriaUpdateTest)',
+            placeHolder: 'MktSegmentCriteriaUpdateTest'
+          });
+
+          if (!userInput) {
+            vscode.window.showErrorMessage('Test class name not specified, operation cancelled.');
+            return 1;
+          }
+          testClassName = userInput;
+        } else {
+          logToExtension(`✅ Auto-detected test class: ${autoDetectedClass}`, 'INFO');
+          testClassName = autoDetectedClass;
+        }
+      } else {
+        logToExtension(`✅ Using configured test class: ${testClassName}`, 'INFO');
+      }
+
+      // ⭐ Use the same unified execution function as Debug mode, but without debugger
+      logToExtension(`🚀 Calling unified Maven execution (RUN mode, no debugger)...`, 'INFO');
+      return await runCucumberTestWithMavenUnified(
+        workspaceRoot,
+        workspaceFolder,
+        moduleInfo,
+        relativePath,
+        testClassName,
+        false, // isDebug = false for Run mode
+        lineNumber,
+        exampleLine,
+        undefined, // projectName
+        onOutput,
+        onStepUpdate,
+        undefined, // featureSelections
+        tagExpression
+      );
+    } else {
+      logToExtension('🔶 Branch: Java execution mode', 'INFO');
+      // Java execution mode (original behavior)
+      logToExtension('🔍 Finding glue path...', 'INFO');
+      const gluePath = await findGluePath(moduleInfo.modulePath);
+
+      if (!gluePath) {
+        logToExtension('❌ Glue path not found, prompting user...', 'WARN');
+        const userInput = await vscode.window.showInputBox({
+          prompt: 'Enter glue path for steps directory (e.g. org.example.steps)',
+          placeHolder: 'org.example.steps'
+        });
+        if (!userInput) {
+          logToExtension('❌ User cancelled glue path input', 'ERROR');
+          vscode.window.showErrorMessage('Glue path not specified, operation cancelled.');
+          return 1;
+        }
+        logToExtension(`📝 User provided glue path: ${userInput}`, 'INFO');
+        logToExtension('🚀 Calling runCucumberTestWithResult (with user input)...', 'INFO');
+        return await runCucumberTestWithResult(moduleInfo.modulePath, relativePath, userInput, lineNumber, exampleLine, onOutput, onStepUpdate, tagExpression);
+      } else {
+        logToExtension(`✅ Found glue path: ${gluePath}`, 'INFO');
+        logToExtension('🚀 Calling runCucumberTestWithResult (auto-detected)...', 'INFO');
+        return await runCucumberTestWithResult(moduleInfo.modulePath, relativePath, gluePath, lineNumber, exampleLine, onOutput, onStepUpdate, tagExpression);
+      }
+    }
+  } catch (error: any) {
+    vscode.window.showErrorMessage(`Error: ${error.message || 'Unknown error'}`);
+    return 1;
+  } finally {
+    recorder.finish();
+  }
+}
+
+/**
+ * Wraps the run callbacks of a feature to remember its undefined steps and Cucumber's snippets
+ *
+ * Snippets come from the message protocol (with the step line) and, as a
+ * fallback, from the console output. `finish()` offers to generate the
+ * missing step definitions when the run reported a set not already warned about.
+ */
+function recordUndefinedSteps(
+  uri: vscode.Uri,
+  onStepUpdate?: (step: StepResult) => void,
+  onOutput?: (chunk: string) => void
+): { onStepUpdate: (step: StepResult) => void; onOutput: (chunk: string) => void; finish: () => void } {
+  const featurePath = uri.fsPath;
+  const steps: UndefinedStepSnippet[] = [];
+  let output = '';
+  undefinedStepSnippets.delete(featurePath);
+
+  return {
+    onStepUpdate: (step: StepResult) => {
+      if (step.status === 'undefined' && step.snippet) {
+        const key = snippetKey(step.snippet);
+        if (!steps.some(s => s.lineNumber === step.lineNumber && snippetKey(s.snippet) === key)) {
+          steps.push({ stepText: `${step.keyword} ${step.name}`, lineNumber: step.lineNumber, snippet: step.snippet });
+        }
+      }
+      onStepUpdate?.(step);
+    },
+    onOutput: (chunk: string) => {
+      output += chunk;
+      onOutput?.(chunk);
+    },
+    finish: () => {
+      const known = new Set(steps.map(s => snippetKey(s.snippet)));
+      for (const snippet of extractSnippetsFromOutput(output)) {
+        if (!known.has(snippetKey(snippet))) {
+          steps.push({ stepText: snippetKey(snippet), snippet });
+        }
+      }
+      if (steps.length === 0) {
+        warnedUndefinedSteps.delete(featurePath);
+        return;
+      }
+
+      undefinedStepSnippets.set(featurePath, steps);
+      logToExtension(`Recorded ${steps.length} undefined step(s) with snippets for ${path.basename(featurePath)}`, 'INFO');
+
+      // Warn once per distinct set, so repeated (e.g. continuous) runs don't nag while editing
+      const warningKey = steps.map(s => snippetKey(s.snippet)).sort().join('\n');
+      if (warnedUndefinedSteps.get(featurePath) === warningKey) {
+        return;
+      }
+      warnedUndefinedSteps.set(featurePath, warningKey);
+      vscode.window.showWarningMessage(
+        `${steps.length} undefined step(s) in ${path.basename(featurePath)}.`,
+        'Generate Step Definitions'
+      ).then(choice => {
+        if (choice) {
+          vscode.commands.executeCommand('cucumberJavaEasyRunner.generateStepDefinitions', uri);
+        }
+      });
+    }
+  };
+}
+
+/**
+ * Resolves the glue package of a feature's runner, the same way tests are run:
+ * customGluePath setting, then the glue of the runner test class, then the steps directory
+ */
+async function resolveGluePackage(modulePath: string, featurePath: string): Promise<string | null> {
+  const config = vscode.workspace.getConfiguration('cucumberJavaEasyRunner');
+  const customGluePath = config.get<string>('customGluePath', '');
+  if (customGluePath) {
+    return customGluePath;
+  }
+
+  const testClassName = config.get<string>('testClassName', '')
+    || (globalContext ? getCachedTestClass(globalContext, featurePath) : undefined)
+    || await findCucumberTestClassFromFeature(modulePath, featurePath)
+    || await findCucumberTestClass(modulePath);
+  const testDir = path.join(modulePath, 'src', 'test', 'java');
+  if (testClassName && fs.existsSync(testDir)) {
+    const testClassPath = await findTestClassPath(testDir, testClassName);
+    const gluePackage = testClassPath ? await extractGluePackageFromTestClass(testClassPath) : null;
+    if (gluePackage) {
+      return gluePackage;
+    }
+  }
+
+  return await findGluePath(modulePath);
+}
+
+/**
+ * Inserts the snippets of undefined steps into a steps class of the glue package,
+ * or into a new `*Steps.java` class
+ *
+ * @param featureUri - Feature whose last run reported the steps (defaults to the active editor)
+ * @param lineNumber - Only generate the step at this 1-based line
+ */
+async function generateStepDefinitions(featureUri?: vscode.Uri, lineNumber?: number): Promise<void> {
+  if (!featureUri && vscode.window.activeTextEditor?.document.uri.fsPath.endsWith('.feature')) {
+    featureUri = vscode.window.activeTextEditor.document.uri;
+  }
+  if (!featureUri) {
+    vscode.window.showErrorMessage('Please open a feature file.');
+    return;
+  }
+
+  const recorded = (undefinedStepSnippets.get(featureUri.fsPath) || [])
+    .filter(step => lineNumber === undefined || step.lineNumber === lineNumber);
+  const snippets = uniqueSnippets(recorded.map(step => step.snippet));
+  if (snippets.length === 0) {
+    vscode.window.showInformationMessage('No undefined steps recorded for this feature. Run it first to collect the snippets Cucumber suggests.');
+    return;
+  }
+
+  const workspaceFolder = vscode.workspace.getWorkspaceFolder(featureUri);
+  if (!workspaceFolder) {
+    vscode.window.showErrorMessage('Feature file is not inside a workspace.');
+    return;
+  }
+
+  const moduleInfo = findMavenModule(featureUri.fsPath, workspaceFolder.uri.fsPath);
+  // The glue may list several packages, possibly in classpath form: new steps go to the first
+  let gluePackage = parseGluePackages(await resolveGluePackage(moduleInfo.modulePath, featureUri.fsPath) || '')[0];
+  if (!gluePackage) {
+    const userInput = await vscode.window.showInputBox({
+      prompt: 'Enter glue package for the step definitions (e.g. org.example.steps)',
+      placeHolder: 'org.example.steps'
+    });
+    gluePackage = parseGluePackages(userInput || '')[0];
+    if (!gluePackage) {
+      return;
+    }
+  }
+  logToExtension(`Generating ${snippets.length} step definition(s) in glue package ${gluePackage}`, 'INFO');
+
+  const featureDocument = await vscode.workspace.openTextDocument(featureUri);
+  const language = getGherkinDocument(featureDocument).feature?.language || 'en';
+  const glueDir = path.join(moduleInfo.modulePath, 'src', 'test', 'java', ...gluePackage.split('.'));
+
+  // Existing steps classes: Java files in the glue package using cucumber-java annotations
+  const stepClasses: string[] = [];
+  for (const javaFile of await vscode.workspace.findFiles(new vscode.RelativePattern(glueDir, '**/*.java'))) {
+    const content = await fs.promises.readFile(javaFile.fsPath, 'utf8').catch(() => '');
+    if (content.includes('io.cucumber.java.')) {
+      stepClasses.push(javaFile.fsPath);
+    }
+  }
+
+  const createItem: vscode.QuickPickItem = {
+    label: '$(add) Create new steps class...',
+    description: gluePackage
+  };
+  let target: string | undefined;
+  if (stepClasses.length > 0) {
+    const picked = await vscode.window.showQuickPick(
+      [
+        ...stepClasses.map((file: string) => ({ label: path.basename(file, '.java'), description: path.relative(glueDir, path.dirname(file)) || gluePackage, file })),
+        createItem
+      ],
+      { placeHolder: `Add ${snippets.length} step definition(s) to...` }
+    );
+    if (!picked) {
+      return;
+    }
+    target = 'file' in picked ? picked.file : undefined;
+  } else {
+    const choice = await vscode.window.showInformationMessage(
+      `No steps class found in ${gluePackage}. Create a new one?`,
+      'Create Steps Class'
+    );
+    if (!choice) {
+      return;
+    }
+  }
+
+  if (target) {
+    const document = await vscode.workspace.openTextDocument(target);
+    const result = insertSnippetsIntoClass(document.getText(), snippets, language);
+    if (!result) {
+      vscode.window.showErrorMessage(`Could not find the end of the class in ${path.basename(target)}.`);
+      return;
+    }
+    if (result.added === 0) {
+      vscode.window.showInformationMessage(`${path.basename(target)} already contains these step definitions.`);
+      return;
+    }
+
+    const edit = new vscode.WorkspaceEdit();
+    edit.replace(document.uri, new vscode.Range(document.positionAt(0), document.positionAt(document.getText().length)), result.source);
+    await vscode.workspace.applyEdit(edit);
+    await vscode.window.showTextDocument(document);
+    vscode.window.showInformationMessage(`Added ${result.added} step definition(s) to ${path.basename(target)}.`);
+    return;
+  }
+
+  const className = await vscode.window.showInputBox({
+    prompt: `Name of the new steps class in ${gluePackage}`,
+    value: stepsClassNameForFeature(path.basename(featureUri.fsPath, '.feature')),
+    validateInput: value => {
+      if (!/^[A-Za-z_$][\w$]*$/.test(value)) {
+        return 'Not a valid Java class name';
+      }
+      return fs.existsSync(path.join(glueDir, `${value}.java`)) ? `${value}.java already exists` : undefined;
+    }
+  });
+  if (!className) {
+    return;
+  }
+
+  const classUri = vscode.Uri.file(path.join(glueDir, `${className}.java`));
+  const edit = new vscode.WorkspaceEdit();
+  edit.createFile(classUri, { ignoreIfExists: false });
+  edit.insert(classUri, new vscode.Position(0, 0), createStepsClass(gluePackage, className, snippets, language));
+  await vscode.workspace.applyEdit(edit);
+  const document = await vscode.workspace.openTextDocument(classUri);
+  await document.save();
+  await vscode.window.showTextDocument(document);
+  vscode.window.showInformationMessage(`Created ${className}.java with ${snippets.length} step definition(s).`);
+}
+
+/**
+ * Runs the selected test in DEBUG mode with debugger attachment
+ */
+async function runSelectedTestInDebugMode(
+  uri: vscode.Uri,
+  testItem: vscode.TestItem,
+  run: vscode.TestRun,
+  lineNumber?: FeatureLines,
+  exampleLine?: number,
+  onStepUpdate?: (step: StepResult) => void,
+  tagExpression?: string
+): Promise<number> {
+  // ⭐ v25: Use Maven Surefire Debug Mode
+  // Maven handles all classpath, dependencies, and Spring configuration correctly
+  logToExtension('=== v25 DEBUG MODE: Maven Surefire Debug ===', 'INFO');
+  
+  const workspaceFolder = vscode.workspace.getWorkspaceFolder(uri);
+  if (!workspaceFolder) {
+    vscode.window.showErrorMessage('Feature file is not inside a workspace.');
+    return 1;
+  }
+
+  const workspaceRoot = workspaceFolder.uri.fsPath;
+  const config = vscode.workspace.getConfiguration('cucumberJavaEasyRunner');
+
+  // 1. Check breakpoints
+  const allBreakpoints = vscode.debug.breakpoints;
+  logToExtension(`Total breakpoints in workspace: ${allBreakpoints.length}`, 'INFO');
+  
+  if (allBreakpoints.length > 0) {
+    logToExtension('Breakpoints details:', 'DEBUG');
+    allBreakpoints.forEach((bp, index) => {
+      if (bp instanceof vscode.SourceBreakpoint) {
+        logToExtension(`  [${index}] ${bp.location.uri.fsPath}:${bp.location.range.start.line + 1} - Enabled: ${bp.enabled}`, 'DEBUG');
+      }
+    });
+  } else {
+    logToExtension('⚠️ WARNING: No breakpoints detected in workspace!', 'WARN');
+    vscode.window.showWarningMessage('No breakpoints set. Set breakpoints in your step definitions before debugging.');
+  }
+
+  try {
+    // 2. Find Maven module and test class
+    const moduleInfo = findMavenModule(uri.fsPath, workspaceRoot);
+    const relativePath = path.relative(workspaceRoot, uri.fsPath);
+
+    const configuredTestClass = config.get<string>('testClassName', '');
+    let testClassName: string = configuredTestClass;
+
+    if (!testClassName) {
+      // ⭐ v25: Try smart detection from feature file first
+      const smartDetected = await findCucumberTestClassFromFeature(moduleInfo.modulePath, uri.fsPath);
+      
+      if (smartDetected) {
+        testClassName = smartDetected;
+        logToExtension(`⭐ v25: Smart detection selected test class: ${testClassName}`, 'INFO');
+      } else {
+        // Fallback to old method
+        const autoDetectedClass = await findCucumberTestClass(moduleInfo.modulePath);
+        if (!autoDetectedClass) {
+          const userInput = await vscode.window.showInputBox({
+            prompt: 'Enter test class name (e.g., MktSegmentCriteriaUpdateTest)',
+            placeHolder: 'MktSegmentCriteriaUpdateTest'
+          });
+
+          if (!userInput) {
+            vscode.window.showErrorMessage('Test class name not specified, operation cancelled.');
+            return 1;
+          }
+          testClassName = userInput;
+        } else {
+          testClassName = autoDetectedClass;
+        }
+      }
+    }
+
+    // 3. Extract Maven artifactId as project name
+    let projectName: string | undefined;
+    const pomPath = path.join(moduleInfo.modulePath, 'pom.xml');
+    if (fs.existsSync(pomPath)) {
+      const artifactId = await extractMavenArtifactId(pomPath);
+      if (artifactId) {
+        projectName = artifactId;
+        logToExtension(`Maven artifactId: ${projectName}`, 'DEBUG');
+      }
+    }
+
+    if (!projectName) {
+      projectName = path.basename(moduleInfo.modulePath);
+    }
+
+    // 5. ⭐ v26: Execute using UNIFIED function (DEBUG mode = isDebug:true)
+    logToExtension('⭐ v26: Executing test using UNIFIED function with DEBUG mode...', 'INFO');
+
+    // Remember undefined steps and their snippets for "Generate Step Definitions"
+    const recorder = recordUndefinedSteps(uri, onStepUpdate, (data: any) => run.appendOutput(data, undefined, testItem));
+    let exitCode: number;
+    try {
+      exitCode = await runCucumberTestWithMavenUnified(
+        workspaceRoot,
+        workspaceFolder,
+        moduleInfo,
+        path.relative(workspaceRoot, uri.fsPath), // relativePath
+        testClassName,
+        true, // ⭐ isDebug = true for DEBUG mode
+        lineNumber,
+        exampleLine,
+        projectName,
+        recorder.onOutput,
+        recorder.onStepUpdate,
+        undefined, // featureSelections
+        tagExpression
+      );
+    } finally {
+      recorder.finish();
+    }
+
+    logToExtension(`v26 UNIFIED (DEBUG) completed with exit code: ${exitCode}`, 'INFO');
+    return exitCode;
+
+  } catch (error: any) {
+    logToExtension(`v25 Debug mode error: ${error.message}`, 'ERROR');
+    
+    const shouldContinue = await handleDebugError(error);
+    if (shouldContinue) {
+      logToExtension('Falling back to normal run mode', 'WARN');
+      return await runSelectedTestAndWait(
+        uri,
+        lineNumber,
+        exampleLine,
+        (data) => run.appendOutput(data, undefined, testItem),
+        onStepUpdate,
+        tagExpression
+      );
+    }
+
+    return 1;
+  }
+}
+
+/**
+ * v16-v22: OLD Attach Mode implementation (DEPRECATED)
+ * Kept for reference, but no longer used
+ * 
+ * @deprecated Use runSelectedTestInDebugMode (v23) instead
+ */
+async function runSelectedTestInDebugModeAttachV22(
+  uri: vscode.Uri,
+  testItem: vscode.TestItem,
+  run: vscode.TestRun,
+  lineNumber?: number,
+  exampleLine?: number,
+  onStepUpdate?: (step: StepResult) => void
+): Promise<number> {
+  logToExtension('=== DEBUG MODE: Starting debug test execution ===', 'INFO');
+  
+  // 1. Check current breakpoints
+  const allBreakpoints = vscode.debug.breakpoints;
+  logToExtension(`Total breakpoints in workspace: ${allBreakpoints.length}`, 'INFO');
+  
+  if (allBreakpoints.length > 0) {
+    logToExtension('Breakpoints details:', 'DEBUG');
+    allBreakpoints.forEach((bp, index) => {
+      if (bp instanceof vscode.SourceBreakpoint) {
+        logToExtension(`  [${index}] ${bp.location.uri.fsPath}:${bp.location.range.start.line + 1} - Enabled: ${bp.enabled}`, 'DEBUG');
+      }
+    });
+  } else {
+    logToExtension('⚠️ WARNING: No breakpoints detected in workspace!', 'WARN');
+    vscode.window.showWarningMessage('No breakpoints set. Set breakpoints in your step definitions before debugging.');
+  }
+  
+  const workspaceFolder = vscode.workspace.getWorkspaceFolder(uri);
+  if (!workspaceFolder) {
+    vscode.window.showErrorMessage('Feature file is not inside a workspace.');
+    return 1;
+  }
+
+  const workspaceRoot = workspaceFolder.uri.fsPath;
+
+  // Get configuration
+  const config = vscode.workspace.getConfiguration('cucumberJavaEasyRunner');
+  const executionMode = config.get<string>('executionMode', 'java');
+
+  // Currently only Maven mode supports debug
+  if (executionMode !== 'maven') {
+    const action = await vscode.window.showWarningMessage(
+      'Debug mode currently only supports Maven execution mode. Switch to Maven mode?',
+      'Switch to Maven',
+      'Cancel'
+    );
+
+    if (action === 'Switch to Maven') {
+      await config.update('executionMode', 'maven', vscode.ConfigurationTarget.Workspace);
+      vscode.window.showInformationMessage('Switched to Maven mode. Please try debugging again.');
+    }
+    return 1;
+  }
+
+  let debugPort: number | undefined;
+  let debugSession: vscode.DebugSession | undefined;
+
+  try {
+    // ⭐ v21: Always use attach mode (launch mode has mainClass issues with Cucumber)
+    // Provide clear guidance about JaCoCo conflicts
+    const debugConfig = vscode.workspace.getConfiguration('cucumberJavaEasyRunner.debug');
+    const userRequestMode = debugConfig.get<string>('requestMode', 'attach');
+    
+    // v21: Force attach mode and warn about JaCoCo if needed
+    const debugRequestMode = 'attach';
+    
+    if (userRequestMode === 'launch') {
+      logToExtension(`⚠️ v21: launch mode not supported for Cucumber, using attach mode`, 'WARN');
+    }
+    
+  logToExtension(`🎯 v22: Using debug request mode: ${debugRequestMode}`, 'INFO');
+  logToExtension(`⚠️ v22: Using MAVEN_OPTS for JDWP (bypasses pom.xml argLine issues)`, 'WARN');
+  logToExtension(`   MAVEN_OPTS is inherited by Surefire fork, works regardless of pom.xml config`, 'INFO');    // 2. Find Maven module and test class (common for both modes)
+    const moduleInfo = findMavenModule(uri.fsPath, workspaceRoot);
+    const relativePath = path.relative(workspaceRoot, uri.fsPath);
+
+    const configuredTestClass = config.get<string>('testClassName', '');
+    let testClassName: string = configuredTestClass;
+
+    if (!testClassName) {
+      const autoDetectedClass = await findCucumberTestClass(moduleInfo.modulePath);
+      if (!autoDetectedClass) {
+        const userInput = await vscode.window.showInputBox({
+          prompt: 'Enter test class name (e.g., MktSegmentCriteriaUpdateTest)',
+          placeHolder: 'MktSegmentCriteriaUpdateTest'
+        });
+
+        if (!userInput) {
+          vscode.window.showErrorMessage('Test class name not specified, operation cancelled.');
+          return 1;
+        }
+        testClassName = userInput;
+      } else {
+        testClassName = autoDetectedClass;
+      }
+    }
+    
+    // ⭐ v24: Removed hardcoded sourcePaths logic
+    // Source paths will be auto-detected by v24 mechanism when needed
+    // (Currently only used in Launch Mode, not in Attach Mode below)
+    
+    // Extract Maven artifactId as project name for accurate debugging (common for both modes)
+    let projectName: string | undefined;
+    const pomPath = path.join(moduleInfo.modulePath, 'pom.xml');
+    if (fs.existsSync(pomPath)) {
+      const artifactId = await extractMavenArtifactId(pomPath);
+      if (artifactId) {
+        projectName = artifactId;
+        logToExtension(`Extracted Maven artifactId as projectName: ${projectName}`, 'DEBUG');
+      } else {
+        logToExtension(`Failed to extract artifactId from ${pomPath}, will use fallback`, 'WARN');
+      }
+    } else {
+      logToExtension(`pom.xml not found at ${pomPath}, using fallback projectName`, 'DEBUG');
+    }
+    
+    // Fallback to module folder name if extraction fails
+    if (!projectName) {
+      projectName = path.basename(moduleInfo.modulePath);
+      logToExtension(`Using module folder name as projectName: ${projectName}`, 'DEBUG');
+    }
+    
+    // ⭐ v21: Only attach mode supported (launch mode has Cucumber mainClass issues)
+    // Direct to attach mode implementation
+    {
+      // ═══════════════════════════════════════════════════════════════════════
+      // ⭐ v12: ATTACH MODE - Spawn Maven then attach debugger
+      // ═══════════════════════════════════════════════════════════════════════
+      
+      // 1. Allocate debug port
+      debugPort = await DebugPortManager.allocatePort(testItem.id);
+      logToExtension(`Allocated debug port: ${debugPort} for test: ${testItem.label}`, 'INFO');
+      
+      // Verify port is available
+      const net = require('net');
+      const portAvailable = await new Promise<boolean>((resolve) => {
+        const tester = net.createServer();
+        tester.once('error', () => resolve(false));
+        tester.once('listening', () => {
+          tester.close();
+          resolve(true);
+        });
+        tester.listen(debugPort, '127.0.0.1');
+      });
+      logToExtension(`Port ${debugPort} is ${portAvailable ? 'AVAILABLE ✓' : 'IN USE ✗'}`, portAvailable ? 'INFO' : 'ERROR');
+      
+      // 2. Start Maven with JDWP debug parameters
+      logToExtension(`Starting Maven in debug mode on port ${debugPort}`, 'INFO');
+
+      const mavenProcess = await runCucumberTestWithMavenDebug(
+        workspaceRoot,
+        moduleInfo,
+        relativePath,
+        testClassName,
+        debugPort,
+        lineNumber,
+        exampleLine,
+        (data: string) => run.appendOutput(data, undefined, testItem),
+        onStepUpdate
+      );
+
+      // ⭐ v19: Wait for Surefire to start test JVM (not Maven main JVM)
+      // In v19, MAVEN_OPTS doesn't have JDWP, only -DargLine does
+      // So we need to wait for Surefire's forked JVM to output "Listening for transport"
+      await waitForDebugServerWithProgress(mavenProcess, debugPort, testItem.label);
+
+      // 4. Attach debugger
+      logToExtension('Attaching debugger...', 'INFO');
+      logToExtension('⭐ v12: Actively resolving classpath via Java Language Server...', 'INFO');
+      
+      let classPaths: string[] | undefined;
+      try {
+        // 需要取得 test class 的 fully qualified name
+        // 從 testClassName (e.g., "TagClassAdminCrudTest") 找出完整的 class name
+        const testClassFqn = await findTestClassFqn(moduleInfo.modulePath, testClassName);
+        
+        if (testClassFqn) {
+          logToExtension(`Resolving classpath for mainClass: ${testClassFqn}, projectName: ${projectName}`, 'DEBUG');
+          
+          // 呼叫 Java Extension 的 resolveClasspath command
+          const result = await vscode.commands.executeCommand<[string[], string[]]>(
+            'vscode.java.resolveClasspath',
+            testClassFqn,
+            projectName
+          );
+          
+          if (result && result[1]) {
+            classPaths = result[1];
+            logToExtension(`✓ Resolved ${classPaths.length} classpaths from Java Language Server`, 'INFO');
+            logToExtension(`First 3 classpaths: ${classPaths.slice(0, 3).join(', ')}`, 'DEBUG');
+          } else {
+            logToExtension('⚠️ resolveClasspath returned no classpaths, will use undefined', 'WARN');
+          }
+        } else {
+          logToExtension(`⚠️ Could not find fully qualified name for ${testClassName}, using undefined classPaths`, 'WARN');
+        }
+      } catch (error: any) {
+        logToExtension(`⚠️ Error resolving classpath: ${error.message}, will use undefined`, 'WARN');
+      }
+      
+      debugSession = await startDebugSession(
+        workspaceFolder,
+        debugPort,
+        testItem.label,
+        run,
+        undefined, // ⭐ v24: Let debug-integration handle sourcePaths
+        projectName,
+        classPaths,  // ⭐ v12: 傳入主動解析的 classPaths!
+        (message: string, level?: string) => {
+          const validLevel = (level === 'DEBUG' || level === 'INFO' || level === 'WARN' || level === 'ERROR') ? level : 'INFO';
+          logToExtension(message, validLevel);
+        }
+      );
+
+      if (debugSession) {
+        logToExtension(`✓ Debug session started: ${debugSession.id}`, 'INFO');
+        logToExtension(`  Session name: ${debugSession.name}`, 'DEBUG');
+        logToExtension(`  Session type: ${debugSession.type}`, 'DEBUG');
+        logToExtension(`  Port: ${debugPort}`, 'DEBUG');
+        
+        // ⭐ v16: Wait for breakpoints to bind before continuing
+        logToExtension(`⭐ v16: Waiting for breakpoints to bind...`, 'INFO');
+        await new Promise(resolve => setTimeout(resolve, 2000));  // Give debugger time to bind breakpoints
+        
+        // Re-check breakpoints after session start
+        const currentBps = vscode.debug.breakpoints;
+        logToExtension(`Active breakpoints after debug session start: ${currentBps.length}`, 'INFO');
+        
+        // ⭐ v16: Log breakpoint binding status
+        const sourceBps = currentBps.filter(bp => bp instanceof vscode.SourceBreakpoint) as vscode.SourceBreakpoint[];
+        if (sourceBps.length > 0) {
+          logToExtension(`⭐ v16: ${sourceBps.length} source breakpoints detected`, 'INFO');
+          sourceBps.slice(0, 5).forEach((bp, index) => {
+            const file = path.basename(bp.location.uri.fsPath);
+            const line = bp.location.range.start.line + 1;
+            logToExtension(`  [${index + 1}] ${file}:${line} - ${bp.enabled ? 'Enabled' : 'Disabled'}`, 'DEBUG');
+          });
+        } else {
+          logToExtension(`⚠️ v16: No source breakpoints found! Debug may not stop.`, 'WARN');
+        }
+        
+        logToExtension(`💡 Debug Session Tips:`, 'INFO');
+        logToExtension(`  • Breakpoints must be in .java files (step definitions)`, 'INFO');
+        logToExtension(`  • Source paths will be auto-detected by debugger`, 'INFO');
+        logToExtension(`  • Test execution will now proceed with debugger attached`, 'INFO');
+        
+        // ⭐ v18: CRITICAL FIX - Resume JVM after breakpoint binding
+        // Problem: suspend=y pauses JVM, but v16/v17 never sent continue command
+        // Result: JVM hangs forever, test never executes
+        try {
+          logToExtension(`⭐ v18: Sending continue command to resume JVM...`, 'INFO');
+          await debugSession.customRequest('continue');
+          logToExtension(`✓ v18: JVM resumed successfully`, 'INFO');
+        } catch (error: any) {
+          logToExtension(`⚠️ v18: Failed to resume JVM: ${error.message}`, 'WARN');
+          logToExtension(`  The debugger may not support 'continue' request`, 'WARN');
+        }
+        
+        vscode.window.showInformationMessage(
+          `Debugger attached to ${testItem.label} on port ${debugPort}`
+        );
+      } else {
+        logToExtension('⚠️ WARNING: Debug session started but not active!', 'WARN');
+      }
+
+      // 6. Wait for process to complete
+      const exitCode = await new Promise<number>((resolve) => {
+        mavenProcess.on('close', (code: number | null) => {
+          resolve(typeof code === 'number' ? code : 1);
+        });
+      });
+
+      logToExtension(`Maven process exited with code: ${exitCode}`, 'INFO');
+      return exitCode;
+    }  // End of attach mode branch
+
+  } catch (error: any) {
+    logToExtension(`Debug mode error: ${error.message}`, 'ERROR');
+
+    // Handle error and offer fallback
+    const shouldContinue = await handleDebugError(error);
+
+    if (shouldContinue) {
+      // Fallback to normal run mode
+      logToExtension('Falling back to normal run mode', 'WARN');
+      return await runSelectedTestAndWait(
+        uri,
+        lineNumber,
+        exampleLine,
+        (data) => run.appendOutput(data, undefined, testItem),
+        onStepUpdate
+      );
+    }
+
+    return 1;
+
+  } finally {
+    // 7. Cleanup: release debug port
+    if (debugPort) {
+      DebugPortManager.releasePort(debugPort);
+      logToExtension(`Released debug port: ${debugPort}`, 'INFO');
+    }
+  }
+}
+
+/**
+ * Finds the scenario at the given line number (0-indexed editor line)
+ */
+function findScenarioAtLine(document: vscode.TextDocument, line: number): ScenarioInfo | null {
+  const gherkinDocument = getGherkinDocument(document);
+  if (!gherkinDocument.feature) {
+    return null;
+  }
+
+  // The scenario containing the line, or else the closest one above it (e.g. on a blank line after it)
+  const scenario = getScenarioAtLine(gherkinDocument, line + 1) ??
+    getScenarios(gherkinDocument.feature).filter(candidate => candidate.location.line <= line + 1).pop();
+  if (scenario) {
+    return { name: scenario.name, lineNumber: scenario.location.line }; // 1-indexed line number for Cucumber
+  }
+
+  // Above the first scenario: run the entire feature
+  return { name: 'feature', lineNumber: 0 }; // 0 means entire feature
+}
+
+/**
+ * Finds the example row at the given line number (0-indexed editor line)
+ */
+function findExampleAtLine(document: vscode.TextDocument, line: number): ScenarioInfo | null {
+  const match = getExamplesRowAtLine(getGherkinDocument(document), line + 1);
+  if (!match) {
+    console.log(`Debug: Line ${line} is not an Examples data row`);
+    return null;
+  }
 
-      // 4. Attach debugger
-      logToExtension('Attaching debugger...', 'INFO');
-      logToExtension('⭐ v12: Actively resolving classpath via Java Language Server...', 'INFO');
+  // Note: Cucumber's expected format: feature:scenario_line:example_line
+  return {
+    name: 'example',
+    lineNumber: match.scenario.location.line,
+    exampleLineNumber: match.row.location.line
+  };
+}
+
+/**
+ * Finds the nearest Maven module by searching upwards for pom.xml from the feature file
+ */
+function findMavenModule(featureFilePath: string, workspaceRoot: string): ModuleInfo {
+  let currentDir = path.dirname(featureFilePath);
+
+  // Search upwards for pom.xml
+  while (currentDir.startsWith(workspaceRoot)) {
+    const pomPath = path.join(currentDir, 'pom.xml');
+
+    if (fs.existsSync(pomPath)) {
+      // Found a pom.xml, this is our module
+      const moduleRelativePath = path.relative(workspaceRoot, currentDir);
+
+      return {
+        modulePath: currentDir,
+        moduleRelativePath: moduleRelativePath || '.',
+        workspaceRoot: workspaceRoot
+      };
+    }
+
+    // Move up one directory
+    const parentDir = path.dirname(currentDir);
+    if (parentDir === currentDir) {
+      // Reached the root
+      break;
+    }
+    currentDir = parentDir;
+  }
+
+  // No pom.xml found, use workspace root as module
+  return {
+    modulePath: workspaceRoot,
+    moduleRelativePath: '.',
+    workspaceRoot: workspaceRoot
+  };
+}
+
+/**
+ * Finds the steps directories in the project and converts to Java package structure
+ */
+async function findGluePath(projectRoot: string): Promise<string | null> {
+  // In Maven projects, test code is usually in src/test/java
+  const testDir = path.join(projectRoot, 'src', 'test', 'java');
+
+  if (!fs.existsSync(testDir)) {
+    return null;
+  }
+
+  // Recursively search for steps directories
+  const stepsDir = await findStepsDir(testDir);
+
+  if (!stepsDir) {
+    return null;
+  }
+
+  // Create the Java package name for the steps directory
+  // src/test/java/org/example/steps -> org.example.steps
+  const packagePath = path.relative(testDir, stepsDir).replace(/\\/g, '/').replace(/\//g, '.');
+
+  return packagePath;
+}
+
+/**
+ * Finds Cucumber test class names in the module
+ */
+
+/**
+ * v23.3: Extract tags from Feature file
+ * 
+ * Parses Feature file and extracts all @tag annotations
+ * Tags can appear at Feature level or Scenario level
+ * 
+ * Example Feature file:
+ * ```
+ * @mkt_segment_criteria_update_test
+ * @integration
+ * Feature: MKT05A06R01-MktSegment-Criteria 更新邏輯驗證
+ * 
+ *   @smoke
+ *   Scenario: 01 - [創建新 segment]
+ * ```
+ * 
+ * @param featureFilePath - Absolute path to .feature file
+ * @returns Array of tag names (without @ prefix)
+ */
+async function extractTagsFromFeature(featureFilePath: string): Promise<string[]> {
+  try {
+    if (!fs.existsSync(featureFilePath)) {
+      logToExtension(`[v23.3] Feature file not found: ${featureFilePath}`, 'WARN');
+      return [];
+    }
+
+    // Check cache first
+    const stats = fs.statSync(featureFilePath);
+    const currentMtime = stats.mtimeMs;
+    
+    if (tagCache[featureFilePath] && tagCache[featureFilePath].mtime === currentMtime) {
+      logToExtension(`[v23.3] Using cached tags for feature (${tagCache[featureFilePath].tags.length} tags)`, 'DEBUG');
+      return tagCache[featureFilePath].tags;
+    }
+
+    const content = fs.readFileSync(featureFilePath, 'utf8');
+    const tags: string[] = [];
+
+    // Extract tags from Feature level (the tags above the Feature keyword of the file's language)
+    const feature = parseGherkin(content).feature;
+    for (const tag of feature ? feature.tags : []) {
+      const tagName = tag.name.substring(1); // Remove @ prefix
+      if (!tags.includes(tagName)) {
+        tags.push(tagName);
+      }
+    }
+
+    // Update cache
+    tagCache[featureFilePath] = {
+      tags: tags,
+      mtime: currentMtime
+    };
+
+    logToExtension(`[v23.3] Extracted ${tags.length} tags from feature: ${tags.join(', ')}`, 'DEBUG');
+    return tags;
+
+  } catch (error: any) {
+    logToExtension(`[v23.3] Error extracting tags from feature: ${error.message}`, 'ERROR');
+    return [];
+  }
+}
+
+/**
+ * v23.3: Extract tags from Test Class file
+ * 
+ * Parses Java test class and extracts tags from:
+ * 1. @ConfigurationParameter (Cucumber 7+, highest priority)
+ * 2. @CucumberOptions (Legacy support)
+ * 
+ * Pattern 1 - @ConfigurationParameter (v23.3 NEW):
+ * ```java
+ * @ConfigurationParameter(
+ *     key = Constants.FILTER_TAGS_PROPERTY_NAME,
+ *     value = "@mkt_segment_criteria_update_test")
+ * 
+ * @ConfigurationParameter(
+ *     key = Constants.FILTER_TAGS_PROPERTY_NAME,
+ *     value = "@tag1 or @tag2 or @tag3")
+ * ```
+ * 
+ * Pattern 2 - @CucumberOptions (Legacy):
+ * ```java
+ * @CucumberOptions(tags = "@mkt_segment_criteria_update_test")
+ * @CucumberOptions(tags = {"@tag1", "@tag2"})
+ * ```
+ * 
+ * @param testClassPath - Absolute path to *Test.java file
+ * @returns Array of tag names (without @ prefix)
+ */
+async function extractTagsFromTestClass(testClassPath: string): Promise<string[]> {
+  try {
+    if (!fs.existsSync(testClassPath)) {
+      logToExtension(`[v23.3] Test class not found: ${testClassPath}`, 'DEBUG');
+      return [];
+    }
+
+    // Check cache first
+    const stats = fs.statSync(testClassPath);
+    const currentMtime = stats.mtimeMs;
+    
+    if (tagCache[testClassPath] && tagCache[testClassPath].mtime === currentMtime) {
+      return tagCache[testClassPath].tags;
+    }
+
+    const content = fs.readFileSync(testClassPath, 'utf8');
+    const tags: string[] = [];
+
+    // ⭐ Priority 1: @ConfigurationParameter (Cucumber 7+)
+    // Pattern: @ConfigurationParameter(key = Constants.FILTER_TAGS_PROPERTY_NAME, value = "...")
+    // Multi-line support with string concatenation:
+    //   @ConfigurationParameter(
+    //       key = Constants.FILTER_TAGS_PROPERTY_NAME,
+    //       value = "@tag1 or @tag2"
+    //               + " or @tag3")
+    
+    // Strategy: Find the entire annotation block, then extract all @tag patterns
+    const configParamRegex = /@ConfigurationParameter\s*\(\s*key\s*=\s*(?:Constants\.)?FILTER_TAGS_PROPERTY_NAME\s*,\s*value\s*=\s*([^)]+)\)/gs;
+    let configMatch;
+    
+    while ((configMatch = configParamRegex.exec(content)) !== null) {
+      const valueBlock = configMatch[1];
       
-      let classPaths: string[] | undefined;
-      try {
-        // 需要取得 test class 的 fully qualified name
-        // 從 testClassName (e.g., "TagClassAdminCrudTest") 找出完整的 class name
-        const testClassFqn = await findTestClassFqn(moduleInfo.modulePath, testClassName);
-        
-        if (testClassFqn) {
-          logToExtension(`Resolving classpath for mainClass: ${testClassFqn}, projectName: ${projectName}`, 'DEBUG');
-          
-          // 呼叫 Java Extension 的 resolveClasspath command
-          const result = await vscode.commands.executeCommand<[string[], string[]]>(
-            'vscode.java.resolveClasspath',
-            testClassFqn,
-            projectName
-          );
-          
-          if (result && result[1]) {
-            classPaths = result[1];
-            logToExtension(`✓ Resolved ${classPaths.length} classpaths from Java Language Server`, 'INFO');
-            logToExtension(`First 3 classpaths: ${classPaths.slice(0, 3).join(', ')}`, 'DEBUG');
-          } else {
-            logToExtension('⚠️ resolveClasspath returned no classpaths, will use undefined', 'WARN');
+      // Extract all @tag patterns from the entire value block
+      // This handles both simple strings and Java string concatenation (+ "...")
+      const tagMatches = valueBlock.match(/@[\w_]+/g);
+      
+      if (tagMatches) {
+        tagMatches.forEach(tag => {
+          const tagName = tag.substring(1); // Remove @ prefix
+          if (!tags.includes(tagName)) {
+            tags.push(tagName);
           }
-        } else {
-          logToExtension(`⚠️ Could not find fully qualified name for ${testClassName}, using undefined classPaths`, 'WARN');
-        }
-      } catch (error: any) {
-        logToExtension(`⚠️ Error resolving classpath: ${error.message}, will use undefined`, 'WARN');
+        });
       }
-      
-      debugSession = await startDebugSession(
-        workspaceFolder,
-        debugPort,
-        testItem.label,
-        run,
-        undefined, // ⭐ v24: Let debug-integration handle sourcePaths
-        projectName,
-        classPaths,  // ⭐ v12: 傳入主動解析的 classPaths!
-        (message: string, level?: string) => {
-          const validLevel = (level === 'DEBUG' || level === 'INFO' || level === 'WARN' || level === 'ERROR') ? level : 'INFO';
-          logToExtension(message, validLevel);
+    }
+
+    // JUnit Platform Suite: @IncludeTags("smoke") or @IncludeTags({"smoke", "fast"}), without the @ prefix
+    const includeTagsRegex = /@IncludeTags\s*\(\s*(?:value\s*=\s*)?(\{[^}]*\}|"[^"]*")\s*\)/g;
+    let includeMatch;
+
+    while ((includeMatch = includeTagsRegex.exec(content)) !== null) {
+      for (const literal of includeMatch[1].match(/"[^"]*"/g) || []) {
+        const tagName = literal.slice(1, -1).trim().replace(/^@/, '');
+        if (tagName && !tags.includes(tagName)) {
+          tags.push(tagName);
         }
-      );
+      }
+    }
 
-      if (debugSession) {
-        logToExtension(`✓ Debug session started: ${debugSession.id}`, 'INFO');
-        logToExtension(`  Session name: ${debugSession.name}`, 'DEBUG');
-        logToExtension(`  Session type: ${debugSession.type}`, 'DEBUG');
-        logToExtension(`  Port: ${debugPort}`, 'DEBUG');
-        
-        // ⭐ v16: Wait for breakpoints to bind before continuing
-        logToExtension(`⭐ v16: Waiting for breakpoints to bind...`, 'INFO');
-        await new Promise(resolve => setTimeout(resolve, 2000));  // Give debugger time to bind breakpoints
+    // ⭐ Priority 2: @CucumberOptions (Legacy support)
+    // Only search if no tags found from @ConfigurationParameter
+    if (tags.length === 0) {
+      const cucumberOptionsMatch = content.match(/@CucumberOptions\s*\([^)]*tags\s*=\s*([^)]+)\)/s);
+      
+      if (cucumberOptionsMatch) {
+        const tagsContent = cucumberOptionsMatch[1];
         
-        // Re-check breakpoints after session start
-        const currentBps = vscode.debug.breakpoints;
-        logToExtension(`Active breakpoints after debug session start: ${currentBps.length}`, 'INFO');
+        // Extract all @tag patterns
+        const tagMatches = tagsContent.match(/@[\w_]+/g);
         
-        // ⭐ v16: Log breakpoint binding status
-        const sourceBps = currentBps.filter(bp => bp instanceof vscode.SourceBreakpoint) as vscode.SourceBreakpoint[];
-        if (sourceBps.length > 0) {
-          logToExtension(`⭐ v16: ${sourceBps.length} source breakpoints detected`, 'INFO');
-          sourceBps.slice(0, 5).forEach((bp, index) => {
-            const file = path.basename(bp.location.uri.fsPath);
-            const line = bp.location.range.start.line + 1;
-            logToExtension(`  [${index + 1}] ${file}:${line} - ${bp.enabled ? 'Enabled' : 'Disabled'}`, 'DEBUG');
+        if (tagMatches) {
+          tagMatches.forEach(tag => {
+            const tagName = tag.substring(1); // Remove @ prefix
+            if (!tags.includes(tagName)) {
+              tags.push(tagName);
+            }
           });
-        } else {
-          logToExtension(`⚠️ v16: No source breakpoints found! Debug may not stop.`, 'WARN');
         }
+      }
+    }
+
+    // Update cache
+    tagCache[testClassPath] = {
+      tags: tags,
+      mtime: currentMtime
+    };
+
+    logToExtension(`[v23.3] Extracted ${tags.length} tags from test class ${path.basename(testClassPath)}: ${tags.join(', ')}`, 'DEBUG');
+    return tags;
+
+  } catch (error: any) {
+    logToExtension(`[v23.3] Error extracting tags from test class: ${error.message}`, 'ERROR');
+    return [];
+  }
+}
+
+/**
+ * v23.3.1: Extract glue package from Test Class file
+ * 
+ * Parses Java test class and extracts glue package from @ConfigurationParameter
+ * 
+ * Pattern:
+ * ```java
+ * @ConfigurationParameter(
+ *     key = Constants.GLUE_PROPERTY_NAME,
+ *     value = "tw.datahunter.spring.system")
+ * ```
+ * 
+ * @param testClassPath - Absolute path to *Test.java file
+ * @returns Glue package string or null if not found
+ */
+async function extractGluePackageFromTestClass(testClassPath: string): Promise<string | null> {
+  try {
+    if (!fs.existsSync(testClassPath)) {
+      logToExtension(`[v23.3.1] Test class not found: ${testClassPath}`, 'DEBUG');
+      return null;
+    }
+
+    const content = fs.readFileSync(testClassPath, 'utf8');
+
+    // Pattern: @ConfigurationParameter(key = Constants.GLUE_PROPERTY_NAME, value = "package.name")
+    // Match entire annotation block until closing )
+    const glueParamRegex = /@ConfigurationParameter\s*\(\s*key\s*=\s*Constants\.GLUE_PROPERTY_NAME\s*,\s*value\s*=\s*"([^"]+)"/gs;
+    const match = glueParamRegex.exec(content);
+    
+    if (match && match[1]) {
+      const gluePackage = match[1].trim();
+      logToExtension(`[v23.3.1] Extracted glue package from @ConfigurationParameter: ${gluePackage}`, 'DEBUG');
+      return gluePackage;
+    }
+
+    logToExtension(`[v23.3.1] No glue package found in @ConfigurationParameter`, 'DEBUG');
+    return null;
+
+  } catch (error: any) {
+    logToExtension(`[v23.3.1] Error extracting glue package: ${error.message}`, 'ERROR');
+    return null;
+  }
+}
+
+/**
+ * v23.3: Match test class by tag comparison
+ * 
+ * Finds test class that has matching tags with the feature file
+ * Uses tag intersection to find best match
+ * 
+ * Strategy:
+ * 1. Extract tags from feature file
+ * 2. Search all *Test.java files in test directory
+ * 3. Extract tags from each test class (@ConfigurationParameter or @CucumberOptions)
+ * 4. Find test class with maximum tag overlap
+ * 
+ * @param modulePath - Path to Maven module
+ * @param featureFilePath - Path to feature file
+ * @returns Test class name if found, null otherwise
+ */
+async function matchTestClassByTag(
+  modulePath: string,
+  featureFilePath: string
+): Promise<string | null> {
+  try {
+    // Step 1: Extract tags from feature file
+    const featureTags = await extractTagsFromFeature(featureFilePath);
+    
+    if (featureTags.length === 0) {
+      logToExtension(`[v23.3] No tags found in feature file, skipping tag-based matching`, 'DEBUG');
+      return null;
+    }
+
+    logToExtension(`[v23.3] Feature tags: [${featureTags.join(', ')}]`, 'INFO');
+
+    // Step 2: Find all test classes
+    const testDir = path.join(modulePath, 'src', 'test', 'java');
+    if (!fs.existsSync(testDir)) {
+      logToExtension(`[v23.3] Test directory not found: ${testDir}`, 'WARN');
+      return null;
+    }
+
+    const pattern = path.join(testDir, '**', '*Test.java');
+    const testFiles = glob.sync(pattern, { nodir: true });
+
+    if (testFiles.length === 0) {
+      logToExtension(`[v23.3] No test files found in ${testDir}`, 'WARN');
+      return null;
+    }
+
+    logToExtension(`[v23.3] Searching ${testFiles.length} test files for tag match...`, 'DEBUG');
+
+    // Step 3: Find best matching test class
+    let bestMatch: { file: string; score: number } | null = null;
+
+    for (const testFile of testFiles) {
+      const testTags = await extractTagsFromTestClass(testFile);
+      
+      if (testTags.length === 0) {
+        continue;
+      }
+
+      // Calculate intersection score
+      const intersection = featureTags.filter(tag => testTags.includes(tag));
+      const score = intersection.length;
+
+      if (score > 0) {
+        logToExtension(`[v23.3] Match found: ${path.basename(testFile)} - ${score} common tags: [${intersection.join(', ')}]`, 'DEBUG');
         
-        logToExtension(`💡 Debug Session Tips:`, 'INFO');
-        logToExtension(`  • Breakpoints must be in .java files (step definitions)`, 'INFO');
-        logToExtension(`  • Source paths will be auto-detected by debugger`, 'INFO');
-        logToExtension(`  • Test execution will now proceed with debugger attached`, 'INFO');
-        
-        // ⭐ v18: CRITICAL FIX - Resume JVM after breakpoint binding
-        // Problem: suspend=y pauses JVM, but v16/v17 never sent continue command
-        // Result: JVM hangs forever, test never executes
-        try {
-          logToExtension(`⭐ v18: Sending continue command to resume JVM...`, 'INFO');
-          await debugSession.customRequest('continue');
-          logToExtension(`✓ v18: JVM resumed successfully`, 'INFO');
-        } catch (error: any) {
-          logToExtension(`⚠️ v18: Failed to resume JVM: ${error.message}`, 'WARN');
-          logToExtension(`  The debugger may not support 'continue' request`, 'WARN');
+        if (!bestMatch || score > bestMatch.score) {
+          bestMatch = { file: testFile, score };
         }
-        
-        vscode.window.showInformationMessage(
-          `Debugger attached to ${testItem.label} on port ${debugPort}`
-        );
-      } else {
-        logToExtension('⚠️ WARNING: Debug session started but not active!', 'WARN');
       }
+    }
+
+    // Step 4: Return best match
+    if (bestMatch) {
+      const className = path.basename(bestMatch.file, '.java');
+      logToExtension(`[v23.3] ⭐ Tag-based match selected: ${className} (score: ${bestMatch.score})`, 'INFO');
+      return className;
+    }
+
+    logToExtension(`[v23.3] No test class found with matching tags`, 'DEBUG');
+    return null;
+
+  } catch (error: any) {
+    logToExtension(`[v23.3] Error in tag-based matching: ${error.message}`, 'ERROR');
+    return null;
+  }
+}
+
+/**
+ * v23.3: Smart detection - infer test class from feature file
+ * 
+ * Three-layer strategy:
+ * 1. Tag-based matching (v23.3 with @ConfigurationParameter) - Most accurate
+ * 2. Folder code matching (v23.1) - Structural matching
+ * 3. Filename similarity (v23.0) - Fallback
+ * 
+ * Example:
+ * Feature: .../MKT05A06R01-mktSegment_CriteriaUpdate.feature
+ *   @mkt_segment_criteria_update_test
+ * → Test Class: .../MKT05A06/MktSegmentCriteriaUpdateTest.java
+ *   @ConfigurationParameter(key = Constants.FILTER_TAGS_PROPERTY_NAME, 
+ *                          value = "@mkt_segment_criteria_update_test")
+ */
+async function findCucumberTestClassFromFeature(
+  modulePath: string,
+  featureFilePath: string
+): Promise<string | null> {
+  logToExtension(`[v23.3] === Smart Test Class Detection ===`, 'DEBUG');
+  logToExtension(`[v23.3] Feature: ${path.basename(featureFilePath)}`, 'DEBUG');
+
+  // ⭐ Strategy 1: Tag-based matching (v23.3 - Highest priority)
+  logToExtension(`[v23.3] Strategy 1: Tag-based matching...`, 'DEBUG');
+  const tagMatch = await matchTestClassByTag(modulePath, featureFilePath);
+  if (tagMatch) {
+    logToExtension(`[v23.3] ✓ Tag-based match found: ${tagMatch}`, 'INFO');
+    return tagMatch;
+  }
+
+  // Strategy 2: Folder code matching (v23.1 - Medium priority)
+  logToExtension(`[v23.3] Strategy 2: Folder code matching...`, 'DEBUG');
+  const featureFileName = path.basename(featureFilePath, '.feature');
+  
+  // Extract folder code pattern: MKT05A06R01-xxx → MKT05A06
+  // Pattern: [LETTERS][DIGITS][LETTERS][DIGITS] stops before R[DIGITS]
+  // MKT05A06R01 → MKT05A06 (stop before R01)
+  // MKT01R01 → MKT01 (stop before R01)
+  let folderCode = '';
+  const folderMatch = featureFileName.match(/^([A-Z]+\d+[A-Z]*\d*)(?=R\d+|-|$)/);
+  if (folderMatch) {
+    folderCode = folderMatch[1];
+  } else {
+    // Fallback: try simple pattern (all uppercase and digits until dash or R)
+    const simpleMatch = featureFileName.match(/^([A-Z0-9]+?)(?=R\d+|-)/);
+    if (simpleMatch) {
+      folderCode = simpleMatch[1];
+    }
+  }
+  
+  if (!folderCode) {
+    logToExtension(`[v23.3] Cannot extract folder code from feature: ${featureFileName}`, 'WARN');
+    return null;
+  }
+  
+  logToExtension(`[v23.3] Extracted folder code: ${folderCode} from ${featureFileName}`, 'DEBUG');
+  
+  // Search for test class in corresponding folder
+  const testDir = path.join(modulePath, 'src', 'test', 'java');
+  const expectedFolder = path.join(testDir, '**', folderCode);
+  
+  // Find all test classes in this folder
+  const pattern = path.join(testDir, '**', folderCode, '*Test.java');
+  
+  try {
+    const files = glob.sync(pattern, { nodir: true });
+    
+    if (files.length === 0) {
+      logToExtension(`[v23.3] No test class found in folder: ${folderCode}`, 'WARN');
+      return null;
+    }
+    
+    // Strategy 3: Filename similarity matching (v23.0 - Lowest priority)
+    logToExtension(`[v23.3] Strategy 3: Filename similarity matching...`, 'DEBUG');
+    const featureBaseName = featureFileName.replace(/^[A-Z0-9]+-/, ''); // Remove prefix
+    const preferredFile = files.find((f: string) => {
+      const fileName = path.basename(f, '.java');
+      return fileName.toLowerCase().includes(featureBaseName.toLowerCase().replace(/-/g, ''));
+    });
+    
+    const selectedFile = preferredFile || files[0];
+    const className = path.basename(selectedFile, '.java');
+    
+    logToExtension(`[v23.3] ✓ Folder + filename match found: ${className}`, 'INFO');
+    return className;
+    
+  } catch (error: any) {
+    logToExtension(`[v23.3] Error finding test class: ${error.message}`, 'ERROR');
+    return null;
+  }
+}
 
-      // 6. Wait for process to complete
-      const exitCode = await new Promise<number>((resolve) => {
-        mavenProcess.on('close', (code: number | null) => {
-          resolve(typeof code === 'number' ? code : 1);
-        });
-      });
+async function findCucumberTestClass(modulePath: string): Promise<string | null> {
+  const testDir = path.join(modulePath, 'src', 'test', 'java');
 
-      logToExtension(`Maven process exited with code: ${exitCode}`, 'INFO');
-      return exitCode;
-    }  // End of attach mode branch
+  if (!fs.existsSync(testDir)) {
+    return null;
+  }
 
-  } catch (error: any) {
-    logToExtension(`Debug mode error: ${error.message}`, 'ERROR');
+  // Search for test classes with Cucumber annotations
+  const testClass = await findTestClassWithCucumberAnnotations(testDir);
 
-    // Handle error and offer fallback
-    const shouldContinue = await handleDebugError(error);
+  return testClass;
+}
 
-    if (shouldContinue) {
-      // Fallback to normal run mode
-      logToExtension('Falling back to normal run mode', 'WARN');
-      return await runSelectedTestAndWait(
-        uri,
-        lineNumber,
-        exampleLine,
-        (data) => run.appendOutput(data, undefined, testItem),
-        onStepUpdate
-      );
-    }
+/**
+ * Finds the fully qualified name (FQN) of a test class
+ * @param modulePath - Path to the Maven module
+ * @param testClassName - Simple class name (e.g., "TagClassAdminCrudTest")
+ * @returns Fully qualified class name (e.g., "tw.datahunter.uc_api.bdd.TagClassAdminCrudTest") or null
+ */
+async function findTestClassFqn(modulePath: string, testClassName: string): Promise<string | null> {
+  const testDir = path.join(modulePath, 'src', 'test', 'java');
 
-    return 1;
+  if (!fs.existsSync(testDir)) {
+    logToExtension(`Test directory not found: ${testDir}`, 'WARN');
+    return null;
+  }
 
-  } finally {
-    // 7. Cleanup: release debug port
-    if (debugPort) {
-      DebugPortManager.releasePort(debugPort);
-      logToExtension(`Released debug port: ${debugPort}`, 'INFO');
-    }
+  // Recursively search for the test class file
+  const testClassPath = await findTestClassPath(testDir, testClassName);
+  
+  if (!testClassPath) {
+    logToExtension(`Test class file not found for: ${testClassName}`, 'WARN');
+    return null;
   }
+
+  // Convert file path to package name
+  // e.g., /path/to/src/test/java/tw/datahunter/uc_api/bdd/TagClassAdminCrudTest.java
+  //    -> tw.datahunter.uc_api.bdd.TagClassAdminCrudTest
+  const relativePath = path.relative(testDir, testClassPath);
+  const fqn = relativePath
+    .replace(/\\/g, '/')           // Normalize path separators
+    .replace(/\.java$/, '')        // Remove .java extension
+    .replace(/\//g, '.');          // Convert path to package notation
+  
+  logToExtension(`Found FQN for ${testClassName}: ${fqn}`, 'DEBUG');
+  return fqn;
 }
 
 /**
- * Finds the scenario at the given line number
+ * Recursively searches for a test class file by simple name
  */
-function findScenarioAtLine(document: vscode.TextDocument, line: number): ScenarioInfo | null {
-  const text = document.getText();
-  const lines = text.split('\n');
-
-  // Find the closest scenario heading from the line number backwards
-  for (let i = line; i >= 0; i--) {
-    const currentLine = lines[i].trim();
-    if (currentLine.startsWith('Scenario:') || currentLine.startsWith('Scenario Outline:')) {
-      const name = currentLine.substring(currentLine.indexOf(':') + 1).trim();
-      return { name, lineNumber: i + 1 }; // 1-indexed line number for Cucumber
+async function findTestClassPath(dir: string, className: string): Promise<string | null> {
+  const entries = fs.readdirSync(dir, { withFileTypes: true });
+  
+  for (const entry of entries) {
+    const fullPath = path.join(dir, entry.name);
+    
+    if (entry.isDirectory()) {
+      const result = await findTestClassPath(fullPath, className);
+      if (result) {
+        return result;
+      }
+    } else if (entry.name === `${className}.java`) {
+      return fullPath;
     }
   }
+  
+  return null;
+}
+
+/**
+ * Recursively searches for Java test classes with Cucumber annotations
+ */
+async function findTestClassWithCucumberAnnotations(dir: string): Promise<string | null> {
+  const entries = fs.readdirSync(dir, { withFileTypes: true });
+
+  for (const entry of entries) {
+    if (entry.isDirectory()) {
+      const result = await findTestClassWithCucumberAnnotations(path.join(dir, entry.name));
+      if (result) {
+        return result;
+      }
+    } else if (entry.name.endsWith('Test.java') || entry.name.endsWith('Runner.java')) {
+      const filePath = path.join(dir, entry.name);
+      const content = fs.readFileSync(filePath, 'utf8');
 
-  // Find the feature heading (if no scenario was found)
-  for (let i = 0; i < lines.length; i++) {
-    const currentLine = lines[i].trim();
-    if (currentLine.startsWith('Feature:')) {
-      return { name: 'feature', lineNumber: 0 }; // 0 means entire feature
+      // Check if this file contains Cucumber annotations
+      if (content.includes('@RunWith') || content.includes('@CucumberOptions') ||
+          content.includes('io.cucumber')) {
+        // Extract class name (without .java extension)
+        return entry.name.replace('.java', '');
+      }
     }
   }
 
@@ -2266,736 +5342,1096 @@ function findScenarioAtLine(document: vscode.TextDocument, line: number): Scenar
 }
 
 /**
- * Finds the example row at the given line number
+ * Recursively searches for the steps directory
  */
-function findExampleAtLine(document: vscode.TextDocument, line: number): ScenarioInfo | null {
-  try {
-    const text = document.getText();
-    const lines = text.split('\n');
-    
-    // Check the line content for debugging
-    const currentLineText = lines[line].trim();
-    console.log(`Debug: Current line (${line}): "${currentLineText}"`);
-    
-    // Check if the line starts with |
-    if (!currentLineText.startsWith('|')) {
-      console.log('Debug: Line does not start with |');
-      return null;
-    }
-    
-    // Find the Examples block
-    let examplesLine = -1;
-    let scenarioOutlineLine = -1;
-    let headerLine = -1;
+async function findStepsDir(dir: string): Promise<string | null> {
+  const entries = fs.readdirSync(dir, { withFileTypes: true });
+  
+  // First check if current directory is a steps folder
+  if (dir.endsWith('steps') || dir.endsWith('step')) {
+    // Check if it contains Java files directly
+    const hasJavaFiles = entries.some(entry => !entry.isDirectory() && entry.name.endsWith('.java'));
     
-    // First go backwards to find the Examples heading
-    for (let i = line; i >= 0; i--) {
-      const lineText = lines[i].trim();
-      console.log(`Debug: Backward line (${i}): "${lineText}"`);
+    // Check Java files in subdirectories
+    if (!hasJavaFiles) {
+      // Recursive inner function to check directories
+      const checkSubDirsForJavaFiles = (subDir: string): boolean => {
+        const subEntries = fs.readdirSync(subDir, { withFileTypes: true });
+        
+        // Does this subdirectory have Java files?
+        const hasDirectJavaFiles = subEntries.some(entry => !entry.isDirectory() && entry.name.endsWith('.java'));
+        if (hasDirectJavaFiles) {
+          return true;
+        }
+        
+        // Check deeper subdirectories if they exist
+        for (const entry of subEntries) {
+          if (entry.isDirectory()) {
+            const hasJavaInSubDir = checkSubDirsForJavaFiles(path.join(subDir, entry.name));
+            if (hasJavaInSubDir) {
+              return true;
+            }
+          }
+        }
+        
+        return false;
+      };
       
-      if (lineText.startsWith('Examples:')) {
-        examplesLine = i;
-        console.log(`Debug: Examples heading found, line: ${examplesLine}`);
-        break;
-      }
-    }
-    
-    if (examplesLine === -1) {
-      console.log('Debug: Examples heading not found');
-      return null;
-    }
-    
-    // The first line starting with | after the Examples heading is the header row
-    for (let i = examplesLine + 1; i < lines.length; i++) {
-      const lineText = lines[i].trim();
-      if (lineText.startsWith('|')) {
-        headerLine = i;
-        console.log(`Debug: Header row found, line: ${headerLine}`);
-        break;
+      // Accept this directory if subdirectories contain Java files
+      const hasJavaFilesInSubDirs = entries.some(entry => {
+        if (entry.isDirectory()) {
+          return checkSubDirsForJavaFiles(path.join(dir, entry.name));
+        }
+        return false;
+      });
+      
+      if (hasJavaFilesInSubDirs) {
+        return dir;
       }
+    } else {
+      // If Java files exist directly in the directory
+      return dir;
     }
-    
-    if (headerLine === -1 || line <= headerLine) {
-      console.log(`Debug: Valid header row not found or current line (${line}) is before header line (${headerLine})`);
-      return null;
-    }
-    
-    // Go backwards from Examples heading to find the Scenario Outline
-    for (let i = examplesLine; i >= 0; i--) {
-      const lineText = lines[i].trim();
-      if (lineText.startsWith('Scenario Outline:')) {
-        scenarioOutlineLine = i + 1; // 1-indexed
-        console.log(`Debug: Scenario Outline found, line: ${scenarioOutlineLine}`);
-        break;
+  }
+  
+  // If nothing found, search in subdirectories
+  for (const entry of entries) {
+    if (entry.isDirectory()) {
+      const subDir = path.join(dir, entry.name);
+      const result = await findStepsDir(subDir);
+      if (result) {
+        return result;
       }
     }
-    
-    if (scenarioOutlineLine === -1) {
-      console.log('Debug: Scenario Outline not found');
-      return null;
-    }
-    
-    // Set the current line directly as the line to run
-    // Note: Cucumber's expected format: feature:scenario_line:example_line
-    return {
-      name: 'example',
-      lineNumber: scenarioOutlineLine,
-      exampleLineNumber: line + 1 // 1-indexed
-    };
-  } catch (err: any) {
-    console.error(`Error in findExampleAtLine: ${err.message}`);
-    return null;
   }
+  
+  return null;
 }
 
 /**
- * Finds the nearest Maven module by searching upwards for pom.xml from the feature file
+ * Indexes the step definitions of all Java source paths in the workspace (once)
  */
-function findMavenModule(featureFilePath: string, workspaceRoot: string): ModuleInfo {
-  let currentDir = path.dirname(featureFilePath);
+function ensureStepDefinitionIndex(): Promise<void> {
+  if (!stepDefinitionIndexReady) {
+    stepDefinitionIndexReady = indexStepDefinitions().catch(error => {
+      logToExtension(`Failed to index step definitions: ${error.message}`, 'ERROR');
+      stepDefinitionIndexReady = undefined;
+    });
+  }
+  return stepDefinitionIndexReady;
+}
 
-  // Search upwards for pom.xml
-  while (currentDir.startsWith(workspaceRoot)) {
-    const pomPath = path.join(currentDir, 'pom.xml');
+async function indexStepDefinitions(): Promise<void> {
+  stepDefinitionIndex.clear();
 
-    if (fs.existsSync(pomPath)) {
-      // Found a pom.xml, this is our module
-      const moduleRelativePath = path.relative(workspaceRoot, currentDir);
+  for (const folder of vscode.workspace.workspaceFolders || []) {
+    const sourcePaths = await findAllSourcePathsCached(
+      folder.uri.fsPath,
+      (msg: string, level?: string) => logToExtension(msg, level as any)
+    );
 
-      return {
-        modulePath: currentDir,
-        moduleRelativePath: moduleRelativePath || '.',
-        workspaceRoot: workspaceRoot
-      };
+    for (const sourcePath of sourcePaths) {
+      const javaFiles = await vscode.workspace.findFiles(new vscode.RelativePattern(sourcePath, '**/*.java'));
+      for (const javaFile of javaFiles) {
+        const filePath = path.normalize(javaFile.fsPath);
+        try {
+          indexStepDefinitionFile(filePath, await fs.promises.readFile(filePath, 'utf8'));
+        } catch (error: any) {
+          logToExtension(`Cannot read ${filePath}: ${error.message}`, 'DEBUG');
+        }
+      }
     }
+  }
 
-    // Move up one directory
-    const parentDir = path.dirname(currentDir);
-    if (parentDir === currentDir) {
-      // Reached the root
-      break;
-    }
-    currentDir = parentDir;
+  logToExtension(`Indexed ${stepDefinitionIndex.size} step definitions`, 'INFO');
+}
+
+function indexStepDefinitionFile(filePath: string, source?: string): void {
+  try {
+    stepDefinitionIndex.updateFile(filePath, source ?? fs.readFileSync(filePath, 'utf8'));
+  } catch (error: any) {
+    logToExtension(`Cannot index step definitions of ${filePath}: ${error.message}`, 'DEBUG');
+    stepDefinitionIndex.removeFile(filePath);
   }
+}
 
-  // No pom.xml found, use workspace root as module
-  return {
-    modulePath: workspaceRoot,
-    moduleRelativePath: '.',
-    workspaceRoot: workspaceRoot
+/**
+ * Keeps the step definition index up to date with Java file changes
+ */
+function watchStepDefinitions(context: vscode.ExtensionContext, onDidChange: () => void): void {
+  const watcher = vscode.workspace.createFileSystemWatcher('**/src/{test,main}/java/**/*.java');
+  context.subscriptions.push(watcher);
+
+  const update = (uri: vscode.Uri) => {
+    if (stepDefinitionIndexReady) {
+      indexStepDefinitionFile(path.normalize(uri.fsPath));
+    }
+    onDidChange();
   };
+  watcher.onDidCreate(update);
+  watcher.onDidChange(update);
+  watcher.onDidDelete(uri => {
+    stepDefinitionIndex.removeFile(path.normalize(uri.fsPath));
+    onDidChange();
+  });
 }
 
 /**
- * Finds the steps directories in the project and converts to Java package structure
+ * Step text to match against step definitions
+ *
+ * Outline steps are matched with the values of their first Examples row,
+ * since `<placeholder>`s never match a parameter on their own.
  */
-async function findGluePath(projectRoot: string): Promise<string | null> {
-  // In Maven projects, test code is usually in src/test/java
-  const testDir = path.join(projectRoot, 'src', 'test', 'java');
-
-  if (!fs.existsSync(testDir)) {
-    return null;
+function getStepMatchText(entry: GherkinStepEntry): string {
+  const { step, parent } = entry;
+  if (parent.type !== 'Scenario' || !parent.isOutline || !step.text.includes('<')) {
+    return step.text;
   }
 
-  // Recursively search for steps directories
-  const stepsDir = await findStepsDir(testDir);
+  const examples = parent.examples.find(e => e.tableHeader && e.tableBody.length > 0);
+  return examples && examples.tableHeader
+    ? substituteOutlinePlaceholders(step.text, examples.tableHeader, examples.tableBody[0])
+    : step.text;
+}
 
-  if (!stepsDir) {
-    return null;
+/**
+ * Glue package the runner would use for a feature (cached per feature)
+ */
+function getFeatureGluePath(featureUri: vscode.Uri): Promise<string | null> {
+  const featurePath = featureUri.fsPath;
+  let gluePath = featureGluePaths.get(featurePath);
+  if (!gluePath) {
+    const workspaceFolder = vscode.workspace.getWorkspaceFolder(featureUri);
+    gluePath = workspaceFolder
+      ? resolveGluePackage(findMavenModule(featurePath, workspaceFolder.uri.fsPath).modulePath, featurePath)
+      : Promise.resolve(null);
+    featureGluePaths.set(featurePath, gluePath);
   }
+  return gluePath;
+}
 
-  // Create the Java package name for the steps directory
-  // src/test/java/org/example/steps -> org.example.steps
-  const packagePath = path.relative(testDir, stepsDir).replace(/\\/g, '/').replace(/\//g, '.');
+/**
+ * Finds the step at a 1-based line of a feature file and the step definitions it matches
+ */
+async function findStepMatchesAtLine(
+  document: vscode.TextDocument,
+  lineNumber: number
+): Promise<{ entry: GherkinStepEntry; matches: StepMatch[] } | undefined> {
+  const entry = getStepAtLine(getGherkinDocument(document), lineNumber);
+  if (!entry) {
+    return undefined;
+  }
 
-  return packagePath;
+  await ensureStepDefinitionIndex();
+  return { entry, matches: stepDefinitionIndex.findMatches(getStepMatchText(entry)) };
 }
 
 /**
- * Finds Cucumber test class names in the module
+ * Indexes (or re-indexes) a feature file
  */
+function indexFeatureFile(uri: vscode.Uri): void {
+  const featurePath = path.normalize(uri.fsPath);
+  try {
+    featureDocumentIndex.set(featurePath, parseGherkin(fs.readFileSync(featurePath, 'utf8')));
+  } catch (error: any) {
+    logToExtension(`Cannot index ${featurePath}: ${error.message}`, 'DEBUG');
+    featureDocumentIndex.delete(featurePath);
+  }
+  stepUsageCounts = undefined;
+  featureIndexChanged.fire();
+}
 
 /**
- * v23.3: Extract tags from Feature file
- * 
- * Parses Feature file and extracts all @tag annotations
- * Tags can appear at Feature level or Scenario level
- * 
- * Example Feature file:
- * ```
- * @mkt_segment_criteria_update_test
- * @integration
- * Feature: MKT05A06R01-MktSegment-Criteria 更新邏輯驗證
- * 
- *   @smoke
- *   Scenario: 01 - [創建新 segment]
- * ```
- * 
- * @param featureFilePath - Absolute path to .feature file
- * @returns Array of tag names (without @ prefix)
+ * Tags used in the workspace's feature files and the scenarios carrying them
+ *
+ * Scenarios inherit the tags of their Feature and Rule; tags on an Examples
+ * block only apply to its rows.
  */
-async function extractTagsFromFeature(featureFilePath: string): Promise<string[]> {
-  try {
-    if (!fs.existsSync(featureFilePath)) {
-      logToExtension(`[v23.3] Feature file not found: ${featureFilePath}`, 'WARN');
-      return [];
+function collectTagUsage(): Map<string, TagUsage> {
+  const usage = new Map<string, TagUsage>();
+  const featuresByTag = new Map<string, Set<string>>();
+  const add = (tag: string, scenario: TaggedScenario) => {
+    let entry = usage.get(tag);
+    if (!entry) {
+      entry = { tag, scenarios: [], featureCount: 0 };
+      usage.set(tag, entry);
+      featuresByTag.set(tag, new Set());
     }
+    entry.scenarios.push(scenario);
+    featuresByTag.get(tag)!.add(scenario.featurePath);
+  };
 
-    // Check cache first
-    const stats = fs.statSync(featureFilePath);
-    const currentMtime = stats.mtimeMs;
-    
-    if (tagCache[featureFilePath] && tagCache[featureFilePath].mtime === currentMtime) {
-      logToExtension(`[v23.3] Using cached tags for feature (${tagCache[featureFilePath].tags.length} tags)`, 'DEBUG');
-      return tagCache[featureFilePath].tags;
+  for (const [featurePath, document] of getFeatureDocuments()) {
+    const feature = document.feature;
+    if (!feature) {
+      continue;
     }
 
-    const content = fs.readFileSync(featureFilePath, 'utf8');
-    const lines = content.split('\n');
-    const tags: string[] = [];
-
-    // Extract tags from Feature level (before "Feature:" keyword)
-    // Stop at first non-comment, non-tag, non-blank line
-    for (const line of lines) {
-      const trimmed = line.trim();
-      
-      // Skip comments and blank lines
-      if (trimmed.startsWith('#') || trimmed === '') {
-        continue;
-      }
-      
-      // Stop when we hit Feature keyword
-      if (trimmed.startsWith('Feature:')) {
-        break;
+    const addScenario = (scenario: GherkinScenario, inheritedTags: GherkinTag[]) => {
+      const scenarioTags = new Set([...inheritedTags, ...scenario.tags].map(tag => tag.name));
+      const base = { featurePath, name: getSymbolName(scenario), lineNumber: scenario.location.line };
+      scenarioTags.forEach(tag => add(tag, base));
+
+      // Tags only on some Examples: just their rows
+      const exampleLinesByTag = new Map<string, number[]>();
+      for (const examples of scenario.examples) {
+        for (const tag of examples.tags) {
+          if (!scenarioTags.has(tag.name)) {
+            const lines = exampleLinesByTag.get(tag.name) || [];
+            lines.push(...examples.tableBody.map(row => row.location.line));
+            exampleLinesByTag.set(tag.name, lines);
+          }
+        }
       }
-      
-      // Extract tags (lines starting with @)
-      if (trimmed.startsWith('@')) {
-        // Split multiple tags on same line: @tag1 @tag2 @tag3
-        const lineTags = trimmed.match(/@[\w_]+/g);
-        if (lineTags) {
-          lineTags.forEach(tag => {
-            const tagName = tag.substring(1); // Remove @ prefix
-            if (!tags.includes(tagName)) {
-              tags.push(tagName);
-            }
-          });
+      exampleLinesByTag.forEach((exampleLineNumbers, tag) => add(tag, { ...base, exampleLineNumbers }));
+    };
+
+    for (const child of feature.children) {
+      if (child.type === 'Rule') {
+        for (const ruleChild of child.children) {
+          if (ruleChild.type === 'Scenario') {
+            addScenario(ruleChild, [...feature.tags, ...child.tags]);
+          }
         }
+      } else if (child.type === 'Scenario') {
+        addScenario(child, feature.tags);
       }
     }
+  }
 
-    // Update cache
-    tagCache[featureFilePath] = {
-      tags: tags,
-      mtime: currentMtime
-    };
+  usage.forEach((entry, tag) => {
+    entry.featureCount = featuresByTag.get(tag)!.size;
+  });
+  return usage;
+}
 
-    logToExtension(`[v23.3] Extracted ${tags.length} tags from feature: ${tags.join(', ')}`, 'DEBUG');
-    return tags;
+/**
+ * Tags selected by the runner classes of the workspace (FILTER_TAGS, @IncludeTags, @CucumberOptions)
+ *
+ * @returns Tag names without @, mapped to the runner classes selecting them
+ */
+function getRunnerTagSelections(): Promise<Map<string, string[]>> {
+  if (!runnerTagSelections) {
+    runnerTagSelections = (async () => {
+      const selections = new Map<string, string[]>();
+      for (const folder of vscode.workspace.workspaceFolders || []) {
+        const sourcePaths = await findAllSourcePathsCached(
+          folder.uri.fsPath,
+          (msg: string, level?: string) => logToExtension(msg, level as any)
+        );
+        for (const sourcePath of sourcePaths.filter(p => p.endsWith(path.join('src', 'test', 'java')))) {
+          const javaFiles = await vscode.workspace.findFiles(new vscode.RelativePattern(sourcePath, '**/*.java'));
+          for (const javaFile of javaFiles) {
+            const content = await fs.promises.readFile(javaFile.fsPath, 'utf8').catch(() => '');
+            if (!/FILTER_TAGS_PROPERTY_NAME|@IncludeTags|@CucumberOptions/.test(content)) {
+              continue;
+            }
+            const className = path.basename(javaFile.fsPath, '.java');
+            for (const tag of await extractTagsFromTestClass(javaFile.fsPath)) {
+              selections.set(tag, [...(selections.get(tag) || []), className]);
+            }
+          }
+        }
+      }
+      return selections;
+    })();
+  }
+  return runnerTagSelections;
+}
 
-  } catch (error: any) {
-    logToExtension(`[v23.3] Error extracting tags from feature: ${error.message}`, 'ERROR');
-    return [];
+/**
+ * Number of feature steps in the workspace matching each step definition
+ */
+function getStepUsageCounts(): Map<StepDefinition, number> {
+  if (stepUsageCounts && stepUsageCounts.definitionsVersion === stepDefinitionIndex.version) {
+    return stepUsageCounts.counts;
+  }
+
+  const counts = new Map<StepDefinition, number>();
+  for (const document of featureDocumentIndex.values()) {
+    for (const entry of document.feature ? getSteps(document.feature) : []) {
+      for (const match of stepDefinitionIndex.findMatches(getStepMatchText(entry))) {
+        counts.set(match.definition, (counts.get(match.definition) || 0) + 1);
+      }
+    }
   }
+
+  stepUsageCounts = { definitionsVersion: stepDefinitionIndex.version, counts };
+  return counts;
 }
 
 /**
- * v23.3: Extract tags from Test Class file
- * 
- * Parses Java test class and extracts tags from:
- * 1. @ConfigurationParameter (Cucumber 7+, highest priority)
- * 2. @CucumberOptions (Legacy support)
- * 
- * Pattern 1 - @ConfigurationParameter (v23.3 NEW):
- * ```java
- * @ConfigurationParameter(
- *     key = Constants.FILTER_TAGS_PROPERTY_NAME,
- *     value = "@mkt_segment_criteria_update_test")
- * 
- * @ConfigurationParameter(
- *     key = Constants.FILTER_TAGS_PROPERTY_NAME,
- *     value = "@tag1 or @tag2 or @tag3")
- * ```
- * 
- * Pattern 2 - @CucumberOptions (Legacy):
- * ```java
- * @CucumberOptions(tags = "@mkt_segment_criteria_update_test")
- * @CucumberOptions(tags = {"@tag1", "@tag2"})
- * ```
- * 
- * @param testClassPath - Absolute path to *Test.java file
- * @returns Array of tag names (without @ prefix)
+ * All feature files of the workspace, those open in an editor in their current (possibly unsaved) state
  */
-async function extractTagsFromTestClass(testClassPath: string): Promise<string[]> {
-  try {
-    if (!fs.existsSync(testClassPath)) {
-      logToExtension(`[v23.3] Test class not found: ${testClassPath}`, 'DEBUG');
-      return [];
+function getFeatureDocuments(): Map<string, GherkinDocument> {
+  const documents = new Map(featureDocumentIndex);
+  for (const document of vscode.workspace.textDocuments) {
+    if (path.extname(document.uri.fsPath) === '.feature' && document.uri.scheme === 'file') {
+      documents.set(path.normalize(document.uri.fsPath), getGherkinDocument(document));
     }
+  }
+  return documents;
+}
 
-    // Check cache first
-    const stats = fs.statSync(testClassPath);
-    const currentMtime = stats.mtimeMs;
-    
-    if (tagCache[testClassPath] && tagCache[testClassPath].mtime === currentMtime) {
-      return tagCache[testClassPath].tags;
+/**
+ * Finds the feature steps matched by a step definition
+ */
+function findStepReferences(definition: StepDefinition): vscode.Location[] {
+  const locations: vscode.Location[] = [];
+  for (const [featurePath, document] of getFeatureDocuments()) {
+    for (const entry of document.feature ? getSteps(document.feature) : []) {
+      if (stepDefinitionIndex.matchDefinition(definition, getStepMatchText(entry))) {
+        locations.push(new vscode.Location(vscode.Uri.file(featurePath), toStepRange(entry)));
+      }
     }
+  }
+  return locations;
+}
 
-    const content = fs.readFileSync(testClassPath, 'utf8');
-    const tags: string[] = [];
+/**
+ * Converts a parsed Gherkin range (1-based) to an editor range
+ */
+function toRange(range: GherkinRange): vscode.Range {
+  return new vscode.Range(range.start.line - 1, range.start.column - 1, range.end.line - 1, range.end.column - 1);
+}
 
-    // ⭐ Priority 1: @ConfigurationParameter (Cucumber 7+)
-    // Pattern: @ConfigurationParameter(key = Constants.FILTER_TAGS_PROPERTY_NAME, value = "...")
-    // Multi-line support with string concatenation:
-    //   @ConfigurationParameter(
-    //       key = Constants.FILTER_TAGS_PROPERTY_NAME,
-    //       value = "@tag1 or @tag2"
-    //               + " or @tag3")
-    
-    // Strategy: Find the entire annotation block, then extract all @tag patterns
-    const configParamRegex = /@ConfigurationParameter\s*\(\s*key\s*=\s*Constants\.FILTER_TAGS_PROPERTY_NAME\s*,\s*value\s*=\s*([^)]+)\)/gs;
-    let configMatch;
-    
-    while ((configMatch = configParamRegex.exec(content)) !== null) {
-      const valueBlock = configMatch[1];
-      
-      // Extract all @tag patterns from the entire value block
-      // This handles both simple strings and Java string concatenation (+ "...")
-      const tagMatches = valueBlock.match(/@[\w_]+/g);
-      
-      if (tagMatches) {
-        tagMatches.forEach(tag => {
-          const tagName = tag.substring(1); // Remove @ prefix
-          if (!tags.includes(tagName)) {
-            tags.push(tagName);
-          }
-        });
+/**
+ * Whether a path lies in a build output directory (target, build, out, ...), whose feature files are copies
+ */
+function isBuildOutputPath(filePath: string): boolean {
+  const lowerCasePath = filePath.toLowerCase();
+  const excludedPaths = ['target', 'build', 'out', 'dist', 'node_modules', '.git'];
+  return excludedPaths.some(excluded => lowerCasePath.includes(`/${excluded}/`) || lowerCasePath.includes(`\\${excluded}\\`));
+}
+
+/**
+ * Creates keys for test item IDs from item content, numbering repeated content
+ *
+ * @example
+ * const key = createTestItemKeyFactory();
+ * key('Login'); key('Login') // Returns: 'Login', then 'Login~2'
+ */
+function createTestItemKeyFactory(): (text: string) => string {
+  const counts = new Map<string, number>();
+  return (text: string) => {
+    const count = (counts.get(text) || 0) + 1;
+    counts.set(text, count);
+    // Encoded so that keys never contain the ':' separators of the ID
+    const key = encodeURIComponent(text).replace(/~/g, '%7E');
+    return count === 1 ? key : `${key}~${count}`;
+  };
+}
+
+/**
+ * Test Explorer tags of Gherkin tags, without their `@` (filter with `@cucumberJavaEasyRunner:smoke`)
+ */
+function toTestTags(tags: string[]): vscode.TestTag[] {
+  return tags.map(tag => new vscode.TestTag(tag.substring(1)));
+}
+
+/**
+ * Whether a test item is selected by a tag expression
+ *
+ * A Scenario Outline is selected when one of its Examples rows is, since
+ * Examples tags only apply to their own rows.
+ */
+function matchesTagExpression(item: vscode.TestItem, expression: TagExpression): boolean {
+  const examples: vscode.TestItem[] = [];
+  item.children.forEach(child => child.id.includes(':example:') && examples.push(child));
+  if (examples.length > 0) {
+    return examples.some(example => matchesTagExpression(example, expression));
+  }
+  return expression.evaluate(item.tags.map(tag => `@${tag.id}`));
+}
+
+/**
+ * The `cucumber.filter.tags` of a run: the cucumberTags setting and the tag expression of a tag-filtered run
+ */
+function getCucumberTagFilter(config: vscode.WorkspaceConfiguration, tagExpression?: string): string {
+  return combineTagExpressions(config.get<string>('cucumberTags', ''), tagExpression);
+}
+
+/**
+ * 1-based line of a test item, from its range
+ */
+function getItemLine(item: vscode.TestItem): number {
+  return item.range ? item.range.start.line + 1 : 0;
+}
+
+/**
+ * Builds the Test Explorer message for a pending, undefined or ambiguous step
+ */
+function describeStepProblem(stepResult: StepResult): string {
+  const stepText = `${stepResult.keyword} ${stepResult.name}`;
+  switch (stepResult.status) {
+    case 'undefined': {
+      const lines = [`Undefined step: ${stepText}`, '', 'No step definition in the glue path matches this step.'];
+      if (stepResult.snippet) {
+        lines.push('', 'You can implement it with the snippet Cucumber suggests:', '', stepResult.snippet);
       }
+      return lines.join('\n');
     }
+    case 'pending':
+      return [
+        `Pending step: ${stepText}`,
+        '',
+        'The step definition exists but is not implemented yet (it throws PendingException).',
+        ...(stepResult.errorMessage ? ['', stepResult.errorMessage] : [])
+      ].join('\n');
+    case 'ambiguous':
+      return [
+        `Ambiguous step: ${stepText}`,
+        '',
+        'More than one step definition matches this step.',
+        ...(stepResult.errorMessage ? ['', stepResult.errorMessage] : [])
+      ].join('\n');
+    default:
+      return stepResult.errorMessage || `Step ${stepResult.status}`;
+  }
+}
 
-    // ⭐ Priority 2: @CucumberOptions (Legacy support)
-    // Only search if no tags found from @ConfigurationParameter
-    if (tags.length === 0) {
-      const cucumberOptionsMatch = content.match(/@CucumberOptions\s*\([^)]*tags\s*=\s*([^)]+)\)/s);
-      
-      if (cucumberOptionsMatch) {
-        const tagsContent = cucumberOptionsMatch[1];
-        
-        // Extract all @tag patterns
-        const tagMatches = tagsContent.match(/@[\w_]+/g);
-        
-        if (tagMatches) {
-          tagMatches.forEach(tag => {
-            const tagName = tag.substring(1); // Remove @ prefix
-            if (!tags.includes(tagName)) {
-              tags.push(tagName);
-            }
-          });
-        }
+/**
+ * Selected tests of one Maven module and runner class, run by a single Maven invocation
+ *
+ * Each test item prepares its run as usual and hands its lines and result
+ * callback to the launcher from `launcherFor()`. Once every item has done so
+ * (or finished without launching, see `leave()`), Cucumber runs once with
+ * all of their lines, and each result from the message protocol goes to the
+ * items whose feature and lines it belongs to.
+ *
+ * Maven runs select features on the classpath. Java runs use module-relative
+ * file paths instead, as Java execution does not refresh `target/test-classes`.
+ */
+class CucumberRunBatch {
+  private readonly members = new Map<vscode.TestItem, { featurePath: string; lines?: FeatureLines; isExample: boolean; onStepUpdate: (step: StepResult) => void }>();
+  private readonly pending: Set<vscode.TestItem>;
+  private readonly result: Promise<number>;
+  private resolveResult!: (exitCode: number) => void;
+  private launched = false;
+
+  constructor(
+    readonly items: vscode.TestItem[],
+    private readonly moduleInfo: ModuleInfo,
+    private readonly isMaven: boolean,
+    private readonly execute: (selections: FeatureSelection[], onStepUpdate: (step: StepResult) => void) => Promise<number>
+  ) {
+    this.pending = new Set(items);
+    this.result = new Promise<number>(resolve => this.resolveResult = resolve);
+  }
+
+  launcherFor(item: vscode.TestItem): TestLauncher {
+    return (lines, exampleLine, onStepUpdate) => {
+      this.members.set(item, {
+        featurePath: this.isMaven
+          ? `classpath:${extractFeatureRelativePath(item.uri!.fsPath, this.moduleInfo.modulePath)}`
+          : path.relative(this.moduleInfo.modulePath, item.uri!.fsPath).split(path.sep).join('/'),
+        lines: exampleLine || lines,
+        isExample: !!exampleLine,
+        onStepUpdate
+      });
+      this.leave(item);
+      return this.result;
+    };
+  }
+
+  /**
+   * Marks an item as ready, whether it launched or not (e.g. skipped by a tag expression)
+   */
+  leave(item: vscode.TestItem): void {
+    this.pending.delete(item);
+    if (this.pending.size > 0 || this.launched) {
+      return;
+    }
+
+    this.launched = true;
+    if (this.members.size === 0) {
+      this.resolveResult(0);
+      return;
+    }
+
+    const members = Array.from(this.members.values());
+    logToExtension(`Running ${members.length} selected tests in one Maven invocation (${this.moduleInfo.moduleRelativePath})`, 'INFO');
+
+    // Undefined steps are remembered per feature file, as for single runs
+    const recorders = new Map<string, ReturnType<typeof recordUndefinedSteps>>();
+    for (const [item, member] of this.members) {
+      if (!recorders.has(member.featurePath)) {
+        recorders.set(member.featurePath, recordUndefinedSteps(item.uri!, step => this.dispatch(member.featurePath, step)));
       }
     }
 
-    // Update cache
-    tagCache[testClassPath] = {
-      tags: tags,
-      mtime: currentMtime
+    const onStepUpdate = (step: StepResult) => {
+      const featurePath = Array.from(recorders.keys()).find(key => isSameFeature(step.featureUri, key));
+      if (featurePath) {
+        recorders.get(featurePath)!.onStepUpdate(step);
+      } else {
+        logToExtension(`No selected test for result of ${step.featureUri}:${step.scenarioLineNumber}`, 'WARN');
+      }
     };
 
-    logToExtension(`[v23.3] Extracted ${tags.length} tags from test class ${path.basename(testClassPath)}: ${tags.join(', ')}`, 'DEBUG');
-    return tags;
+    this.execute(members.map(({ featurePath, lines }) => ({ featurePath, lines })), onStepUpdate)
+      .catch((error: any) => {
+        logToExtension(`Batch run failed: ${error.message}`, 'ERROR');
+        return 1;
+      })
+      .then(exitCode => {
+        recorders.forEach(recorder => recorder.finish());
+        this.resolveResult(exitCode);
+      });
+  }
 
-  } catch (error: any) {
-    logToExtension(`[v23.3] Error extracting tags from test class: ${error.message}`, 'ERROR');
-    return [];
+  private dispatch(featurePath: string, step: StepResult): void {
+    for (const member of this.members.values()) {
+      if (member.featurePath !== featurePath) {
+        continue;
+      }
+      const lines = member.lines === undefined ? undefined : ([] as number[]).concat(member.lines);
+      const selected = !lines ||
+        (member.isExample ? lines.includes(step.exampleLineNumber!) : lines.includes(step.scenarioLineNumber!));
+      if (selected) {
+        member.onStepUpdate(step);
+      }
+    }
   }
 }
 
 /**
- * v23.3.1: Extract glue package from Test Class file
- * 
- * Parses Java test class and extracts glue package from @ConfigurationParameter
- * 
- * Pattern:
- * ```java
- * @ConfigurationParameter(
- *     key = Constants.GLUE_PROPERTY_NAME,
- *     value = "tw.datahunter.spring.system")
- * ```
- * 
- * @param testClassPath - Absolute path to *Test.java file
- * @returns Glue package string or null if not found
+ * Closest item that contains all of the given items (e.g. their feature), if any
  */
-async function extractGluePackageFromTestClass(testClassPath: string): Promise<string | null> {
-  try {
-    if (!fs.existsSync(testClassPath)) {
-      logToExtension(`[v23.3.1] Test class not found: ${testClassPath}`, 'DEBUG');
-      return null;
+function findCommonAncestor(items: vscode.TestItem[]): vscode.TestItem | undefined {
+  const chainOf = (item: vscode.TestItem) => {
+    const chain: vscode.TestItem[] = [];
+    for (let current: vscode.TestItem | undefined = item; current; current = current.parent) {
+      chain.unshift(current);
     }
+    return chain;
+  };
 
-    const content = fs.readFileSync(testClassPath, 'utf8');
-
-    // Pattern: @ConfigurationParameter(key = Constants.GLUE_PROPERTY_NAME, value = "package.name")
-    // Match entire annotation block until closing )
-    const glueParamRegex = /@ConfigurationParameter\s*\(\s*key\s*=\s*Constants\.GLUE_PROPERTY_NAME\s*,\s*value\s*=\s*"([^"]+)"/gs;
-    const match = glueParamRegex.exec(content);
-    
-    if (match && match[1]) {
-      const gluePackage = match[1].trim();
-      logToExtension(`[v23.3.1] Extracted glue package from @ConfigurationParameter: ${gluePackage}`, 'DEBUG');
-      return gluePackage;
+  let common = chainOf(items[0]);
+  for (const item of items.slice(1)) {
+    const chain = chainOf(item);
+    let length = 0;
+    while (length < common.length && length < chain.length && common[length] === chain[length]) {
+      length++;
     }
-
-    logToExtension(`[v23.3.1] No glue package found in @ConfigurationParameter`, 'DEBUG');
-    return null;
-
-  } catch (error: any) {
-    logToExtension(`[v23.3.1] Error extracting glue package: ${error.message}`, 'ERROR');
-    return null;
+    common = common.slice(0, length);
   }
+  return common[common.length - 1];
 }
 
 /**
- * v23.3: Match test class by tag comparison
- * 
- * Finds test class that has matching tags with the feature file
- * Uses tag intersection to find best match
- * 
- * Strategy:
- * 1. Extract tags from feature file
- * 2. Search all *Test.java files in test directory
- * 3. Extract tags from each test class (@ConfigurationParameter or @CucumberOptions)
- * 4. Find test class with maximum tag overlap
- * 
- * @param modulePath - Path to Maven module
- * @param featureFilePath - Path to feature file
- * @returns Test class name if found, null otherwise
+ * Runs a worker on every task, with at most `limit` workers at a time
  */
-async function matchTestClassByTag(
-  modulePath: string,
-  featureFilePath: string
-): Promise<string | null> {
-  try {
-    // Step 1: Extract tags from feature file
-    const featureTags = await extractTagsFromFeature(featureFilePath);
-    
-    if (featureTags.length === 0) {
-      logToExtension(`[v23.3] No tags found in feature file, skipping tag-based matching`, 'DEBUG');
-      return null;
-    }
-
-    logToExtension(`[v23.3] Feature tags: [${featureTags.join(', ')}]`, 'INFO');
-
-    // Step 2: Find all test classes
-    const testDir = path.join(modulePath, 'src', 'test', 'java');
-    if (!fs.existsSync(testDir)) {
-      logToExtension(`[v23.3] Test directory not found: ${testDir}`, 'WARN');
-      return null;
+async function runWithConcurrency<T>(tasks: T[], limit: number, worker: (task: T) => Promise<void>): Promise<void> {
+  let next = 0;
+  const workers = Array.from({ length: Math.min(limit, tasks.length) }, async () => {
+    while (next < tasks.length) {
+      await worker(tasks[next++]);
     }
+  });
+  await Promise.all(workers);
+}
 
-    const pattern = path.join(testDir, '**', '*Test.java');
-    const testFiles = glob.sync(pattern, { nodir: true });
+/**
+ * Feature file of a rerun file entry (`classpath:`, `file:` or a path relative to the module)
+ */
+function resolveRerunFeaturePath(featurePath: string, modulePath: string): string {
+  if (featurePath.startsWith('classpath:')) {
+    return path.join(modulePath, 'src', 'test', 'resources', featurePath.substring('classpath:'.length).replace(/^\//, ''));
+  }
+  if (featurePath.startsWith('file:')) {
+    const filePath = featurePath.startsWith('file:/') ? vscode.Uri.parse(featurePath).fsPath : decodeURI(featurePath.substring('file:'.length));
+    return path.resolve(modulePath, filePath);
+  }
+  return path.resolve(modulePath, featurePath);
+}
 
-    if (testFiles.length === 0) {
-      logToExtension(`[v23.3] No test files found in ${testDir}`, 'WARN');
-      return null;
+/**
+ * Gherkin dialects of the feature files a run selects, to recognise their keywords in Cucumber's output
+ *
+ * @returns undefined when no feature could be read, to match the keywords of every dialect
+ */
+async function getFeatureDialects(featurePaths: string[]): Promise<GherkinDialect[] | undefined> {
+  const dialects = new Set<GherkinDialect>();
+  for (const featurePath of featurePaths) {
+    try {
+      dialects.add(getFeatureDialect(await fs.promises.readFile(featurePath, 'utf8')));
+    } catch (error: any) {
+      logToExtension(`Cannot read the language of ${featurePath}: ${error.message}`, 'WARN');
     }
+  }
+  return dialects.size > 0 ? Array.from(dialects) : undefined;
+}
 
-    logToExtension(`[v23.3] Searching ${testFiles.length} test files for tag match...`, 'DEBUG');
-
-    // Step 3: Find best matching test class
-    let bestMatch: { file: string; score: number } | null = null;
+/**
+ * Signatures of the scenarios of a feature (by 1-based scenario line), to tell which scenarios an edit changed
+ *
+ * A signature holds the scenario's lines (without comments and indentation),
+ * its inherited tags and the Backgrounds that run before it.
+ */
+function getScenarioSignatures(document: GherkinDocument, source: string): Map<number, string> {
+  const signatures = new Map<number, string>();
+  const feature = document.feature;
+  if (!feature) {
+    return signatures;
+  }
 
-    for (const testFile of testFiles) {
-      const testTags = await extractTagsFromTestClass(testFile);
-      
-      if (testTags.length === 0) {
-        continue;
+  const lines = source.split(/\r?\n/);
+  const blockText = (range: GherkinRange) => lines.slice(range.start.line - 1, range.end.line)
+    .map(line => line.trim())
+    .filter(line => line && !line.startsWith('#'))
+    .join('\n');
+  const backgroundText = (children: Array<GherkinBackground | GherkinScenario | GherkinRule>) => children
+    .filter((child): child is GherkinBackground => child.type === 'Background')
+    .map(child => blockText(child.range));
+  const addScenarios = (children: Array<GherkinBackground | GherkinScenario | GherkinRule>, context: string[]) => {
+    for (const child of children) {
+      if (child.type === 'Scenario') {
+        signatures.set(child.location.line, [...context, ...child.tags.map(tag => tag.name), blockText(child.range)].join('\n'));
       }
+    }
+  };
 
-      // Calculate intersection score
-      const intersection = featureTags.filter(tag => testTags.includes(tag));
-      const score = intersection.length;
-
-      if (score > 0) {
-        logToExtension(`[v23.3] Match found: ${path.basename(testFile)} - ${score} common tags: [${intersection.join(', ')}]`, 'DEBUG');
-        
-        if (!bestMatch || score > bestMatch.score) {
-          bestMatch = { file: testFile, score };
-        }
-      }
+  const featureContext = [...feature.tags.map(tag => tag.name), ...backgroundText(feature.children)];
+  addScenarios(feature.children, featureContext);
+  for (const child of feature.children) {
+    if (child.type === 'Rule') {
+      addScenarios(child.children, [...featureContext, ...child.tags.map(tag => tag.name), ...backgroundText(child.children)]);
     }
+  }
+  return signatures;
+}
 
-    // Step 4: Return best match
-    if (bestMatch) {
-      const className = path.basename(bestMatch.file, '.java');
-      logToExtension(`[v23.3] ⭐ Tag-based match selected: ${className} (score: ${bestMatch.score})`, 'INFO');
-      return className;
+/**
+ * Whether an item is a given item or one of its descendants
+ */
+function isSameOrDescendant(item: vscode.TestItem, ancestor: vscode.TestItem): boolean {
+  for (let current: vscode.TestItem | undefined = item; current; current = current.parent) {
+    if (current === ancestor) {
+      return true;
     }
+  }
+  return false;
+}
 
-    logToExtension(`[v23.3] No test class found with matching tags`, 'DEBUG');
-    return null;
+/**
+ * Adds the failed scenarios the rerun plugin wrote for a module to those of the current test run
+ *
+ * A rerun file older than the launch was left by an earlier run (this one
+ * stopped before Cucumber wrote it), so it is ignored.
+ */
+function rememberFailedScenarios(modulePath: string, launchedAt: number): void {
+  const rerunFile = path.join(modulePath, RERUN_FILE);
+  if (!fs.existsSync(rerunFile)) {
+    return;
+  }
+  if (fs.statSync(rerunFile).mtimeMs < launchedAt) {
+    logToExtension(`Ignoring ${rerunFile}: it was not written by this run`, 'DEBUG');
+    return;
+  }
 
-  } catch (error: any) {
-    logToExtension(`[v23.3] Error in tag-based matching: ${error.message}`, 'ERROR');
-    return null;
+  const failed = parseRerunFile(fs.readFileSync(rerunFile, 'utf8'));
+  if (failed.length > 0) {
+    failedScenarios.set(modulePath, [...(failedScenarios.get(modulePath) || []), ...failed]);
+    logToExtension(`Remembered ${failed.length} feature(s) with failed scenarios in ${modulePath}`, 'INFO');
   }
+  updateFailedScenariosContext();
 }
 
 /**
- * v23.3: Smart detection - infer test class from feature file
- * 
- * Three-layer strategy:
- * 1. Tag-based matching (v23.3 with @ConfigurationParameter) - Most accurate
- * 2. Folder code matching (v23.1) - Structural matching
- * 3. Filename similarity (v23.0) - Fallback
- * 
- * Example:
- * Feature: .../MKT05A06R01-mktSegment_CriteriaUpdate.feature
- *   @mkt_segment_criteria_update_test
- * → Test Class: .../MKT05A06/MktSegmentCriteriaUpdateTest.java
- *   @ConfigurationParameter(key = Constants.FILTER_TAGS_PROPERTY_NAME, 
- *                          value = "@mkt_segment_criteria_update_test")
+ * Enables "Rerun Failed Scenarios" while the last run has failed scenarios
  */
-async function findCucumberTestClassFromFeature(
-  modulePath: string,
-  featureFilePath: string
-): Promise<string | null> {
-  logToExtension(`[v23.3] === Smart Test Class Detection ===`, 'DEBUG');
-  logToExtension(`[v23.3] Feature: ${path.basename(featureFilePath)}`, 'DEBUG');
+function updateFailedScenariosContext(): void {
+  vscode.commands.executeCommand('setContext', 'cucumberJavaEasyRunner.hasFailedScenarios', failedScenarios.size > 0);
+}
 
-  // ⭐ Strategy 1: Tag-based matching (v23.3 - Highest priority)
-  logToExtension(`[v23.3] Strategy 1: Tag-based matching...`, 'DEBUG');
-  const tagMatch = await matchTestClassByTag(modulePath, featureFilePath);
-  if (tagMatch) {
-    logToExtension(`[v23.3] ✓ Tag-based match found: ${tagMatch}`, 'INFO');
-    return tagMatch;
+/**
+ * Whether a feature URI reported by Cucumber (classpath: or file:) is a feature path of a run batch
+ * (classpath: or module-relative)
+ *
+ * @example
+ * isSameFeature('file:///project/src/test/resources/feature/login.feature', 'classpath:feature/login.feature') // Returns: true
+ */
+function isSameFeature(reportedUri: string | undefined, featurePath: string): boolean {
+  if (!reportedUri) {
+    return false;
   }
+  const key = featurePath.replace(/^classpath:\/?/, '');
+  const reported = reportedUri.replace(/^classpath:\/?/, '');
+  return reported === key || reported.endsWith(`/${key}`);
+}
 
-  // Strategy 2: Folder code matching (v23.1 - Medium priority)
-  logToExtension(`[v23.3] Strategy 2: Folder code matching...`, 'DEBUG');
-  const featureFileName = path.basename(featureFilePath, '.feature');
-  
-  // Extract folder code pattern: MKT05A06R01-xxx → MKT05A06
-  // Pattern: [LETTERS][DIGITS][LETTERS][DIGITS] stops before R[DIGITS]
-  // MKT05A06R01 → MKT05A06 (stop before R01)
-  // MKT01R01 → MKT01 (stop before R01)
-  let folderCode = '';
-  const folderMatch = featureFileName.match(/^([A-Z]+\d+[A-Z]*\d*)(?=R\d+|-|$)/);
-  if (folderMatch) {
-    folderCode = folderMatch[1];
-  } else {
-    // Fallback: try simple pattern (all uppercase and digits until dash or R)
-    const simpleMatch = featureFileName.match(/^([A-Z0-9]+?)(?=R\d+|-)/);
-    if (simpleMatch) {
-      folderCode = simpleMatch[1];
-    }
-  }
-  
-  if (!folderCode) {
-    logToExtension(`[v23.3] Cannot extract folder code from feature: ${featureFileName}`, 'WARN');
-    return null;
-  }
-  
-  logToExtension(`[v23.3] Extracted folder code: ${folderCode} from ${featureFileName}`, 'DEBUG');
-  
-  // Search for test class in corresponding folder
-  const testDir = path.join(modulePath, 'src', 'test', 'java');
-  const expectedFolder = path.join(testDir, '**', folderCode);
-  
-  // Find all test classes in this folder
-  const pattern = path.join(testDir, '**', folderCode, '*Test.java');
-  
-  try {
-    const files = glob.sync(pattern, { nodir: true });
-    
-    if (files.length === 0) {
-      logToExtension(`[v23.3] No test class found in folder: ${folderCode}`, 'WARN');
-      return null;
-    }
-    
-    // Strategy 3: Filename similarity matching (v23.0 - Lowest priority)
-    logToExtension(`[v23.3] Strategy 3: Filename similarity matching...`, 'DEBUG');
-    const featureBaseName = featureFileName.replace(/^[A-Z0-9]+-/, ''); // Remove prefix
-    const preferredFile = files.find((f: string) => {
-      const fileName = path.basename(f, '.java');
-      return fileName.toLowerCase().includes(featureBaseName.toLowerCase().replace(/-/g, ''));
-    });
-    
-    const selectedFile = preferredFile || files[0];
-    const className = path.basename(selectedFile, '.java');
-    
-    logToExtension(`[v23.3] ✓ Folder + filename match found: ${className}`, 'INFO');
-    return className;
-    
-  } catch (error: any) {
-    logToExtension(`[v23.3] Error finding test class: ${error.message}`, 'ERROR');
-    return null;
+/**
+ * A semantic token on one line (0-based), higher priorities win where tokens overlap
+ */
+interface GherkinSemanticToken {
+  line: number;
+  start: number;
+  end: number;
+  type: string;
+  priority: number;
+}
+
+/**
+ * Encodes semantic tokens, splitting lower priority tokens around the ones they overlap
+ */
+function buildSemanticTokens(tokens: GherkinSemanticToken[]): vscode.SemanticTokens {
+  const byLine = new Map<number, GherkinSemanticToken[]>();
+  tokens.forEach(token => byLine.set(token.line, [...(byLine.get(token.line) || []), token]));
+
+  const builder = new vscode.SemanticTokensBuilder(GherkinSemanticTokensProvider.legend);
+  for (const line of Array.from(byLine.keys()).sort((a, b) => a - b)) {
+    const placed: GherkinSemanticToken[] = [];
+    for (const token of byLine.get(line)!.sort((a, b) => b.priority - a.priority)) {
+      let segments = [{ start: token.start, end: token.end }];
+      for (const other of placed) {
+        segments = segments.flatMap(segment => [
+          { start: segment.start, end: Math.min(segment.end, other.start) },
+          { start: Math.max(segment.start, other.end), end: segment.end }
+        ]).filter(segment => segment.end > segment.start);
+      }
+      segments.forEach(segment => placed.push({ ...token, ...segment }));
+    }
+    placed
+      .sort((a, b) => a.start - b.start)
+      .forEach(token => builder.push(line, token.start, token.end - token.start,
+        GherkinSemanticTokensProvider.legend.tokenTypes.indexOf(token.type), 0));
   }
+  return builder.build();
 }
 
-async function findCucumberTestClass(modulePath: string): Promise<string | null> {
-  const testDir = path.join(modulePath, 'src', 'test', 'java');
+/**
+ * Token type of a captured step argument, by its Cucumber Expression parameter type
+ */
+function toArgumentTokenType(parameterType: string | undefined): string {
+  switch (parameterType) {
+    case 'int':
+    case 'byte':
+    case 'short':
+    case 'long':
+    case 'float':
+    case 'double':
+    case 'biginteger':
+    case 'bigdecimal':
+      return 'number';
+    case 'string':
+      return 'string';
+    case undefined:
+    case '':
+    case 'word':
+      return 'parameter';
+    default:
+      return 'type';  // Custom @ParameterType
+  }
+}
 
-  if (!fs.existsSync(testDir)) {
-    return null;
+/**
+ * Converts a lint rule severity to a diagnostic severity
+ */
+function toDiagnosticSeverity(severity: GherkinLintSeverity): vscode.DiagnosticSeverity {
+  switch (severity) {
+    case 'error': return vscode.DiagnosticSeverity.Error;
+    case 'info': return vscode.DiagnosticSeverity.Information;
+    case 'hint': return vscode.DiagnosticSeverity.Hint;
+    default: return vscode.DiagnosticSeverity.Warning;
   }
+}
 
-  // Search for test classes with Cucumber annotations
-  const testClass = await findTestClassWithCucumberAnnotations(testDir);
+/**
+ * The tag of a Feature, Rule, Scenario or Examples at an editor position
+ */
+function findTagAtPosition(document: GherkinDocument, position: vscode.Position): GherkinTag | undefined {
+  const feature = document.feature;
+  if (!feature) {
+    return undefined;
+  }
 
-  return testClass;
+  const tags: GherkinTag[] = [...feature.tags];
+  const addScenario = (scenario: GherkinScenario) => {
+    tags.push(...scenario.tags);
+    scenario.examples.forEach(examples => tags.push(...examples.tags));
+  };
+  for (const child of feature.children) {
+    if (child.type === 'Rule') {
+      tags.push(...child.tags);
+      child.children.forEach(ruleChild => ruleChild.type === 'Scenario' && addScenario(ruleChild));
+    } else if (child.type === 'Scenario') {
+      addScenario(child);
+    }
+  }
+  return tags.find(tag => toRange(tag.range).contains(position));
 }
 
 /**
- * Finds the fully qualified name (FQN) of a test class
- * @param modulePath - Path to the Maven module
- * @param testClassName - Simple class name (e.g., "TagClassAdminCrudTest")
- * @returns Fully qualified class name (e.g., "tw.datahunter.uc_api.bdd.TagClassAdminCrudTest") or null
+ * Symbol name of a Gherkin node: its name, or its keyword when it has none
  */
-async function findTestClassFqn(modulePath: string, testClassName: string): Promise<string | null> {
-  const testDir = path.join(modulePath, 'src', 'test', 'java');
+function getSymbolName(node: { keyword: string; name: string }): string {
+  return node.name.trim() || node.keyword;
+}
 
-  if (!fs.existsSync(testDir)) {
-    logToExtension(`Test directory not found: ${testDir}`, 'WARN');
-    return null;
+function createGherkinSymbol(
+  document: vscode.TextDocument,
+  node: GherkinFeature | GherkinRule | GherkinBackground | GherkinScenario | GherkinExamples,
+  kind: vscode.SymbolKind
+): vscode.DocumentSymbol {
+  // The header line, without trailing whitespace
+  const header = document.lineAt(node.location.line - 1);
+  const selectionRange = new vscode.Range(
+    node.location.line - 1,
+    node.location.column - 1,
+    node.location.line - 1,
+    header.text.trimEnd().length
+  );
+  return new vscode.DocumentSymbol(getSymbolName(node), node.keyword, kind, toRange(node.range), selectionRange);
+}
+
+function createScenarioSymbol(document: vscode.TextDocument, container: GherkinBackground | GherkinScenario): vscode.DocumentSymbol {
+  if (container.type === 'Background') {
+    return createGherkinSymbol(document, container, vscode.SymbolKind.Constructor);
   }
 
-  // Recursively search for the test class file
-  const testClassPath = await findTestClassPath(testDir, testClassName);
-  
-  if (!testClassPath) {
-    logToExtension(`Test class file not found for: ${testClassName}`, 'WARN');
-    return null;
+  const symbol = createGherkinSymbol(document, container, container.isOutline ? vscode.SymbolKind.Class : vscode.SymbolKind.Method);
+  symbol.children = container.examples.map(examples => createGherkinSymbol(document, examples, vscode.SymbolKind.Array));
+  return symbol;
+}
+
+/**
+ * Loose match of a symbol query: its characters appear in order in the name, ignoring case
+ */
+function matchesSymbolQuery(name: string, query: string): boolean {
+  const lowerName = name.toLowerCase();
+  let index = 0;
+  for (const char of query.toLowerCase()) {
+    if (char === ' ') {
+      continue;
+    }
+    index = lowerName.indexOf(char, index);
+    if (index < 0) {
+      return false;
+    }
+    index += char.length;
   }
+  return true;
+}
 
-  // Convert file path to package name
-  // e.g., /path/to/src/test/java/tw/datahunter/uc_api/bdd/TagClassAdminCrudTest.java
-  //    -> tw.datahunter.uc_api.bdd.TagClassAdminCrudTest
-  const relativePath = path.relative(testDir, testClassPath);
-  const fqn = relativePath
-    .replace(/\\/g, '/')           // Normalize path separators
-    .replace(/\.java$/, '')        // Remove .java extension
-    .replace(/\//g, '.');          // Convert path to package notation
-  
-  logToExtension(`Found FQN for ${testClassName}: ${fqn}`, 'DEBUG');
-  return fqn;
+/**
+ * Hover section for one matching step definition: method, Javadoc and captured arguments
+ */
+function appendStepDefinitionHover(markdown: vscode.MarkdownString, match: StepMatch, stepText: string): void {
+  const { definition } = match;
+  const location = vscode.Uri.file(definition.filePath).with({ fragment: `L${definition.methodLocation.line}` });
+
+  markdown.appendMarkdown(`**[${escapeMarkdown(`${definition.className}.${definition.methodName}`)}](${location.toString()})**`);
+  markdown.appendMarkdown(definition.packageName ? ` — ${escapeMarkdown(definition.packageName)}\n` : '\n');
+
+  const expression = definition.expression.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+  markdown.appendCodeblock(`@${definition.keyword}("${expression}")\n${definition.signature}`, 'java');
+
+  if (definition.javadoc) {
+    markdown.appendMarkdown(`${escapeMarkdown(definition.javadoc).replace(/\n/g, '  \n')}\n\n`);
+  }
+
+  if (match.arguments.length > 0) {
+    markdown.appendMarkdown(`${highlightArguments(stepText, match.arguments)}\n\n`);
+    markdown.appendMarkdown('| # | Captured | Parameter |\n|---|---|---|\n');
+    match.arguments.forEach((argument, index) => {
+      const parameter = definition.parameters[index];
+      markdown.appendMarkdown(`| ${index + 1} | ${toInlineCode(argument.value)} | ${parameter ? toInlineCode(parameter) : ''} |\n`);
+    });
+  }
 }
 
 /**
- * Recursively searches for a test class file by simple name
+ * Hover section listing an outline step's text for each Examples row
  */
-async function findTestClassPath(dir: string, className: string): Promise<string | null> {
-  const entries = fs.readdirSync(dir, { withFileTypes: true });
-  
-  for (const entry of entries) {
-    const fullPath = path.join(dir, entry.name);
-    
-    if (entry.isDirectory()) {
-      const result = await findTestClassPath(fullPath, className);
-      if (result) {
-        return result;
+function appendOutlineRowsHover(
+  markdown: vscode.MarkdownString,
+  entry: GherkinStepEntry,
+  definition: StepDefinition | undefined
+): void {
+  const { step, parent } = entry;
+  if (parent.type !== 'Scenario' || !parent.isOutline || !/<[^<>]+>/.test(step.text)) {
+    return;
+  }
+
+  const maxRows = 20;
+  const lines: string[] = [];
+  let rowCount = 0;
+  for (const examples of parent.examples) {
+    if (!examples.tableHeader) {
+      continue;
+    }
+    for (const row of examples.tableBody) {
+      rowCount++;
+      if (lines.length >= maxRows) {
+        continue;
       }
-    } else if (entry.name === `${className}.java`) {
-      return fullPath;
+      const text = substituteOutlinePlaceholders(step.text, examples.tableHeader, row);
+      const args = definition ? stepDefinitionIndex.matchDefinition(definition, text) : undefined;
+      lines.push(`- Line ${row.location.line}: ${args ? highlightArguments(text, args) : escapeMarkdown(text)}`);
     }
   }
-  
-  return null;
+
+  if (lines.length > 0) {
+    markdown.appendMarkdown('\n---\n\n**Examples**\n\n');
+    markdown.appendMarkdown(lines.join('\n'));
+    if (rowCount > lines.length) {
+      markdown.appendMarkdown(`\n- … ${rowCount - lines.length} more rows`);
+    }
+    markdown.appendMarkdown('\n');
+  }
 }
 
 /**
- * Recursively searches for Java test classes with Cucumber annotations
+ * Step text with the captured arguments in bold
  */
-async function findTestClassWithCucumberAnnotations(dir: string): Promise<string | null> {
-  const entries = fs.readdirSync(dir, { withFileTypes: true });
+function highlightArguments(text: string, args: StepArgument[]): string {
+  let result = '';
+  let offset = 0;
+  for (const argument of [...args].sort((a, b) => a.start - b.start)) {
+    if (argument.start < offset) {
+      continue;  // Nested group
+    }
+    result += escapeMarkdown(text.substring(offset, argument.start));
+    result += argument.end > argument.start ? `**${escapeMarkdown(text.substring(argument.start, argument.end))}**` : '';
+    offset = argument.end;
+  }
+  return result + escapeMarkdown(text.substring(offset));
+}
 
-  for (const entry of entries) {
-    if (entry.isDirectory()) {
-      const result = await findTestClassWithCucumberAnnotations(path.join(dir, entry.name));
-      if (result) {
-        return result;
-      }
-    } else if (entry.name.endsWith('Test.java') || entry.name.endsWith('Runner.java')) {
-      const filePath = path.join(dir, entry.name);
-      const content = fs.readFileSync(filePath, 'utf8');
+function escapeMarkdown(text: string): string {
+  return text.replace(/[\\`*_{}[\]()<>#+\-.!|~]/g, '\\$&');
+}
 
-      // Check if this file contains Cucumber annotations
-      if (content.includes('@RunWith') || content.includes('@CucumberOptions') ||
-          content.includes('io.cucumber')) {
-        // Extract class name (without .java extension)
-        return entry.name.replace('.java', '');
-      }
+function toInlineCode(text: string): string {
+  const fence = text.includes('`') ? '``' : '`';
+  return `${fence}${text.replace(/\|/g, '\\|')}${fence}`;
+}
+
+/**
+ * Step definition to rename and the range to rename at a position
+ *
+ * @throws Error when the position is not on a step (or annotation value) bound to exactly one definition
+ */
+async function findStepRenameTarget(
+  document: vscode.TextDocument,
+  position: vscode.Position
+): Promise<{ definition: StepDefinition; range: vscode.Range }> {
+  await ensureStepDefinitionIndex();
+
+  // Index unsaved Java changes so that annotation positions are current
+  for (const openDocument of vscode.workspace.textDocuments) {
+    if (path.extname(openDocument.uri.fsPath) === '.java' && (openDocument.isDirty || openDocument === document)) {
+      stepDefinitionIndex.updateFile(path.normalize(openDocument.uri.fsPath), openDocument.getText());
     }
   }
 
-  return null;
+  if (path.extname(document.uri.fsPath) === '.java') {
+    const definition = stepDefinitionIndex.getDefinitionAtLine(path.normalize(document.uri.fsPath), position.line + 1);
+    const range = definition ? toJavaRange(definition.expressionRange) : undefined;
+    if (!definition || !range || !range.contains(position)) {
+      throw new Error('Place the cursor on the pattern of a step annotation to rename a step');
+    }
+    return { definition, range };
+  }
+
+  const result = await findStepMatchesAtLine(document, position.line + 1);
+  if (!result) {
+    throw new Error('Place the cursor on a step to rename it');
+  }
+  if (result.matches.length !== 1) {
+    throw new Error(result.matches.length === 0
+      ? 'No step definition matches this step'
+      : `This step is ambiguous: ${result.matches.length} step definitions match it`);
+  }
+  return { definition: result.matches[0].definition, range: toRange(result.entry.step.textRange) };
 }
 
 /**
- * Recursively searches for the steps directory
+ * Arguments of a step for a step definition, as written in the feature file
+ *
+ * Outline steps are matched with their first Examples row; arguments that
+ * come from a `<placeholder>` are returned as the placeholder.
+ *
+ * @returns The argument texts, or undefined when the step does not match the definition
  */
-async function findStepsDir(dir: string): Promise<string | null> {
-  const entries = fs.readdirSync(dir, { withFileTypes: true });
-  
-  // First check if current directory is a steps folder
-  if (dir.endsWith('steps') || dir.endsWith('step')) {
-    // Check if it contains Java files directly
-    const hasJavaFiles = entries.some(entry => !entry.isDirectory() && entry.name.endsWith('.java'));
-    
-    // Check Java files in subdirectories
-    if (!hasJavaFiles) {
-      // Recursive inner function to check directories
-      const checkSubDirsForJavaFiles = (subDir: string): boolean => {
-        const subEntries = fs.readdirSync(subDir, { withFileTypes: true });
-        
-        // Does this subdirectory have Java files?
-        const hasDirectJavaFiles = subEntries.some(entry => !entry.isDirectory() && entry.name.endsWith('.java'));
-        if (hasDirectJavaFiles) {
-          return true;
-        }
-        
-        // Check deeper subdirectories if they exist
-        for (const entry of subEntries) {
-          if (entry.isDirectory()) {
-            const hasJavaInSubDir = checkSubDirsForJavaFiles(path.join(subDir, entry.name));
-            if (hasJavaInSubDir) {
-              return true;
-            }
-          }
-        }
-        
-        return false;
-      };
-      
-      // Accept this directory if subdirectories contain Java files
-      const hasJavaFilesInSubDirs = entries.some(entry => {
-        if (entry.isDirectory()) {
-          return checkSubDirsForJavaFiles(path.join(dir, entry.name));
-        }
-        return false;
-      });
-      
-      if (hasJavaFilesInSubDirs) {
-        return dir;
-      }
-    } else {
-      // If Java files exist directly in the directory
-      return dir;
+function getStepArgumentValues(entry: GherkinStepEntry, definition: StepDefinition): string[] | undefined {
+  const { step, parent } = entry;
+  const examples = parent.type === 'Scenario' && parent.isOutline
+    ? parent.examples.find(e => e.tableHeader && e.tableBody.length > 0)
+    : undefined;
+
+  // Substitute the first Examples row, remembering where each placeholder went
+  const segments: Array<{ sourceStart: number; sourceEnd: number; start: number; end: number }> = [];
+  let text = step.text;
+  if (examples && examples.tableHeader) {
+    const header = examples.tableHeader;
+    const row = examples.tableBody[0];
+    text = '';
+    let last = 0;
+    for (const placeholder of step.text.matchAll(/<([^<>]+)>/g)) {
+      const column = header.cells.findIndex(cell => cell.value === placeholder[1]);
+      const value = column >= 0 && column < row.cells.length ? row.cells[column].value : placeholder[0];
+      text += step.text.substring(last, placeholder.index!);
+      const start = text.length;
+      text += value;
+      last = placeholder.index! + placeholder[0].length;
+      segments.push({ sourceStart: placeholder.index!, sourceEnd: last, start, end: text.length });
     }
+    text += step.text.substring(last);
   }
-  
-  // If nothing found, search in subdirectories
-  for (const entry of entries) {
-    if (entry.isDirectory()) {
-      const subDir = path.join(dir, entry.name);
-      const result = await findStepsDir(subDir);
-      if (result) {
-        return result;
+
+  const args = stepDefinitionIndex.matchDefinition(definition, text);
+  if (!args) {
+    return undefined;
+  }
+
+  const toSourceOffset = (offset: number, isEnd: boolean) => {
+    let delta = 0;
+    for (const segment of segments) {
+      if (offset <= segment.start) {
+        return offset + delta;
       }
+      if (offset < segment.end) {
+        return isEnd ? segment.sourceEnd : segment.sourceStart;
+      }
+      delta = segment.sourceEnd - segment.end;
     }
-  }
-  
-  return null;
+    return offset + delta;
+  };
+
+  return args.map(argument => step.text.substring(toSourceOffset(argument.start, false), toSourceOffset(argument.end, true)));
+}
+
+/**
+ * Converts a Java source range (1-based) to an editor range
+ */
+function toJavaRange(range: { start: JavaLocation; end: JavaLocation }): vscode.Range {
+  return new vscode.Range(range.start.line - 1, range.start.column - 1, range.end.line - 1, range.end.column - 1);
+}
+
+/**
+ * Range of a step from its keyword to the end of its text
+ */
+function toStepRange(entry: GherkinStepEntry): vscode.Range {
+  const { step } = entry;
+  return new vscode.Range(
+    step.location.line - 1,
+    step.location.column - 1,
+    step.textRange.end.line - 1,
+    step.textRange.end.column - 1
+  );
+}
+
+/**
+ * Location of a step definition's method name
+ */
+function toDefinitionLocation(definition: StepDefinition): vscode.Location {
+  const start = new vscode.Position(definition.methodLocation.line - 1, definition.methodLocation.column - 1);
+  return new vscode.Location(
+    vscode.Uri.file(definition.filePath),
+    new vscode.Range(start, start.translate(0, definition.methodName.length))
+  );
 }
 
 /**
@@ -3037,7 +6473,8 @@ public class CucumberRunner {
     String[] cucumberArgs = new String[] {
       "${cucumberPath}",
       "--glue", "${gluePath}",
-      "--plugin", "pretty"
+      "--plugin", "pretty",
+      "--plugin", "${RERUN_PLUGIN}"
     };
     Main.main(cucumberArgs);
   }
@@ -3057,6 +6494,35 @@ public class CucumberRunner {
   terminal.show();
 }
 
+/**
+ * Runs failed scenarios of a module in Java execution mode, through a rerun file
+ *
+ * The scenarios are written to the rerun file and passed as `@target/cucumber-rerun.txt`;
+ * Cucumber reads it while parsing its arguments, before its rerun plugin
+ * rewrites it with the scenarios that still fail.
+ */
+async function runRerunFileWithJava(
+  modulePath: string,
+  selections: FeatureSelection[],
+  onOutput?: (chunk: string) => void,
+  onStepUpdate?: (step: StepResult) => void,
+  tagExpression?: string
+): Promise<number> {
+  const gluePath = await findGluePath(modulePath);
+  if (!gluePath) {
+    logToExtension(`❌ Glue path not found for rerun in ${modulePath}`, 'ERROR');
+    vscode.window.showErrorMessage('Glue path not found, set customGluePath to rerun failed scenarios.');
+    return 1;
+  }
+
+  const rerunFile = path.join(modulePath, RERUN_FILE);
+  fs.mkdirSync(path.dirname(rerunFile), { recursive: true });
+  fs.writeFileSync(rerunFile, formatRerunFile(selections));
+  logToExtension(`Rerunning failed scenarios from ${rerunFile}`, 'INFO');
+
+  return runCucumberTestWithResult(modulePath, `@${RERUN_FILE}`, gluePath, undefined, undefined, onOutput, onStepUpdate, tagExpression);
+}
+
 /**
  * Runs the Cucumber test via child_process and returns the exit code.
  */
@@ -3064,25 +6530,33 @@ async function runCucumberTestWithResult(
   projectRoot: string,
   featurePath: string,
   gluePath: string,
-  lineNumber?: number,
+  lineNumber?: FeatureLines,
   exampleLineNumber?: number,
-  onOutput?: (chunk: string) => void
+  onOutput?: (chunk: string) => void,
+  onStepUpdate?: (step: StepResult) => void,
+  tagExpression?: string
 ): Promise<number> {
   // Build cucumber path with optional line specifiers
-  let cucumberPath = featurePath.replace(/\\/g, '/');
-  if (lineNumber && lineNumber > 0) {
-    if (exampleLineNumber && exampleLineNumber > 0) {
-      cucumberPath += ':' + exampleLineNumber;
-    } else {
-      cucumberPath += ':' + lineNumber;
-    }
-  }
+  const cucumberPath = appendLineFilters(
+    featurePath.replace(/\\/g, '/'),
+    lineNumber ? (exampleLineNumber || lineNumber) : undefined
+  );
 
   const tmpDir = path.join(projectRoot, 'target', 'tmp');
   if (!fs.existsSync(tmpDir)) {
     fs.mkdirSync(tmpDir, { recursive: true });
   }
 
+  // Live results come from Cucumber's message plugin
+  const messagesFile = onStepUpdate ? createMessagesFilePath() : undefined;
+  const messagePlugin = messagesFile ? `,
+      "--plugin", "${toMessagePluginOption(messagesFile)}"` : '';
+
+  // JSON string literals are valid Java string literals, escapes in tag names included
+  const cucumberTags = getCucumberTagFilter(vscode.workspace.getConfiguration('cucumberJavaEasyRunner'), tagExpression);
+  const tagsOption = cucumberTags ? `,
+      "--tags", ${JSON.stringify(cucumberTags)}` : '';
+
   const javaFilePath = path.join(tmpDir, 'CucumberRunner.java');
   const javaCode = `
 import io.cucumber.core.cli.Main;
@@ -3093,7 +6567,8 @@ public class CucumberRunner {
     String[] cucumberArgs = new String[] {
       "${cucumberPath}",
       "--glue", "${gluePath}",
-      "--plugin", "pretty"
+      "--plugin", "pretty",
+      "--plugin", "${RERUN_PLUGIN}"${messagePlugin}${tagsOption}
     };
     Main.main(cucumberArgs);
   }
@@ -3139,7 +6614,15 @@ public class CucumberRunner {
   }
 
   // 3) Run tests and stream output
+  const tracker = onStepUpdate
+    ? new CucumberMessageTracker(onStepUpdate, (msg, level) => logToExtension(`[MESSAGES] ${msg}`, level))
+    : undefined;
+  if (tracker && messagesFile) {
+    tracker.watch(messagesFile);
+  }
+
   const runCp = [fullClasspath, tmpDir].join(delimiter);
+  const launchedAt = Date.now();
   const child = spawn('java', ['-cp', runCp, 'CucumberRunner'], { cwd: projectRoot });
   return await new Promise<number>((resolve) => {
     child.stdout?.on('data', (chunk: Buffer) => {
@@ -3149,6 +6632,8 @@ public class CucumberRunner {
       if (onOutput) {onOutput(chunk.toString());}
     });
     child.on('close', (code) => {
+      tracker?.stop();
+      rememberFailedScenarios(projectRoot, launchedAt);
       resolve(typeof code === 'number' ? code : 1);
     });
   });
@@ -3199,7 +6684,7 @@ async function runCucumberTestWithMaven(
   const config = vscode.workspace.getConfiguration('cucumberJavaEasyRunner');
   const mavenArgs = config.get<string>('mavenArgs', '');
   const mavenProfile = config.get<string>('mavenProfile', '');
-  const cucumberTags = config.get<string>('cucumberTags', '');
+  const cucumberTags = getCucumberTagFilter(config);
   const envVars = config.get<{ [key: string]: string }>('environmentVariables', {});
 
   // Convert feature path to classpath format
@@ -3276,7 +6761,7 @@ async function runCucumberTestWithMavenDebug(
   const config = vscode.workspace.getConfiguration('cucumberJavaEasyRunner');
   const mavenArgs = config.get<string>('mavenArgs', '');
   const mavenProfile = config.get<string>('mavenProfile', '');
-  const cucumberTags = config.get<string>('cucumberTags', '');
+  const cucumberTags = getCucumberTagFilter(config);
   const showStepResults = config.get<boolean>('showStepResults', true);
   const envVars = config.get<{ [key: string]: string }>('environmentVariables', {});
 
@@ -3337,7 +6822,8 @@ async function runCucumberTestWithMavenDebug(
   logToExtension(`Disabling JaCoCo plugin completely in debug mode`, 'DEBUG');
 
   // Create output parser with step status callback
-  const parser = cucumberOutputChannel ? new CucumberOutputParser(cucumberOutputChannel, showStepResults, onStepUpdate) : null;
+  const dialects = await getFeatureDialects([path.join(workspaceRoot, featurePath)]);
+  const parser = cucumberOutputChannel ? new CucumberOutputParser(cucumberOutputChannel, showStepResults, onStepUpdate, dialects) : null;
 
   // ⭐ v22: CRITICAL FIX - Use MAVEN_OPTS for Surefire inheritance
   // Problem in v21: -DargLine doesn't work when pom.xml has <configuration> without ${argLine}
@@ -3423,27 +6909,47 @@ async function runCucumberTestWithMavenUnified(
   relativePath: string,
   testClassName: string,
   isDebug: boolean,
-  lineNumber?: number,
+  lineNumber?: FeatureLines,
   exampleLine?: number,
   projectName?: string,
   onOutput?: (chunk: any) => void,
-  onStepUpdate?: (step: StepResult) => void
+  onStepUpdate?: (step: StepResult) => void,
+  featureSelections?: FeatureSelection[],
+  tagExpression?: string
 ): Promise<number> {
   const modeLabel = isDebug ? 'DEBUG' : 'RUN';
   logToExtension(`⭐ UNIFIED: Executing Cucumber test (${modeLabel} MODE)`, 'INFO');
   logToExtension(`  Module: ${moduleInfo.moduleRelativePath}`, 'INFO');
   logToExtension(`  Test class: ${testClassName}`, 'INFO');
-  logToExtension(`  Feature: ${relativePath}${lineNumber ? ':' + lineNumber : ''}`, 'INFO');
 
   try {
     // Step 1: Build Maven command (same for both modes, just add debug flag if needed)
     const absoluteFeaturePath = path.join(workspaceRoot, relativePath);
     const featureRelativePath = extractFeatureRelativePath(absoluteFeaturePath, moduleInfo.modulePath);
+
+    // Several selected tests run in one invocation (Run mode only)
+    const cucumberFeatures = featureSelections
+      ? joinFeatureSelections(featureSelections)
+      : appendLineFilters(`classpath:${featureRelativePath}`, lineNumber ? (exampleLine || lineNumber) : undefined);
+    logToExtension(`  Features: ${cucumberFeatures}`, 'INFO');
+    const dialects = await getFeatureDialects(featureSelections
+      ? featureSelections.map(selection => resolveRerunFeaturePath(selection.featurePath, moduleInfo.modulePath))
+      : [absoluteFeaturePath]);
     
+    // Live results come from Cucumber's message plugin, not from the console output
+    const messagesFile = onStepUpdate ? createMessagesFilePath() : undefined;
+
     // Build base Maven args
     const mavenArgs = isDebug 
-      ? buildMavenDebugCommand(moduleInfo.moduleRelativePath, testClassName, featureRelativePath, lineNumber)
-      : buildMavenCommand(moduleInfo.moduleRelativePath, testClassName, featureRelativePath, lineNumber, exampleLine);
+      ? buildMavenDebugCommand(
+        moduleInfo.moduleRelativePath,
+        testClassName,
+        featureRelativePath,
+        lineNumber ? (exampleLine || lineNumber) : undefined,
+        messagesFile,
+        getCucumberTagFilter(vscode.workspace.getConfiguration('cucumberJavaEasyRunner'), tagExpression)
+      )
+      : buildMavenCommand(moduleInfo.moduleRelativePath, testClassName, cucumberFeatures, messagesFile, tagExpression);
 
     const mavenCommand = `mvn ${mavenArgs.join(' ')}`;
     logToExtension(`[UNIFIED] Maven command: ${mavenCommand}`, 'INFO');
@@ -3456,14 +6962,26 @@ async function runCucumberTestWithMavenUnified(
       cucumberOutputChannel = vscode.window.createOutputChannel('Cucumber');
     }
     
+    // The pretty output is still parsed for the Cucumber output channel,
+    // Test Explorer updates come from the message tracker
     const parser = new CucumberOutputParser(
       cucumberOutputChannel,
       showStepResults,
-      onStepUpdate
+      undefined,
+      dialects
     );
 
+    const tracker = onStepUpdate
+      ? new CucumberMessageTracker(onStepUpdate, (msg, level) => logToExtension(`[MESSAGES] ${msg}`, level))
+      : undefined;
+    if (tracker && messagesFile) {
+      logToExtension(`[UNIFIED] Following Cucumber messages: ${messagesFile}`, 'DEBUG');
+      tracker.watch(messagesFile);
+    }
+
     // Step 3: Start Maven process
     logToExtension(`[UNIFIED] Starting Maven process...`, 'INFO');
+    const launchedAt = Date.now();
     const mavenProcess = spawn('mvn', mavenArgs, {
       cwd: workspaceRoot,
       env: process.env
@@ -3523,6 +7041,7 @@ async function runCucumberTestWithMavenUnified(
       if (!portReady) {
         logToExtension('[UNIFIED-DEBUG] ❌ Timeout waiting for debug port', 'ERROR');
         mavenProcess.kill();
+        tracker?.stop();
         vscode.window.showErrorMessage('Timeout waiting for Maven Surefire debug server to start');
         return 1;
       }
@@ -3541,6 +7060,7 @@ async function runCucumberTestWithMavenUnified(
       if (!started) {
         logToExtension('[UNIFIED-DEBUG] ❌ Failed to attach debugger', 'ERROR');
         mavenProcess.kill();
+        tracker?.stop();
         vscode.window.showErrorMessage('Failed to attach debugger');
         return 1;
       }
@@ -3561,7 +7081,15 @@ async function runCucumberTestWithMavenUnified(
         
         // Finalize parser
         parser.finalize();
+
+        // Read the last messages Cucumber wrote before exiting
+        if (tracker) {
+          tracker.stop();
+          logToExtension(`[UNIFIED] Read ${tracker.envelopesRead} Cucumber messages`, 'DEBUG');
+        }
         
+        rememberFailedScenarios(moduleInfo.modulePath, launchedAt);
+
         // Parse summary from output
         const testSummary = parseTestSummary(fullOutput);
         
@@ -3573,6 +7101,7 @@ async function runCucumberTestWithMavenUnified(
 
       mavenProcess.on('error', (error) => {
         logToExtension(`[UNIFIED] Maven process error: ${error.message}`, 'ERROR');
+        tracker?.stop();
         resolve(1);
       });
     });
@@ -3592,13 +7121,13 @@ async function runCucumberTestWithMavenUnified(
 function buildMavenCommand(
   moduleRelativePath: string,
   testClassName: string,
-  featureRelativePath: string,
-  lineNumber?: number,
-  exampleLine?: number
+  cucumberFeatures: string,
+  messagesFile?: string,
+  tagExpression?: string
 ): string[] {
   const config = vscode.workspace.getConfiguration('cucumberJavaEasyRunner');
   const mavenProfile = config.get<string>('mavenProfile', '');
-  const cucumberTags = config.get<string>('cucumberTags', '');
+  const cucumberTags = getCucumberTagFilter(config, tagExpression);
   const mavenArgs = config.get<string>('mavenArgs', '');
 
   const args = ['test'];
@@ -3607,15 +7136,13 @@ function buildMavenCommand(
     args.push(`-P${mavenProfile}`);
   }
 
-  let cucumberFeatures = `classpath:${featureRelativePath}`;
-  if (lineNumber && lineNumber > 0) {
-    cucumberFeatures += ':' + (exampleLine || lineNumber);
-  }
-
   args.push(`-Dcucumber.features=${cucumberFeatures}`);
 
   // ⭐ Add Cucumber pretty plugin for step-by-step output with status symbols
-  args.push('-Dcucumber.plugin=pretty');
+  // and the message plugin (NDJSON) for exact live results in Test Explorer
+  args.push(messagesFile
+    ? `-Dcucumber.plugin=pretty,${RERUN_PLUGIN},${toMessagePluginOption(messagesFile)}`
+    : `-Dcucumber.plugin=pretty,${RERUN_PLUGIN}`);
 
   // ⭐ Prevent test execution twice (same as DEBUG mode)
   args.push('-Dsurefire.includeJUnit5Engines=cucumber');
@@ -3640,34 +7167,36 @@ function buildMavenCommand(
 /**
  * Helper: Parse test summary from output
  */
-function parseTestSummary(output: string): {
-  scenarios: number;
-  steps: number;
-  passed: number;
-  failures: number;
-  skipped: number;
-} {
-  const testSummary = {
+function parseTestSummary(output: string): TestSummary {
+  const testSummary: TestSummary = {
     scenarios: 0,
     steps: 0,
     passed: 0,
     failures: 0,
-    skipped: 0
+    skipped: 0,
+    pending: 0,
+    undefined: 0,
+    ambiguous: 0
   };
 
   const lines = output.split('\n');
   
   for (const line of lines) {
+    // e.g. "5 Scenarios (1 failed, 1 undefined, 1 pending, 1 ambiguous, 1 passed)"
     const scenarioMatch = line.match(/(\d+)\s+Scenarios?\s+\(([^)]+)\)/i);
     if (scenarioMatch) {
       testSummary.scenarios = parseInt(scenarioMatch[1]);
       const details = scenarioMatch[2];
-      const failedMatch = details.match(/(\d+)\s+failed/);
-      const passedMatch = details.match(/(\d+)\s+passed/);
-      const skippedMatch = details.match(/(\d+)\s+skipped/);
-      if (failedMatch) {testSummary.failures = parseInt(failedMatch[1]);}
-      if (passedMatch) {testSummary.passed = parseInt(passedMatch[1]);}
-      if (skippedMatch) {testSummary.skipped = parseInt(skippedMatch[1]);}
+      const count = (status: string) => {
+        const match = details.match(new RegExp(`(\\d+)\\s+${status}`));
+        return match ? parseInt(match[1]) : 0;
+      };
+      testSummary.failures = count('failed');
+      testSummary.passed = count('passed');
+      testSummary.skipped = count('skipped');
+      testSummary.pending = count('pending');
+      testSummary.undefined = count('undefined');
+      testSummary.ambiguous = count('ambiguous');
     }
 
     const stepsMatch = line.match(/(\d+)\s+Steps?\s+\(([^)]+)\)/i);
@@ -3683,11 +7212,17 @@ function parseTestSummary(output: string): {
  * Helper: Show test summary
  */
 function showTestSummary(
-  testSummary: { scenarios: number; steps: number; passed: number; failures: number; skipped: number },
+  testSummary: TestSummary,
   exitCode: number,
   mode: string
 ): void {
-  const testsPassed = testSummary.failures === 0 && exitCode === 0;
+  const problems: Array<[number, string, string]> = [
+    [testSummary.failures, 'failure', 'failures'],
+    [testSummary.undefined, 'undefined', 'undefined'],
+    [testSummary.pending, 'pending', 'pending'],
+    [testSummary.ambiguous, 'ambiguous', 'ambiguous']
+  ];
+  const testsPassed = problems.every(([count]) => count === 0) && exitCode === 0;
 
   if (cucumberOutputChannel) {
     cucumberOutputChannel.appendLine('\n═══════════════════════════════════════════');
@@ -3702,6 +7237,15 @@ function showTestSummary(
     if (testSummary.failures > 0) {
       cucumberOutputChannel.appendLine(`❌ Failures: ${testSummary.failures}`);
     }
+    if (testSummary.undefined > 0) {
+      cucumberOutputChannel.appendLine(`❓ Undefined: ${testSummary.undefined}`);
+    }
+    if (testSummary.pending > 0) {
+      cucumberOutputChannel.appendLine(`⏸ Pending: ${testSummary.pending}`);
+    }
+    if (testSummary.ambiguous > 0) {
+      cucumberOutputChannel.appendLine(`⁉ Ambiguous: ${testSummary.ambiguous}`);
+    }
     if (testSummary.skipped > 0) {
       cucumberOutputChannel.appendLine(`⊝ Skipped: ${testSummary.skipped}`);
     }
@@ -3711,7 +7255,11 @@ function showTestSummary(
     if (testsPassed) {
       vscode.window.showInformationMessage(`✅ ${mode}: All tests passed! (${testSummary.scenarios} scenarios, ${testSummary.steps} steps)`);
     } else {
-      vscode.window.showErrorMessage(`❌ ${mode}: Tests failed! (${testSummary.failures} ${testSummary.failures === 1 ? 'failure' : 'failures'})`);
+      const details = problems
+        .filter(([count]) => count > 0)
+        .map(([count, singular, plural]) => `${count} ${count === 1 ? singular : plural}`)
+        .join(', ');
+      vscode.window.showErrorMessage(`❌ ${mode}: Tests failed! (${details || `exit code ${exitCode}`})`);
     }
   }
 }
@@ -3733,7 +7281,7 @@ async function runCucumberTestWithMavenResult(
   const config = vscode.workspace.getConfiguration('cucumberJavaEasyRunner');
   const mavenArgs = config.get<string>('mavenArgs', '');
   const mavenProfile = config.get<string>('mavenProfile', '');
-  const cucumberTags = config.get<string>('cucumberTags', '');
+  const cucumberTags = getCucumberTagFilter(config);
   const showStepResults = config.get<boolean>('showStepResults', true);
   const envVars = config.get<{ [key: string]: string }>('environmentVariables', {});
 
@@ -3780,7 +7328,8 @@ async function runCucumberTestWithMavenResult(
   logToExtension(`Maven test command: mvn ${mvnArgs.join(' ')}`, 'INFO');
 
   // Create output parser with step status callback
-  const parser = cucumberOutputChannel ? new CucumberOutputParser(cucumberOutputChannel, showStepResults, onStepUpdate) : null;
+  const dialects = await getFeatureDialects([path.join(workspaceRoot, featurePath)]);
+  const parser = cucumberOutputChannel ? new CucumberOutputParser(cucumberOutputChannel, showStepResults, onStepUpdate, dialects) : null;
   logToExtension(`Output parser created, showStepResults: ${showStepResults}, callback: ${onStepUpdate ? 'enabled' : 'disabled'}`, 'DEBUG');
 
   // Merge environment variables
@@ -4242,7 +7791,8 @@ async function runCucumberTestWithMavenDebugAndResult(
     const parser = new CucumberOutputParser(
       cucumberOutputChannel,
       showStepResults,
-      onStepUpdate
+      onStepUpdate,
+      await getFeatureDialects([absoluteFeaturePath])
     );
 
     // Step 3: Create debug configuration
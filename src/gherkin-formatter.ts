@@ -0,0 +1,304 @@
+/**
+ * Gherkin formatter
+ *
+ * Re-indents feature files from their parsed structure and aligns table
+ * columns. Formatting never adds or removes lines: every line is either
+ * re-indented, rewritten in place (table rows, doc string fences) or kept
+ * as it is (descriptions, blank lines and anything the parser did not
+ * recognise).
+ *
+ * @module gherkin-formatter
+ */
+
+import {
+  GherkinDocument,
+  GherkinBackground,
+  GherkinScenario,
+  GherkinStep,
+  GherkinTableRow,
+  GherkinTag,
+  GherkinDocString
+} from './gherkin-parser';
+
+export interface GherkinFormatOptions {
+  /** One level of indentation, e.g. two spaces or a tab */
+  indent: string;
+}
+
+/**
+ * First and last 1-based line of a block that must be formatted as a whole
+ */
+export interface GherkinLineBlock {
+  startLine: number;
+  endLine: number;
+}
+
+type LineFormat =
+  | { kind: 'indent'; level: number }
+  | { kind: 'table'; level: number; row: GherkinTableRow; widths: number[] }
+  | { kind: 'docStringFence'; level: number; delimiter: string; mediaType?: string }
+  | { kind: 'docStringContent'; level: number; originalIndent: number };
+
+const DEFAULT_OPTIONS: GherkinFormatOptions = { indent: '  ' };
+
+/**
+ * Formats Gherkin source
+ *
+ * @param source - Feature file content
+ * @param document - The parsed source (e.g. from `getGherkinDocument`)
+ * @returns The formatted source, with the same number of lines and line endings
+ *
+ * @example
+ * formatGherkin('Feature: A\nScenario: B\nGiven c\n|a|bb|\n|ccc|d|', parseGherkin(...))
+ * // Returns: 'Feature: A\n  Scenario: B\n    Given c\n      | a   | bb |\n      | ccc | d  |'
+ */
+export function formatGherkin(
+  source: string,
+  document: GherkinDocument,
+  options: GherkinFormatOptions = DEFAULT_OPTIONS
+): string {
+  const eol = source.includes('\r\n') ? '\r\n' : '\n';
+  return formatGherkinLines(source, document, options).join(eol);
+}
+
+/**
+ * Formats Gherkin source, returning one entry per source line
+ */
+export function formatGherkinLines(
+  source: string,
+  document: GherkinDocument,
+  options: GherkinFormatOptions = DEFAULT_OPTIONS
+): string[] {
+  const lines = source.split(/\r?\n/);
+  const formats = collectLineFormats(lines, document);
+  const result = lines.map((line, index) => formatLine(line, formats.get(index + 1), options));
+
+  // Comments take the indentation of the line they precede
+  let nextIndent: string | undefined;
+  for (let index = lines.length - 1; index >= 0; index--) {
+    const trimmed = result[index].trim();
+    const format = formats.get(index + 1);
+    if (format && format.kind !== 'docStringContent') {
+      nextIndent = options.indent.repeat(format.level);
+    } else if (trimmed.startsWith('#') && !format && nextIndent !== undefined && !isLanguageHeader(lines, index)) {
+      result[index] = nextIndent + trimmed;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Tables and doc strings of a document, which must be formatted whole
+ *
+ * Used to widen a range formatting request so that a table is never
+ * partially aligned.
+ */
+export function getFormattingBlocks(document: GherkinDocument): GherkinLineBlock[] {
+  const blocks: GherkinLineBlock[] = [];
+  forEachContainer(document, (container) => {
+    for (const step of container.steps) {
+      if (step.dataTable) {
+        blocks.push({ startLine: step.dataTable.range.start.line, endLine: step.dataTable.range.end.line });
+      }
+      if (step.docString) {
+        blocks.push({ startLine: step.docString.range.start.line, endLine: step.docString.range.end.line });
+      }
+    }
+    if (container.type === 'Scenario') {
+      for (const examples of container.examples) {
+        const rows = tableRows(examples.tableHeader, examples.tableBody);
+        if (rows.length > 0) {
+          blocks.push({ startLine: rows[0].location.line, endLine: rows[rows.length - 1].location.line });
+        }
+      }
+    }
+  });
+  return blocks;
+}
+
+/**
+ * Width of text in a monospace editor, counting wide (e.g. CJK) characters as two columns
+ *
+ * @example
+ * displayWidth('登入') // Returns: 4
+ */
+export function displayWidth(text: string): number {
+  let width = 0;
+  for (const char of text) {
+    const codePoint = char.codePointAt(0)!;
+    if (/\p{Mn}|\p{Me}|\p{Cf}/u.test(char)) {
+      continue;
+    }
+    width += isWideCodePoint(codePoint) ? 2 : 1;
+  }
+  return width;
+}
+
+function collectLineFormats(lines: string[], document: GherkinDocument): Map<number, LineFormat> {
+  const formats = new Map<number, LineFormat>();
+  const feature = document.feature;
+  if (!feature) {
+    return formats;
+  }
+
+  const setIndent = (line: number, level: number) => formats.set(line, { kind: 'indent', level });
+  const setTags = (tags: GherkinTag[], level: number) => tags.forEach(tag => setIndent(tag.location.line, level));
+
+  setTags(feature.tags, 0);
+  setIndent(feature.location.line, 0);
+
+  const addContainer = (container: GherkinBackground | GherkinScenario, level: number) => {
+    if (container.type === 'Scenario') {
+      setTags(container.tags, level);
+    }
+    setIndent(container.location.line, level);
+
+    for (const step of container.steps) {
+      addStep(formats, lines, step, level + 1);
+    }
+
+    if (container.type === 'Scenario') {
+      for (const examples of container.examples) {
+        setTags(examples.tags, level + 1);
+        setIndent(examples.location.line, level + 1);
+        addTable(formats, lines, tableRows(examples.tableHeader, examples.tableBody), level + 2);
+      }
+    }
+  };
+
+  for (const child of feature.children) {
+    if (child.type === 'Rule') {
+      setTags(child.tags, 1);
+      setIndent(child.location.line, 1);
+      child.children.forEach(ruleChild => addContainer(ruleChild, 2));
+    } else {
+      addContainer(child, 1);
+    }
+  }
+
+  return formats;
+}
+
+function addStep(formats: Map<number, LineFormat>, lines: string[], step: GherkinStep, level: number): void {
+  formats.set(step.location.line, { kind: 'indent', level });
+  if (step.dataTable) {
+    addTable(formats, lines, step.dataTable.rows, level + 1);
+  }
+  if (step.docString) {
+    addDocString(formats, lines, step.docString, level + 1);
+  }
+}
+
+function addTable(formats: Map<number, LineFormat>, lines: string[], rows: GherkinTableRow[], level: number): void {
+  const widths: number[] = [];
+  for (const row of rows) {
+    row.cells.forEach((_, column) => {
+      const width = displayWidth(rawCellText(lines[row.location.line - 1], row, column));
+      widths[column] = Math.max(widths[column] || 0, width);
+    });
+  }
+  for (const row of rows) {
+    formats.set(row.location.line, { kind: 'table', level, row, widths });
+  }
+}
+
+function addDocString(formats: Map<number, LineFormat>, lines: string[], docString: GherkinDocString, level: number): void {
+  const start = docString.range.start.line;
+  const end = docString.range.end.line;
+  const contentLines = lines.slice(start, end);
+
+  // """ is the canonical fence, unless the content would need escaping
+  const delimiter = docString.delimiter === '```' && !contentLines.some(line => line.includes('"""') || line.includes('\\`\\`\\`'))
+    ? '"""'
+    : docString.delimiter;
+
+  // An unterminated doc string runs to the end of the file, its last line is content
+  const terminated = end > start && lines[end - 1].trim() === docString.delimiter;
+  const contentEnd = terminated ? end - 1 : end;
+
+  formats.set(start, { kind: 'docStringFence', level, delimiter, mediaType: docString.mediaType });
+  if (terminated) {
+    formats.set(end, { kind: 'docStringFence', level, delimiter });
+  }
+  for (let line = start + 1; line <= contentEnd; line++) {
+    formats.set(line, { kind: 'docStringContent', level, originalIndent: docString.location.column - 1 });
+  }
+}
+
+function formatLine(line: string, format: LineFormat | undefined, options: GherkinFormatOptions): string {
+  if (!format) {
+    return line.trimEnd();
+  }
+
+  const indent = options.indent.repeat(format.level);
+  switch (format.kind) {
+    case 'indent':
+      return indent + line.trim();
+
+    case 'table': {
+      const cells = format.row.cells.map((_, column) => {
+        const text = rawCellText(line, format.row, column);
+        return text + ' '.repeat(Math.max(0, format.widths[column] - displayWidth(text)));
+      });
+      return `${indent}| ${cells.join(' | ')} |`;
+    }
+
+    case 'docStringFence':
+      return `${indent}${format.delimiter}${format.mediaType || ''}`;
+
+    case 'docStringContent': {
+      // Only the indentation changes, the content (trailing spaces included) is test data
+      const available = line.length - line.trimStart().length;
+      const content = line.substring(Math.min(available, format.originalIndent));
+      return content === '' ? '' : indent + content;
+    }
+  }
+}
+
+/**
+ * Raw (still escaped) text of a cell, as written in the source
+ */
+function rawCellText(line: string, row: GherkinTableRow, column: number): string {
+  const cell = row.cells[column];
+  return line.substring(cell.range.start.column - 1, cell.range.end.column - 1);
+}
+
+function tableRows(header: GherkinTableRow | undefined, body: GherkinTableRow[]): GherkinTableRow[] {
+  return header ? [header, ...body] : body;
+}
+
+function forEachContainer(document: GherkinDocument, callback: (container: GherkinBackground | GherkinScenario) => void): void {
+  for (const child of document.feature?.children || []) {
+    if (child.type === 'Rule') {
+      child.children.forEach(callback);
+    } else {
+      callback(child);
+    }
+  }
+}
+
+/**
+ * The `# language:` header stays at the start of its line
+ */
+function isLanguageHeader(lines: string[], index: number): boolean {
+  return /^\s*#\s*language\s*:/.test(lines[index]) &&
+    lines.slice(0, index).every(line => line.trim() === '' || line.trim().startsWith('#'));
+}
+
+function isWideCodePoint(codePoint: number): boolean {
+  return (codePoint >= 0x1100 && codePoint <= 0x115F) ||
+    (codePoint >= 0x2E80 && codePoint <= 0x303E) ||
+    (codePoint >= 0x3041 && codePoint <= 0x33FF) ||
+    (codePoint >= 0x3400 && codePoint <= 0x4DBF) ||
+    (codePoint >= 0x4E00 && codePoint <= 0x9FFF) ||
+    (codePoint >= 0xA000 && codePoint <= 0xA4CF) ||
+    (codePoint >= 0xAC00 && codePoint <= 0xD7A3) ||
+    (codePoint >= 0xF900 && codePoint <= 0xFAFF) ||
+    (codePoint >= 0xFE30 && codePoint <= 0xFE4F) ||
+    (codePoint >= 0xFF00 && codePoint <= 0xFF60) ||
+    (codePoint >= 0xFFE0 && codePoint <= 0xFFE6) ||
+    (codePoint >= 0x1F300 && codePoint <= 0x1F64F) ||
+    (codePoint >= 0x1F900 && codePoint <= 0x1F9FF) ||
+    (codePoint >= 0x20000 && codePoint <= 0x3FFFD);
+}
@@ -0,0 +1,567 @@
+/**
+ * Gherkin lint rules
+ *
+ * Checks the conventions of a team's feature files on the parsed AST:
+ * scenario names, empty scenarios, required tags, scenario size, step
+ * keywords, Examples tables and outline placeholders. Every rule can be switched off, given a
+ * severity and options, using the same shape as a `.gherkin-lintrc` file:
+ *
+ * ```json
+ * {
+ *   "no-leading-and": "error",
+ *   "max-steps": ["warning", { "max": 8 }],
+ *   "required-tags": ["on", { "tags": ["@owner"] }],
+ *   "no-empty-scenarios": "off"
+ * }
+ * ```
+ *
+ * Problems carry text edits for their quick fixes, so this module does not
+ * depend on VS Code.
+ *
+ * @module gherkin-lint
+ */
+
+import {
+  GherkinDocument,
+  GherkinBackground,
+  GherkinScenario,
+  GherkinRange,
+  GherkinLocation,
+  GherkinTableRow,
+  ENGLISH_DIALECT,
+  getGherkinDialect,
+  getScenarios
+} from './gherkin-parser';
+
+export type GherkinLintSeverity = 'error' | 'warning' | 'info' | 'hint';
+
+/**
+ * Level of a rule in the settings: a severity, 'on' for the rule's default severity, or 'off'
+ */
+export type GherkinLintLevel = GherkinLintSeverity | 'on' | 'off';
+
+export type GherkinLintRuleSetting = GherkinLintLevel | [GherkinLintLevel, Record<string, unknown>?];
+
+/**
+ * Rule settings by rule name (the content of a `.gherkin-lintrc` file)
+ */
+export type GherkinLintSettings = Record<string, GherkinLintRuleSetting>;
+
+/**
+ * A text replacement, `range` may be empty to insert text
+ */
+export interface GherkinLintEdit {
+  range: GherkinRange;
+  newText: string;
+}
+
+export interface GherkinLintFix {
+  title: string;
+  edits: GherkinLintEdit[];
+  isPreferred?: boolean;
+}
+
+export interface GherkinLintProblem {
+  rule: string;
+  severity: GherkinLintSeverity;
+  message: string;
+  range: GherkinRange;
+  fixes: GherkinLintFix[];
+}
+
+/**
+ * A rule enabled by the settings, with its options merged over the defaults
+ */
+export interface GherkinLintRuleConfig {
+  rule: string;
+  severity: GherkinLintSeverity;
+  options: Record<string, unknown>;
+}
+
+interface LintContext {
+  document: GherkinDocument;
+  lines: string[];
+  options: Record<string, unknown>;
+  report(range: GherkinRange, message: string, fixes?: GherkinLintFix[]): void;
+}
+
+interface LintRule {
+  description: string;
+  defaultSeverity: GherkinLintSeverity | 'off';
+  defaultOptions: Record<string, unknown>;
+  check(context: LintContext): void;
+}
+
+const RULES: Record<string, LintRule> = {
+  'no-dupe-scenario-names': {
+    description: 'Scenario names must be unique within a feature file',
+    defaultSeverity: 'warning',
+    defaultOptions: {},
+    check({ document, report }) {
+      const firstLines = new Map<string, number>();
+      for (const scenario of getScenarios(document.feature!)) {
+        const name = scenario.name.trim();
+        if (!name) {
+          continue;
+        }
+        const firstLine = firstLines.get(name);
+        if (firstLine === undefined) {
+          firstLines.set(name, scenario.location.line);
+        } else {
+          report(headerRange(scenario), `Duplicate scenario name "${name}" (first used on line ${firstLine})`);
+        }
+      }
+    }
+  },
+
+  'no-empty-scenarios': {
+    description: 'Scenarios must have at least one step',
+    defaultSeverity: 'warning',
+    defaultOptions: {},
+    check({ document, report }) {
+      for (const scenario of getScenarios(document.feature!)) {
+        if (scenario.steps.length === 0) {
+          report(headerRange(scenario), `Empty scenario: "${scenario.name.trim() || scenario.keyword}" has no steps`);
+        }
+      }
+    }
+  },
+
+  'required-tags': {
+    description: 'The feature must carry each of the configured tags',
+    defaultSeverity: 'off',
+    defaultOptions: { tags: [] },
+    check({ document, options, report }) {
+      const feature = document.feature!;
+      const required = toStringArray(options.tags).map(tag => tag.startsWith('@') ? tag : `@${tag}`);
+      const present = new Set(feature.tags.map(tag => tag.name));
+      const missing = required.filter(tag => !present.has(tag));
+      if (missing.length === 0) {
+        return;
+      }
+
+      // Append to the last tag line, or add a tag line above the Feature keyword
+      const lastTag = feature.tags[feature.tags.length - 1];
+      const edit: GherkinLintEdit = lastTag
+        ? { range: emptyRange(lastTag.range.end), newText: ` ${missing.join(' ')}` }
+        : { range: emptyRange({ line: feature.location.line, column: 1 }), newText: `${' '.repeat(feature.location.column - 1)}${missing.join(' ')}\n` };
+      report(
+        headerRange(feature),
+        `Feature is missing required tag${missing.length === 1 ? '' : 's'} ${missing.join(', ')}`,
+        [{ title: `Add ${missing.join(' ')}`, edits: [edit], isPreferred: true }]
+      );
+    }
+  },
+
+  'max-steps': {
+    description: 'Backgrounds and scenarios must not have more steps than `max`',
+    defaultSeverity: 'warning',
+    defaultOptions: { max: 15 },
+    check({ document, options, report }) {
+      const max = typeof options.max === 'number' ? options.max : 15;
+      forEachContainer(document, container => {
+        if (container.steps.length > max) {
+          report(headerRange(container), `${container.keyword} has ${container.steps.length} steps (max ${max})`);
+        }
+      });
+    }
+  },
+
+  'no-leading-and': {
+    description: 'The first step of a background or scenario must not be an And/But step',
+    defaultSeverity: 'warning',
+    defaultOptions: {},
+    check({ document, report }) {
+      const dialect = getGherkinDialect(document.feature!.language) || ENGLISH_DIALECT;
+      const given = (dialect.given.find(keyword => keyword.trim() !== '*') || 'Given ').trim();
+      forEachContainer(document, container => {
+        const step = container.steps[0];
+        if (!step || step.keywordType !== 'Conjunction') {
+          return;
+        }
+        const keywordRange = {
+          start: step.location,
+          end: { line: step.location.line, column: step.location.column + step.keyword.length }
+        };
+        report(
+          keywordRange,
+          `First step of ${container.keyword} starts with "${step.keyword}"`,
+          [{ title: `Replace "${step.keyword}" with "${given}"`, edits: [{ range: keywordRange, newText: given }], isPreferred: true }]
+        );
+      });
+    }
+  },
+
+  'no-dupe-examples-rows': {
+    description: 'Rows of an Examples table must be unique',
+    defaultSeverity: 'warning',
+    defaultOptions: {},
+    check({ document, report }) {
+      for (const scenario of getScenarios(document.feature!)) {
+        for (const examples of scenario.examples) {
+          const firstLines = new Map<string, number>();
+          for (const row of examples.tableBody) {
+            const key = JSON.stringify(row.cells.map(cell => cell.value));
+            const firstLine = firstLines.get(key);
+            if (firstLine === undefined) {
+              firstLines.set(key, row.location.line);
+              continue;
+            }
+            report(row.range, `Duplicate Examples row (same as line ${firstLine})`, [{
+              title: 'Remove duplicate row',
+              edits: [{ range: lineRange(row.location.line), newText: '' }],
+              isPreferred: true
+            }]);
+          }
+        }
+      }
+    }
+  },
+
+  'consistent-outline-placeholders': {
+    description: 'A Scenario Outline needs Examples, and all its Examples tables must have the same columns',
+    defaultSeverity: 'warning',
+    defaultOptions: {},
+    check({ document, report }) {
+      for (const scenario of getScenarios(document.feature!)) {
+        if (!scenario.isOutline) {
+          continue;
+        }
+        const tables = scenario.examples.filter(examples => examples.tableHeader);
+        if (tables.length === 0) {
+          report(headerRange(scenario), `${scenario.keyword} has no Examples table`);
+          continue;
+        }
+
+        const expected = headerNames(tables[0].tableHeader!);
+        for (const examples of tables.slice(1)) {
+          const actual = headerNames(examples.tableHeader!);
+          const missing = expected.filter(name => !actual.includes(name));
+          const extra = actual.filter(name => !expected.includes(name));
+          if (missing.length > 0 || extra.length > 0) {
+            const details = [
+              missing.length > 0 ? `missing ${missing.map(name => `<${name}>`).join(', ')}` : '',
+              extra.length > 0 ? `extra ${extra.map(name => `<${name}>`).join(', ')}` : ''
+            ].filter(Boolean).join('; ');
+            report(examples.tableHeader!.range, `Examples columns differ from the first Examples table of the outline (${details})`);
+          }
+        }
+      }
+    }
+  },
+
+  'no-undefined-placeholders': {
+    description: 'Every <placeholder> in the steps of an outline must have an Examples column',
+    defaultSeverity: 'warning',
+    defaultOptions: {},
+    check({ document, lines, report }) {
+      for (const scenario of getOutlinesWithExamples(document)) {
+        const columns = getExamplesColumns(scenario);
+        const placeholders = findPlaceholders(lines, scenario);
+        const usedNames = getPlaceholderNames(scenario, placeholders);
+        // Columns no placeholder refers to are the likely intended names
+        const unusedColumns = columns.filter(column => !usedNames.has(column));
+
+        for (const placeholder of placeholders) {
+          if (columns.includes(placeholder.name)) {
+            continue;
+          }
+
+          const occurrences = placeholders.filter(other => other.name === placeholder.name);
+          const fixes: GherkinLintFix[] = rankColumnNames(placeholder.name, unusedColumns).map((column, index) => ({
+            title: `Rename <${placeholder.name}> to <${column}>`,
+            edits: occurrences.map(other => ({ range: other.range, newText: `<${column}>` })),
+            isPreferred: index === 0 && isSimilarName(placeholder.name, column)
+          }));
+          const columnEdits = addColumnEdits(scenario, placeholder.name);
+          if (columnEdits) {
+            fixes.push({ title: `Add column "${placeholder.name}" to Examples`, edits: columnEdits });
+          }
+          report(placeholder.range, `<${placeholder.name}> has no matching Examples column${unusedColumns.length > 0 ? ` (unused: ${unusedColumns.join(', ')})` : ''}`, fixes);
+        }
+      }
+    }
+  },
+
+  'no-unused-examples-columns': {
+    description: 'Every Examples column of an outline must be used by a <placeholder>',
+    defaultSeverity: 'warning',
+    defaultOptions: {},
+    check({ document, lines, report }) {
+      for (const scenario of getOutlinesWithExamples(document)) {
+        const usedNames = getPlaceholderNames(scenario, findPlaceholders(lines, scenario));
+        for (const examples of scenario.examples) {
+          for (const cell of examples.tableHeader?.cells || []) {
+            if (!usedNames.has(cell.value)) {
+              report(cell.range, `Examples column "${cell.value}" is not used by any <placeholder> of the outline`);
+            }
+          }
+        }
+      }
+    }
+  },
+
+  'examples-row-length': {
+    description: 'Every Examples row must have as many cells as the header',
+    defaultSeverity: 'error',
+    defaultOptions: {},
+    check({ document, report }) {
+      for (const scenario of getScenarios(document.feature!)) {
+        for (const examples of scenario.examples) {
+          const expected = examples.tableHeader?.cells.length;
+          if (expected === undefined) {
+            continue;
+          }
+          for (const row of examples.tableBody) {
+            const actual = row.cells.length;
+            if (actual === expected) {
+              continue;
+            }
+            const fixes: GherkinLintFix[] = actual < expected
+              ? [{
+                title: `Add ${expected - actual} empty cell${expected - actual === 1 ? '' : 's'}`,
+                edits: [{ range: emptyRange(row.range.end), newText: '  |'.repeat(expected - actual) }],
+                isPreferred: true
+              }]
+              : [];
+            report(row.range, `Examples row has ${actual} cell${actual === 1 ? '' : 's'}, the header has ${expected}`, fixes);
+          }
+        }
+      }
+    }
+  }
+};
+
+/**
+ * Merges rule settings, later layers winning (e.g. `.gherkin-lintrc`, then user settings)
+ *
+ * Rules not mentioned keep their default severity; options of a layer are
+ * merged over the rule's defaults.
+ *
+ * @returns The enabled rules, and the names of unknown rules found in the settings
+ */
+export function resolveGherkinLintRules(...layers: Array<GherkinLintSettings | undefined>): {
+  rules: GherkinLintRuleConfig[];
+  unknownRules: string[];
+} {
+  const unknownRules = new Set<string>();
+  const rules: GherkinLintRuleConfig[] = [];
+
+  for (const layer of layers) {
+    Object.keys(layer || {}).filter(name => !RULES[name]).forEach(name => unknownRules.add(name));
+  }
+
+  for (const [name, rule] of Object.entries(RULES)) {
+    let level: GherkinLintLevel = rule.defaultSeverity;
+    let options = { ...rule.defaultOptions };
+    for (const layer of layers) {
+      const setting = layer?.[name];
+      if (setting === undefined) {
+        continue;
+      }
+      const [settingLevel, settingOptions] = Array.isArray(setting) ? setting : [setting];
+      level = settingLevel;
+      options = { ...options, ...(settingOptions || {}) };
+    }
+
+    if (level === 'off') {
+      continue;
+    }
+    const severity = level === 'on'
+      ? (rule.defaultSeverity === 'off' ? 'warning' : rule.defaultSeverity)
+      : level;
+    rules.push({ rule: name, severity, options });
+  }
+
+  return { rules, unknownRules: Array.from(unknownRules) };
+}
+
+/**
+ * Runs the enabled rules on a parsed feature file
+ *
+ * @param source - Feature file content the document was parsed from
+ * @param document - The parsed source (e.g. from `getGherkinDocument`)
+ */
+export function lintGherkin(source: string, document: GherkinDocument, rules: GherkinLintRuleConfig[]): GherkinLintProblem[] {
+  if (!document.feature) {
+    return [];
+  }
+
+  const lines = source.split(/\r?\n/);
+  const problems: GherkinLintProblem[] = [];
+  for (const config of rules) {
+    const rule = RULES[config.rule];
+    if (!rule) {
+      continue;
+    }
+    rule.check({
+      document,
+      lines,
+      options: config.options,
+      report: (range, message, fixes = []) => problems.push({ rule: config.rule, severity: config.severity, message, range, fixes })
+    });
+  }
+
+  return problems.sort((a, b) => a.range.start.line - b.range.start.line || a.range.start.column - b.range.start.column);
+}
+
+const PLACEHOLDER_PATTERN = /<([^<>]+)>/g;
+
+interface Placeholder {
+  name: string;
+  range: GherkinRange;
+}
+
+function getOutlinesWithExamples(document: GherkinDocument): GherkinScenario[] {
+  return getScenarios(document.feature!).filter(scenario => scenario.examples.some(examples => examples.tableHeader));
+}
+
+/**
+ * Column names of all Examples tables of an outline
+ */
+function getExamplesColumns(scenario: GherkinScenario): string[] {
+  const columns = new Set<string>();
+  scenario.examples.forEach(examples => examples.tableHeader?.cells.forEach(cell => columns.add(cell.value)));
+  return Array.from(columns);
+}
+
+/**
+ * `<placeholder>`s of an outline's steps, in step text, data tables and doc strings
+ */
+function findPlaceholders(lines: string[], scenario: GherkinScenario): Placeholder[] {
+  const placeholders: Placeholder[] = [];
+  const scan = (line: number, fromColumn: number) => {
+    const text = lines[line - 1] || '';
+    for (const match of text.substring(fromColumn - 1).matchAll(PLACEHOLDER_PATTERN)) {
+      const column = fromColumn + match.index!;
+      placeholders.push({
+        name: match[1],
+        range: { start: { line, column }, end: { line, column: column + match[0].length } }
+      });
+    }
+  };
+
+  for (const step of scenario.steps) {
+    scan(step.location.line, step.textRange.start.column);
+    step.dataTable?.rows.forEach(row => scan(row.location.line, row.location.column));
+    if (step.docString) {
+      // Content lines only, not the fences and media type
+      for (let line = step.docString.range.start.line + 1; line < step.docString.range.end.line; line++) {
+        scan(line, 1);
+      }
+    }
+  }
+  return placeholders;
+}
+
+/**
+ * Names of the placeholders of an outline, including those in its name (substituted too)
+ */
+function getPlaceholderNames(scenario: GherkinScenario, placeholders: Placeholder[]): Set<string> {
+  return new Set([
+    ...placeholders.map(placeholder => placeholder.name),
+    ...Array.from(scenario.name.matchAll(PLACEHOLDER_PATTERN), match => match[1])
+  ]);
+}
+
+/**
+ * Column names most similar to a placeholder first, dissimilar ones left out
+ */
+function rankColumnNames(name: string, columns: string[]): string[] {
+  const normalized = normalizeName(name);
+  return columns
+    .map(column => ({ column, distance: editDistance(normalized, normalizeName(column)) }))
+    .filter(({ distance }) => distance <= Math.max(2, Math.floor(normalized.length / 2)))
+    .sort((a, b) => a.distance - b.distance)
+    .slice(0, 3)
+    .map(({ column }) => column);
+}
+
+/**
+ * Same name apart from case and separators (e.g. customer_id and customerId), or a small typo
+ */
+function isSimilarName(a: string, b: string): boolean {
+  return editDistance(normalizeName(a), normalizeName(b)) <= 2;
+}
+
+function normalizeName(name: string): string {
+  return name.toLowerCase().replace(/[\s_\-.]/g, '');
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Appends a column to every Examples table of an outline, empty cells padded to the header width
+ *
+ * Short rows get empty cells for their missing columns first, so the new
+ * column lines up with the header.
+ *
+ * @returns undefined when a row has more cells than its header, as the new column would not line up
+ */
+function addColumnEdits(scenario: GherkinScenario, name: string): GherkinLintEdit[] | undefined {
+  const edits: GherkinLintEdit[] = [];
+  for (const examples of scenario.examples) {
+    if (!examples.tableHeader) {
+      continue;
+    }
+    const columnCount = examples.tableHeader.cells.length;
+    edits.push({ range: emptyRange(examples.tableHeader.range.end), newText: ` ${name} |` });
+    for (const row of examples.tableBody) {
+      if (row.cells.length > columnCount) {
+        return undefined;
+      }
+      edits.push({
+        range: emptyRange(row.range.end),
+        newText: '  |'.repeat(columnCount - row.cells.length) + ` ${' '.repeat(name.length)} |`
+      });
+    }
+  }
+  return edits;
+}
+
+function forEachContainer(document: GherkinDocument, callback: (container: GherkinBackground | GherkinScenario) => void): void {
+  for (const child of document.feature?.children || []) {
+    if (child.type === 'Rule') {
+      child.children.forEach(callback);
+    } else {
+      callback(child);
+    }
+  }
+}
+
+/**
+ * Range of the keyword line of a node (e.g. `Scenario: Name`)
+ */
+function headerRange(node: { keyword: string; name: string; location: GherkinLocation }): GherkinRange {
+  const length = node.keyword.length + 1 + (node.name ? node.name.trimEnd().length + 1 : 0);
+  return { start: node.location, end: { line: node.location.line, column: node.location.column + length } };
+}
+
+/**
+ * Range of a whole line including its line break, for removing it
+ */
+function lineRange(line: number): GherkinRange {
+  return { start: { line, column: 1 }, end: { line: line + 1, column: 1 } };
+}
+
+function emptyRange(location: GherkinLocation): GherkinRange {
+  return { start: location, end: location };
+}
+
+function headerNames(header: GherkinTableRow): string[] {
+  return header.cells.map(cell => cell.value);
+}
+
+function toStringArray(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+}
@@ -0,0 +1,1014 @@
+/**
+ * Gherkin parser for Cucumber feature files
+ *
+ * Produces a typed AST (feature, rules, backgrounds, scenarios, outlines,
+ * examples, steps, tags, data tables, doc strings and comments) with exact
+ * line/column ranges. Test discovery, CodeLens and the editor commands all
+ * work on this AST instead of re-scanning lines on their own.
+ *
+ * Locations follow the Cucumber convention: lines and columns are 1-based,
+ * so `location.line` can be passed to `-Dcucumber.features=file:line` as is.
+ * Range end columns are exclusive.
+ *
+ * Keywords come from the official Gherkin i18n dictionary
+ * (gherkin-languages.json from @cucumber/gherkin, MIT licensed); the dialect
+ * is chosen by the `# language: <code>` header, English by default.
+ *
+ * @module gherkin-parser
+ */
+
+import * as gherkinLanguages from './gherkin-languages.json';
+
+/**
+ * Position of a node in the source (1-based line and column)
+ */
+export interface GherkinLocation {
+  line: number;
+  column: number;
+}
+
+/**
+ * Extent of a node in the source, end column is exclusive
+ */
+export interface GherkinRange {
+  start: GherkinLocation;
+  end: GherkinLocation;
+}
+
+/**
+ * Keywords of a Gherkin dialect (same shape as gherkin-languages.json)
+ * Step keywords keep their trailing space, e.g. 'Given ' or '* '
+ */
+export interface GherkinDialect {
+  name: string;
+  native: string;
+  feature: string[];
+  rule: string[];
+  background: string[];
+  scenario: string[];
+  scenarioOutline: string[];
+  examples: string[];
+  given: string[];
+  when: string[];
+  then: string[];
+  and: string[];
+  but: string[];
+}
+
+export type GherkinStepKeywordType = 'Context' | 'Action' | 'Outcome' | 'Conjunction' | 'Unknown';
+
+export interface GherkinTag {
+  name: string;  // Including the @ prefix
+  location: GherkinLocation;
+  range: GherkinRange;
+}
+
+export interface GherkinComment {
+  text: string;
+  location: GherkinLocation;
+  range: GherkinRange;
+}
+
+export interface GherkinTableCell {
+  value: string;
+  location: GherkinLocation;
+  range: GherkinRange;
+}
+
+export interface GherkinTableRow {
+  cells: GherkinTableCell[];
+  location: GherkinLocation;
+  range: GherkinRange;
+}
+
+export interface GherkinDataTable {
+  type: 'DataTable';
+  rows: GherkinTableRow[];
+  location: GherkinLocation;
+  range: GherkinRange;
+}
+
+export interface GherkinDocString {
+  type: 'DocString';
+  delimiter: string;  // """ or ```
+  mediaType?: string;
+  content: string;
+  location: GherkinLocation;
+  range: GherkinRange;
+}
+
+export interface GherkinStep {
+  type: 'Step';
+  keyword: string;  // Without trailing space, e.g. 'Given'
+  keywordType: GherkinStepKeywordType;
+  text: string;
+  dataTable?: GherkinDataTable;
+  docString?: GherkinDocString;
+  location: GherkinLocation;
+  range: GherkinRange;
+  textRange: GherkinRange;  // Range of the step text only
+}
+
+export interface GherkinExamples {
+  type: 'Examples';
+  keyword: string;
+  name: string;
+  description: string;
+  tags: GherkinTag[];
+  tableHeader?: GherkinTableRow;
+  tableBody: GherkinTableRow[];
+  location: GherkinLocation;
+  range: GherkinRange;
+}
+
+export interface GherkinBackground {
+  type: 'Background';
+  keyword: string;
+  name: string;
+  description: string;
+  steps: GherkinStep[];
+  location: GherkinLocation;
+  range: GherkinRange;
+}
+
+export interface GherkinScenario {
+  type: 'Scenario';
+  keyword: string;
+  name: string;
+  description: string;
+  tags: GherkinTag[];
+  steps: GherkinStep[];
+  examples: GherkinExamples[];
+  isOutline: boolean;  // Scenario Outline / Template keyword, or a Scenario with Examples
+  location: GherkinLocation;
+  range: GherkinRange;
+}
+
+export interface GherkinRule {
+  type: 'Rule';
+  keyword: string;
+  name: string;
+  description: string;
+  tags: GherkinTag[];
+  children: Array<GherkinBackground | GherkinScenario>;
+  location: GherkinLocation;
+  range: GherkinRange;
+}
+
+export interface GherkinFeature {
+  type: 'Feature';
+  keyword: string;
+  name: string;
+  description: string;
+  language: string;
+  tags: GherkinTag[];
+  children: Array<GherkinBackground | GherkinScenario | GherkinRule>;
+  location: GherkinLocation;
+  range: GherkinRange;
+}
+
+export interface GherkinParseError {
+  message: string;
+  location: GherkinLocation;
+}
+
+export interface GherkinDocument {
+  feature?: GherkinFeature;
+  comments: GherkinComment[];
+  errors: GherkinParseError[];
+}
+
+/**
+ * All Gherkin dialects keyed by language code (e.g. 'en', 'de', 'zh-TW')
+ */
+export const GHERKIN_DIALECTS: Readonly<Record<string, GherkinDialect>> = gherkinLanguages;
+
+/**
+ * English keywords, used when no other dialect is given
+ */
+export const ENGLISH_DIALECT: GherkinDialect = GHERKIN_DIALECTS.en;
+
+const LANGUAGE_PATTERN = /^\s*#\s*language\s*:\s*([a-zA-Z\-_]+)\s*$/;
+
+/**
+ * Reads the `# language:` header of a feature file
+ *
+ * Only comments and blank lines may precede the header, as in Cucumber.
+ *
+ * @returns The declared language code, or undefined when there is no header
+ */
+export function detectGherkinLanguage(source: string): string | undefined {
+  for (const line of source.split(/\r?\n/)) {
+    const trimmed = line.trim();
+    if (trimmed === '') {
+      continue;
+    }
+    if (!trimmed.startsWith('#')) {
+      return undefined;
+    }
+    const match = line.match(LANGUAGE_PATTERN);
+    if (match) {
+      return match[1];
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Returns the dialect of a language code, or undefined if Gherkin does not know it
+ */
+export function getGherkinDialect(language: string): GherkinDialect | undefined {
+  return Object.prototype.hasOwnProperty.call(GHERKIN_DIALECTS, language) ? GHERKIN_DIALECTS[language] : undefined;
+}
+
+/**
+ * Returns the dialect Cucumber reads a feature file with: its `# language:` header, else English
+ */
+export function getFeatureDialect(source: string): GherkinDialect {
+  return getGherkinDialect(detectGherkinLanguage(source) || 'en') || ENGLISH_DIALECT;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+let stepKeywordPattern: string | undefined;
+
+/**
+ * Regex source matching a step keyword of the given dialects (all by default), longest first
+ *
+ * Keywords that end with a space in the dictionary (e.g. 'Given ') must be
+ * followed by whitespace; keywords without one (e.g. '假如') may be followed
+ * directly by the step text. The '*' keyword is left out because a bare '* '
+ * is too common in build output to be recognised as a step.
+ */
+export function getStepKeywordPattern(dialects?: GherkinDialect[]): string {
+  if (dialects) {
+    return buildStepKeywordPattern(dialects);
+  }
+  if (!stepKeywordPattern) {
+    stepKeywordPattern = buildStepKeywordPattern(Object.values(GHERKIN_DIALECTS));
+  }
+  return stepKeywordPattern;
+}
+
+function buildStepKeywordPattern(dialects: GherkinDialect[]): string {
+  const spaced = new Set<string>();
+  const unspaced = new Set<string>();
+  for (const dialect of dialects) {
+    for (const keyword of [...dialect.given, ...dialect.when, ...dialect.then, ...dialect.and, ...dialect.but]) {
+      if (keyword.trim() === '*') {
+        continue;
+      }
+      (keyword.endsWith(' ') ? spaced : unspaced).add(keyword.trim());
+    }
+  }
+  const alternation = (keywords: Set<string>) =>
+    Array.from(keywords).sort((a, b) => b.length - a.length).map(escapeRegExp).join('|');
+  // An empty alternative would match anywhere, so a missing group never matches
+  const group = (keywords: Set<string>) => keywords.size > 0 ? `(?:${alternation(keywords)})` : '(?!)';
+  return `${group(spaced)}(?=\\s)|${group(unspaced)}`;
+}
+
+let headerKeywordPattern: string | undefined;
+
+/**
+ * Regex source matching a Feature, Rule, Background, Scenario, Scenario Outline
+ * or Examples keyword of the given dialects (all by default), longest first
+ */
+export function getHeaderKeywordPattern(dialects?: GherkinDialect[]): string {
+  if (dialects) {
+    return buildHeaderKeywordPattern(dialects);
+  }
+  if (!headerKeywordPattern) {
+    headerKeywordPattern = buildHeaderKeywordPattern(Object.values(GHERKIN_DIALECTS));
+  }
+  return headerKeywordPattern;
+}
+
+function buildHeaderKeywordPattern(dialects: GherkinDialect[]): string {
+  const keywords = new Set<string>();
+  for (const dialect of dialects) {
+    for (const keyword of [
+      ...dialect.feature, ...dialect.rule, ...dialect.background,
+      ...dialect.scenario, ...dialect.scenarioOutline, ...dialect.examples
+    ]) {
+      keywords.add(keyword.trim());
+    }
+  }
+  return Array.from(keywords).sort((a, b) => b.length - a.length).map(escapeRegExp).join('|');
+}
+
+type HeaderKind = 'feature' | 'rule' | 'background' | 'scenario' | 'scenarioOutline' | 'examples';
+
+interface KeywordMatch<T> {
+  keyword: string;
+  kind: T;
+}
+
+interface StepKeyword {
+  keyword: string;  // As in the dialect, may end with a space
+  keywordType: GherkinStepKeywordType;
+}
+
+type RangedNode = { range: GherkinRange };
+type DescribedNode = { description: string };
+
+/**
+ * Line-oriented Gherkin parser, one instance per parse
+ */
+class GherkinParser {
+  private readonly lines: string[];
+  private readonly headerKeywords: KeywordMatch<HeaderKind>[];
+  private readonly stepKeywords: StepKeyword[];
+
+  private readonly document: GherkinDocument = { comments: [], errors: [] };
+  private pendingTags: GherkinTag[] = [];
+  private rule?: GherkinRule;
+  private container?: GherkinBackground | GherkinScenario;
+  private examples?: GherkinExamples;
+  private step?: GherkinStep;
+  private descriptionTarget?: DescribedNode & RangedNode;
+
+  constructor(source: string, dialect: GherkinDialect, private readonly language: string) {
+    this.lines = source.split(/\r?\n/);
+
+    const headers: KeywordMatch<HeaderKind>[] = [];
+    const addHeaders = (keywords: string[], kind: HeaderKind) =>
+      keywords.forEach(keyword => headers.push({ keyword: keyword.trim(), kind }));
+    addHeaders(dialect.feature, 'feature');
+    addHeaders(dialect.rule, 'rule');
+    addHeaders(dialect.background, 'background');
+    addHeaders(dialect.scenario, 'scenario');
+    addHeaders(dialect.scenarioOutline, 'scenarioOutline');
+    addHeaders(dialect.examples, 'examples');
+    // Longest first so that "Scenario Outline" wins over "Scenario"
+    this.headerKeywords = headers.sort((a, b) => b.keyword.length - a.keyword.length);
+
+    const steps = new Map<string, GherkinStepKeywordType>();
+    const addSteps = (keywords: string[], keywordType: GherkinStepKeywordType) => {
+      for (const keyword of keywords) {
+        const existing = steps.get(keyword);
+        // '* ' (and some translations) are shared by several step types
+        steps.set(keyword, existing && existing !== keywordType ? 'Unknown' : keywordType);
+      }
+    };
+    addSteps(dialect.given, 'Context');
+    addSteps(dialect.when, 'Action');
+    addSteps(dialect.then, 'Outcome');
+    addSteps(dialect.and, 'Conjunction');
+    addSteps(dialect.but, 'Conjunction');
+    this.stepKeywords = Array.from(steps.entries())
+      .map(([keyword, keywordType]) => ({ keyword, keywordType }))
+      .sort((a, b) => b.keyword.length - a.keyword.length);
+  }
+
+  parse(): GherkinDocument {
+    for (let i = 0; i < this.lines.length; i++) {
+      i = this.parseLine(i);
+    }
+
+    if (this.pendingTags.length > 0) {
+      this.error('Tags are not followed by a Feature, Rule, Scenario or Examples', this.pendingTags[0].location);
+    }
+
+    return this.document;
+  }
+
+  /**
+   * Parses the line at index i and returns the index of the last consumed line
+   */
+  private parseLine(i: number): number {
+    const raw = this.lines[i];
+    const trimmed = raw.trim();
+    const lineNumber = i + 1;
+    const column = indentOf(raw) + 1;
+    const location = { line: lineNumber, column };
+
+    if (trimmed === '') {
+      return i;
+    }
+
+    if (trimmed.startsWith('#')) {
+      this.document.comments.push({
+        text: raw.trimEnd(),
+        location: { line: lineNumber, column: 1 },
+        range: lineRange(lineNumber, 1, raw.trimEnd().length + 1)
+      });
+      return i;
+    }
+
+    if (trimmed.startsWith('@')) {
+      this.parseTags(raw, lineNumber);
+      return i;
+    }
+
+    if (trimmed.startsWith('|')) {
+      this.parseTableRow(raw, location);
+      return i;
+    }
+
+    if (trimmed.startsWith('"""') || trimmed.startsWith('```')) {
+      return this.parseDocString(i);
+    }
+
+    const header = this.matchHeader(trimmed);
+    if (header) {
+      this.parseHeader(header, raw, location);
+      return i;
+    }
+
+    const stepKeyword = this.matchStepKeyword(trimmed);
+    if (stepKeyword && this.container) {
+      this.parseStep(stepKeyword, raw, location);
+      return i;
+    }
+
+    // Free text is a description while a header has not yet been followed by steps
+    if (this.descriptionTarget) {
+      const target = this.descriptionTarget;
+      target.description = target.description ? `${target.description}\n${trimmed}` : trimmed;
+      this.extendOpenNodes(lineNumber, raw.trimEnd().length + 1);
+      return i;
+    }
+
+    this.error(`Unexpected line: "${trimmed}"`, location);
+    return i;
+  }
+
+  private matchHeader(trimmed: string): KeywordMatch<HeaderKind> | undefined {
+    return this.headerKeywords.find(h => trimmed.startsWith(`${h.keyword}:`));
+  }
+
+  private matchStepKeyword(trimmed: string): StepKeyword | undefined {
+    return this.stepKeywords.find(s => {
+      if (!trimmed.startsWith(s.keyword)) {
+        return false;
+      }
+      // A keyword without trailing space (e.g. Chinese) must still be followed by text
+      return trimmed.length > s.keyword.length || s.keyword.endsWith(' ');
+    });
+  }
+
+  private parseHeader(header: KeywordMatch<HeaderKind>, raw: string, location: GherkinLocation): void {
+    const trimmedEnd = raw.trimEnd();
+    const name = trimmedEnd.substring(location.column - 1 + header.keyword.length + 1).trim();
+    const range = lineRange(location.line, location.column, trimmedEnd.length + 1);
+    const tags = this.takeTags();
+    const feature = this.document.feature;
+
+    if (header.kind === 'feature') {
+      if (feature) {
+        this.error('Only one Feature is allowed per file', location);
+        return;
+      }
+      this.document.feature = {
+        type: 'Feature',
+        keyword: header.keyword,
+        name,
+        description: '',
+        language: this.language,
+        tags,
+        children: [],
+        location,
+        range
+      };
+      this.descriptionTarget = this.document.feature;
+      return;
+    }
+
+    if (!feature) {
+      this.error(`"${header.keyword}:" must be inside a Feature`, location);
+      return;
+    }
+
+    switch (header.kind) {
+      case 'rule': {
+        this.closeContainer();
+        this.rule = {
+          type: 'Rule',
+          keyword: header.keyword,
+          name,
+          description: '',
+          tags,
+          children: [],
+          location,
+          range
+        };
+        feature.children.push(this.rule);
+        this.descriptionTarget = this.rule;
+        break;
+      }
+      case 'background': {
+        if (tags.length > 0) {
+          this.error('Tags are not allowed on a Background', tags[0].location);
+        }
+        this.closeContainer();
+        const background: GherkinBackground = {
+          type: 'Background',
+          keyword: header.keyword,
+          name,
+          description: '',
+          steps: [],
+          location,
+          range
+        };
+        this.addChild(background);
+        this.container = background;
+        this.descriptionTarget = background;
+        break;
+      }
+      case 'scenario':
+      case 'scenarioOutline': {
+        this.closeContainer();
+        const scenario: GherkinScenario = {
+          type: 'Scenario',
+          keyword: header.keyword,
+          name,
+          description: '',
+          tags,
+          steps: [],
+          examples: [],
+          isOutline: header.kind === 'scenarioOutline',
+          location,
+          range
+        };
+        this.addChild(scenario);
+        this.container = scenario;
+        this.descriptionTarget = scenario;
+        break;
+      }
+      case 'examples': {
+        const scenario = this.container;
+        if (!scenario || scenario.type !== 'Scenario') {
+          this.error(`"${header.keyword}:" must follow a Scenario Outline`, location);
+          return;
+        }
+        this.step = undefined;
+        this.examples = {
+          type: 'Examples',
+          keyword: header.keyword,
+          name,
+          description: '',
+          tags,
+          tableBody: [],
+          location,
+          range
+        };
+        scenario.examples.push(this.examples);
+        scenario.isOutline = true;
+        this.descriptionTarget = this.examples;
+        break;
+      }
+    }
+
+    this.extendOpenNodes(location.line, range.end.column);
+  }
+
+  private parseStep(stepKeyword: StepKeyword, raw: string, location: GherkinLocation): void {
+    const container = this.container!;
+    if (this.examples) {
+      this.error('Steps are not allowed after Examples', location);
+      return;
+    }
+
+    const trimmedEnd = raw.trimEnd();
+    const keyword = stepKeyword.keyword.trim();
+    const textStart = indentOf(raw, location.column - 1 + stepKeyword.keyword.length);
+    const text = trimmedEnd.substring(textStart);
+
+    const step: GherkinStep = {
+      type: 'Step',
+      keyword,
+      keywordType: stepKeyword.keywordType,
+      text,
+      location,
+      range: lineRange(location.line, location.column, trimmedEnd.length + 1),
+      textRange: lineRange(location.line, textStart + 1, trimmedEnd.length + 1)
+    };
+
+    container.steps.push(step);
+    this.step = step;
+    this.descriptionTarget = undefined;
+    this.extendOpenNodes(location.line, trimmedEnd.length + 1);
+  }
+
+  private parseTableRow(raw: string, location: GherkinLocation): void {
+    const row = parseTableRow(raw, location.line);
+    if (!row) {
+      this.error('Table row must end with "|"', location);
+      return;
+    }
+
+    if (this.step && !this.step.docString) {
+      if (!this.step.dataTable) {
+        this.step.dataTable = { type: 'DataTable', rows: [], location, range: { ...row.range } };
+      }
+      const table = this.step.dataTable;
+      this.checkCellCount(table.rows[0], row);
+      table.rows.push(row);
+      table.range.end = { ...row.range.end };
+    } else if (this.examples) {
+      if (!this.examples.tableHeader) {
+        this.examples.tableHeader = row;
+      } else {
+        this.checkCellCount(this.examples.tableHeader, row);
+        this.examples.tableBody.push(row);
+      }
+    } else {
+      this.error('Table row is not attached to a step or Examples', location);
+      return;
+    }
+
+    this.descriptionTarget = undefined;
+    this.extendOpenNodes(location.line, row.range.end.column);
+  }
+
+  private checkCellCount(first: GherkinTableRow | undefined, row: GherkinTableRow): void {
+    if (first && first.cells.length !== row.cells.length) {
+      this.error(`Inconsistent cell count: expected ${first.cells.length}, found ${row.cells.length}`, row.location);
+    }
+  }
+
+  /**
+   * Parses a doc string starting at index start, returns the index of the closing delimiter line
+   */
+  private parseDocString(start: number): number {
+    const raw = this.lines[start];
+    const indent = indentOf(raw);
+    const opening = raw.trim();
+    const delimiter = opening.substring(0, 3);
+    const mediaType = opening.substring(3).trim() || undefined;
+    const location = { line: start + 1, column: indent + 1 };
+    const contentLines: string[] = [];
+
+    let end = start + 1;
+    while (end < this.lines.length && this.lines[end].trim() !== delimiter) {
+      contentLines.push(unescapeDocStringLine(stripIndent(this.lines[end], indent), delimiter));
+      end++;
+    }
+
+    if (end >= this.lines.length) {
+      this.error('Unterminated doc string', location);
+      end = this.lines.length - 1;
+    }
+
+    const closing = this.lines[end].trimEnd();
+    const docString: GherkinDocString = {
+      type: 'DocString',
+      delimiter,
+      mediaType,
+      content: contentLines.join('\n'),
+      location,
+      range: {
+        start: location,
+        end: { line: end + 1, column: closing.length + 1 }
+      }
+    };
+
+    if (this.step && !this.step.docString && !this.step.dataTable) {
+      this.step.docString = docString;
+      this.descriptionTarget = undefined;
+      this.extendOpenNodes(end + 1, closing.length + 1);
+    } else {
+      this.error('Doc string is not attached to a step', location);
+    }
+
+    return end;
+  }
+
+  private parseTags(raw: string, lineNumber: number): void {
+    const tokenPattern = /\S+/g;
+    let match: RegExpExecArray | null;
+
+    while ((match = tokenPattern.exec(raw)) !== null) {
+      const token = match[0];
+      if (token.startsWith('#')) {
+        // Rest of the line is a comment
+        break;
+      }
+      const column = match.index + 1;
+      if (!token.startsWith('@') || token.length === 1) {
+        this.error(`Invalid tag: "${token}"`, { line: lineNumber, column });
+        continue;
+      }
+      this.pendingTags.push({
+        name: token,
+        location: { line: lineNumber, column },
+        range: lineRange(lineNumber, column, column + token.length)
+      });
+    }
+  }
+
+  private takeTags(): GherkinTag[] {
+    const tags = this.pendingTags;
+    this.pendingTags = [];
+    return tags;
+  }
+
+  private addChild(child: GherkinBackground | GherkinScenario): void {
+    if (this.rule) {
+      this.rule.children.push(child);
+    } else {
+      this.document.feature!.children.push(child);
+    }
+  }
+
+  private closeContainer(): void {
+    this.container = undefined;
+    this.examples = undefined;
+    this.step = undefined;
+  }
+
+  /**
+   * Extends the ranges of every node that is still open to cover the given line
+   */
+  private extendOpenNodes(line: number, endColumn: number): void {
+    const end = { line, column: endColumn };
+    const nodes: Array<RangedNode | undefined> = [this.document.feature, this.rule, this.container, this.examples, this.step];
+    for (const node of nodes) {
+      if (node) {
+        node.range.end = { ...end };
+      }
+    }
+  }
+
+  private error(message: string, location: GherkinLocation): void {
+    this.document.errors.push({ message, location });
+  }
+}
+
+function indentOf(text: string, from = 0): number {
+  let index = from;
+  while (index < text.length && (text[index] === ' ' || text[index] === '\t')) {
+    index++;
+  }
+  return index;
+}
+
+function lineRange(line: number, startColumn: number, endColumn: number): GherkinRange {
+  return {
+    start: { line, column: startColumn },
+    end: { line, column: endColumn }
+  };
+}
+
+function stripIndent(line: string, indent: number): string {
+  const available = indentOf(line);
+  return line.substring(Math.min(available, indent));
+}
+
+function unescapeDocStringLine(line: string, delimiter: string): string {
+  const escaped = delimiter.split('').map(char => `\\${char}`).join('');
+  return line.split(escaped).join(delimiter);
+}
+
+/**
+ * Parses a single table row such as `| a | b \| c |`
+ * Returns null when the row is not terminated by a pipe
+ */
+export function parseTableRow(raw: string, lineNumber: number): GherkinTableRow | null {
+  const trimmedEnd = raw.trimEnd();
+  const start = indentOf(trimmedEnd);
+  if (trimmedEnd[start] !== '|' || !trimmedEnd.endsWith('|') || trimmedEnd.length - start < 2) {
+    return null;
+  }
+
+  const cells: GherkinTableCell[] = [];
+  let value = '';
+  let cellStart = start + 1;
+
+  for (let index = start + 1; index < trimmedEnd.length; index++) {
+    const char = trimmedEnd[index];
+
+    if (char === '\\' && index + 1 < trimmedEnd.length) {
+      const next = trimmedEnd[index + 1];
+      if (next === '|' || next === '\\') {
+        value += next;
+        index++;
+        continue;
+      }
+      if (next === 'n') {
+        value += '\n';
+        index++;
+        continue;
+      }
+    }
+
+    if (char !== '|') {
+      value += char;
+      continue;
+    }
+
+    // End of cell: compute the column of its trimmed content
+    const leading = value.length - value.trimStart().length;
+    const content = value.trim();
+    const column = cellStart + leading + 1;
+    const endColumn = content.length > 0 ? column + rawLength(trimmedEnd, cellStart + leading, index) : column;
+    cells.push({
+      value: content,
+      location: { line: lineNumber, column },
+      range: lineRange(lineNumber, column, endColumn)
+    });
+
+    value = '';
+    cellStart = index + 1;
+  }
+
+  return {
+    cells,
+    location: { line: lineNumber, column: start + 1 },
+    range: lineRange(lineNumber, start + 1, trimmedEnd.length + 1)
+  };
+}
+
+/**
+ * Length of the raw (escaped) cell content between from and the closing pipe, without trailing spaces
+ */
+function rawLength(line: string, from: number, pipeIndex: number): number {
+  return line.substring(from, pipeIndex).trimEnd().length;
+}
+
+/**
+ * Parses Gherkin source into a GherkinDocument
+ *
+ * Parsing never throws: problems are reported in `document.errors` and the
+ * parser recovers at the next recognisable line. An unknown `# language:`
+ * is reported as an error and the file is parsed as English.
+ *
+ * @param source - Feature file content
+ * @param dialect - Keywords to recognise (defaults to the `# language:` header, else English)
+ * @param language - Language code recorded on the feature
+ * @returns Parsed document
+ *
+ * @example
+ * const doc = parseGherkin('Feature: Login\n  Scenario: Ok\n    Given a user');
+ * // doc.feature.children[0].steps[0].text === 'a user'
+ * // doc.feature.children[0].location.line === 2
+ */
+export function parseGherkin(source: string, dialect?: GherkinDialect, language?: string): GherkinDocument {
+  if (dialect) {
+    return new GherkinParser(source, dialect, language || 'en').parse();
+  }
+
+  const declared = detectGherkinLanguage(source) || 'en';
+  const declaredDialect = getGherkinDialect(declared);
+  if (!declaredDialect) {
+    const document = new GherkinParser(source, ENGLISH_DIALECT, 'en').parse();
+    const headerLine = source.split(/\r?\n/).findIndex(line => LANGUAGE_PATTERN.test(line)) + 1;
+    document.errors.unshift({
+      message: `Language not supported: ${declared}`,
+      location: { line: headerLine, column: 1 }
+    });
+    return document;
+  }
+  return new GherkinParser(source, declaredDialect, declared).parse();
+}
+
+/**
+ * Minimal document shape used by the cache (matches vscode.TextDocument)
+ */
+export interface GherkinSourceDocument {
+  uri: { toString(): string };
+  getText(): string;
+}
+
+const documentCache = new Map<string, { text: string; document: GherkinDocument }>();
+
+/**
+ * Parses an editor document, reusing the previous AST while its text is unchanged
+ *
+ * The text (not the version) is compared because documents that are closed and
+ * re-opened from disk start again at version 1.
+ */
+export function getGherkinDocument(source: GherkinSourceDocument): GherkinDocument {
+  const key = source.uri.toString();
+  const text = source.getText();
+  const cached = documentCache.get(key);
+  if (cached && cached.text === text) {
+    return cached.document;
+  }
+
+  const document = parseGherkin(text);
+  documentCache.set(key, { text, document });
+  return document;
+}
+
+/**
+ * Drops the cached AST of a document (e.g. when it is closed or deleted)
+ */
+export function evictGherkinDocument(uri: { toString(): string }): void {
+  documentCache.delete(uri.toString());
+}
+
+/**
+ * Returns all scenarios of a feature, including those nested in rules, in source order
+ */
+export function getScenarios(feature: GherkinFeature): GherkinScenario[] {
+  const scenarios: GherkinScenario[] = [];
+  for (const child of feature.children) {
+    if (child.type === 'Scenario') {
+      scenarios.push(child);
+    } else if (child.type === 'Rule') {
+      for (const ruleChild of child.children) {
+        if (ruleChild.type === 'Scenario') {
+          scenarios.push(ruleChild);
+        }
+      }
+    }
+  }
+  return scenarios;
+}
+
+/**
+ * Checks whether a 1-based line lies within a range
+ */
+export function rangeContainsLine(range: GherkinRange, line: number): boolean {
+  return line >= range.start.line && line <= range.end.line;
+}
+
+/**
+ * Finds the scenario containing the given 1-based line
+ */
+export function getScenarioAtLine(document: GherkinDocument, line: number): GherkinScenario | undefined {
+  if (!document.feature) {
+    return undefined;
+  }
+  return getScenarios(document.feature).find(scenario => rangeContainsLine(scenario.range, line));
+}
+
+/**
+ * Finds the Examples data row (not the header) at the given 1-based line
+ */
+export function getExamplesRowAtLine(
+  document: GherkinDocument,
+  line: number
+): { scenario: GherkinScenario; examples: GherkinExamples; row: GherkinTableRow } | undefined {
+  const scenario = getScenarioAtLine(document, line);
+  if (!scenario) {
+    return undefined;
+  }
+
+  for (const examples of scenario.examples) {
+    const row = examples.tableBody.find(r => r.location.line === line);
+    if (row) {
+      return { scenario, examples, row };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * A step together with the Background or Scenario it belongs to
+ */
+export interface GherkinStepEntry {
+  step: GherkinStep;
+  parent: GherkinBackground | GherkinScenario;
+}
+
+/**
+ * Returns all steps of a feature (backgrounds, scenarios and rules) in source order
+ */
+export function getSteps(feature: GherkinFeature): GherkinStepEntry[] {
+  const entries: GherkinStepEntry[] = [];
+  const addSteps = (parent: GherkinBackground | GherkinScenario) => {
+    for (const step of parent.steps) {
+      entries.push({ step, parent });
+    }
+  };
+
+  for (const child of feature.children) {
+    if (child.type === 'Rule') {
+      child.children.forEach(addSteps);
+    } else {
+      addSteps(child);
+    }
+  }
+  return entries;
+}
+
+/**
+ * Finds the step whose keyword line is the given 1-based line
+ */
+export function getStepAtLine(document: GherkinDocument, line: number): GherkinStepEntry | undefined {
+  if (!document.feature) {
+    return undefined;
+  }
+  return getSteps(document.feature).find(entry => entry.step.location.line === line);
+}
+
+/**
+ * Replaces the `<placeholder>`s of an outline step with the values of an Examples row
+ *
+ * Placeholders without a matching column are left untouched.
+ *
+ * @example
+ * substituteOutlinePlaceholders('I have <count> cukes', header, row) // header: | count |, row: | 5 |
+ * // Returns: 'I have 5 cukes'
+ */
+export function substituteOutlinePlaceholders(text: string, header: GherkinTableRow, row: GherkinTableRow): string {
+  return text.replace(/<([^<>]+)>/g, (placeholder, name: string) => {
+    const column = header.cells.findIndex(cell => cell.value === name);
+    return column >= 0 && column < row.cells.length ? row.cells[column].value : placeholder;
+  });
+}
@@ -9,6 +9,7 @@ import * as os from 'os';
 import { execFile } from 'child_process';
 import { promisify } from 'util';
 import * as vscode from 'vscode';
+import { toMessagePluginOption } from './cucumber-messages';
 
 const execFileAsync = promisify(execFile);
 
@@ -212,6 +213,108 @@ export function extractGluePackage(testClassPath: string, projectRoot: string):
   return packagePath.split(path.sep).join('.');
 }
 
+/**
+ * One or more 1-based feature file lines used as Cucumber line filters
+ * (a single scenario/example line, or every scenario line of a Rule)
+ */
+export type FeatureLines = number | number[];
+
+/**
+ * Append Cucumber line filters to a feature path
+ * 
+ * @param featurePath - Feature path (file path or classpath: URI)
+ * @param lines - Optional line or lines to select; non-positive lines are ignored
+ * @returns Feature path in Cucumber's `path:line[:line...]` format
+ * 
+ * @example
+ * appendLineFilters('classpath:feature/login.feature', [12, 30])
+ * // Returns: 'classpath:feature/login.feature:12:30'
+ */
+export function appendLineFilters(featurePath: string, lines?: FeatureLines): string {
+  const selected = (Array.isArray(lines) ? lines : [lines]).filter((line): line is number => !!line && line > 0);
+  return selected.length > 0 ? `${featurePath}:${selected.join(':')}` : featurePath;
+}
+
+/**
+ * A feature file and the lines of it to run, for a run of several test items
+ */
+export interface FeatureSelection {
+  featurePath: string;  // Feature path (file path or classpath: URI)
+  lines?: FeatureLines;  // Omitted to run the whole feature
+}
+
+/**
+ * Joins feature selections into one comma-separated `cucumber.features` value
+ *
+ * Selections of the same feature are merged into one entry with all of their
+ * lines; a selection without lines selects the whole feature.
+ *
+ * @example
+ * joinFeatureSelections([
+ *   { featurePath: 'classpath:feature/login.feature', lines: 12 },
+ *   { featurePath: 'classpath:feature/cart.feature' },
+ *   { featurePath: 'classpath:feature/login.feature', lines: [30, 41] }
+ * ])
+ * // Returns: 'classpath:feature/login.feature:12:30:41,classpath:feature/cart.feature'
+ */
+export function joinFeatureSelections(selections: FeatureSelection[]): string {
+  const linesByFeature = new Map<string, number[] | undefined>();
+  for (const selection of selections) {
+    const lines = (Array.isArray(selection.lines) ? selection.lines : [selection.lines])
+      .filter((line): line is number => !!line && line > 0);
+    const known = linesByFeature.get(selection.featurePath);
+    if (!linesByFeature.has(selection.featurePath)) {
+      linesByFeature.set(selection.featurePath, lines.length > 0 ? lines : undefined);
+    } else if (known) {
+      linesByFeature.set(selection.featurePath, lines.length > 0 ? Array.from(new Set([...known, ...lines])) : undefined);
+    }
+  }
+  return Array.from(linesByFeature.entries())
+    .map(([featurePath, lines]) => appendLineFilters(featurePath, lines))
+    .join(',');
+}
+
+/**
+ * Where Cucumber's rerun plugin writes the failed scenarios of a run, relative to the module
+ */
+export const RERUN_FILE = 'target/cucumber-rerun.txt';
+
+/**
+ * Cucumber plugin option writing the failed scenarios to the rerun file
+ */
+export const RERUN_PLUGIN = `rerun:${RERUN_FILE}`;
+
+/**
+ * Parses the failed scenarios of a rerun file
+ *
+ * The rerun plugin writes one `uri:line[:line...]` entry per feature, on its
+ * own line (older Cucumber versions separate them by spaces).
+ *
+ * @example
+ * parseRerunFile('classpath:feature/login.feature:12:30\nclasspath:feature/cart.feature:5\n')
+ * // Returns: [
+ * //   { featurePath: 'classpath:feature/login.feature', lines: [12, 30] },
+ * //   { featurePath: 'classpath:feature/cart.feature', lines: [5] }
+ * // ]
+ */
+export function parseRerunFile(content: string): FeatureSelection[] {
+  const selections: FeatureSelection[] = [];
+  for (const entry of content.split(/\s+/)) {
+    const match = entry.match(/^(.+?)((?::\d+)+)$/);
+    if (match) {
+      selections.push({ featurePath: match[1], lines: match[2].substring(1).split(':').map(Number) });
+    }
+  }
+  return selections;
+}
+
+/**
+ * Formats feature selections as the content of a rerun file, to be passed back to Cucumber as `@file`
+ */
+export function formatRerunFile(selections: FeatureSelection[]): string {
+  return selections.map(selection => appendLineFilters(selection.featurePath, selection.lines) + '\n').join('');
+}
+
 /**
  * Build Cucumber CLI arguments for test execution
  * 
@@ -219,6 +322,7 @@ export function extractGluePackage(testClassPath: string, projectRoot: string):
  * @param gluePackage - Package containing step definitions (from extractGluePackage)
  * @param lineNumber - Optional scenario line number
  * @param projectRoot - Project root for relative paths in reports
+ * @param messagesFile - Optional NDJSON file for the `message` plugin (live results)
  * @returns Array of Cucumber CLI arguments
  * 
  * @example
@@ -231,14 +335,16 @@ export function extractGluePackage(testClassPath: string, projectRoot: string):
  * //   '--glue', 'com.example.steps',
  * //   '--plugin', 'pretty',
  * //   '--plugin', 'json:target/cucumber-report.json',
+ * //   '--plugin', 'rerun:target/cucumber-rerun.txt',
  * //   '/project/src/test/resources/features/login.feature:25'
  * // ]
  */
 export function buildCucumberArgs(
   featurePath: string,
   gluePackage: string,
-  lineNumber?: number,
-  projectRoot?: string
+  lineNumber?: FeatureLines,
+  projectRoot?: string,
+  messagesFile?: string
 ): string[] {
   const args: string[] = [];
 
@@ -251,10 +357,13 @@ export function buildCucumberArgs(
   args.push('--plugin', 'pretty');
   args.push('--plugin', 'html:target/cucumber-reports/cucumber.html');
   args.push('--plugin', 'json:target/cucumber-reports/cucumber.json');
+  args.push('--plugin', RERUN_PLUGIN);
+  if (messagesFile) {
+    args.push('--plugin', toMessagePluginOption(messagesFile));
+  }
 
   // Add feature file with optional line number
-  const featureArg = lineNumber ? `${featurePath}:${lineNumber}` : featurePath;
-  args.push(featureArg);
+  args.push(appendLineFilters(featurePath, lineNumber));
 
   
 
@@ -449,7 +558,9 @@ export function convertToWorkspaceFolderPaths(
  * @param moduleRelativePath - Relative path to module (e.g., 'spring/datahunter-system')
  * @param testClassName - Simple test class name (e.g., 'MktSegmentCriteriaUpdateTest')
  * @param featureRelativePath - Feature file path relative to module's resources
- * @param lineNumber - Optional scenario line number
+ * @param lineNumber - Optional scenario line number (or all scenario lines of a Rule)
+ * @param messagesFile - Optional NDJSON file for the `message` plugin (live results)
+ * @param cucumberTags - Optional tag expression for `cucumber.filter.tags`
  * @returns Maven command arguments array
  * 
  * @example
@@ -471,14 +582,14 @@ export function buildMavenDebugCommand(
   moduleRelativePath: string,
   testClassName: string,
   featureRelativePath: string,
-  lineNumber?: number
+  lineNumber?: FeatureLines,
+  messagesFile?: string,
+  cucumberTags?: string
 ): string[] {
   const args: string[] = ['test'];
 
   // Build cucumber.features parameter
-  const featureArg = lineNumber 
-    ? `classpath:${featureRelativePath}:${lineNumber}`
-    : `classpath:${featureRelativePath}`;
+  const featureArg = appendLineFilters(`classpath:${featureRelativePath}`, lineNumber);
   args.push(`-Dcucumber.features=${featureArg}`);
 
   // Add module selection (if not root module)
@@ -486,7 +597,13 @@ export function buildMavenDebugCommand(
     args.push('-pl', moduleRelativePath);
   }
 
-  args.push('-Dcucumber.plugin=pretty');
+  args.push(messagesFile
+    ? `-Dcucumber.plugin=pretty,${RERUN_PLUGIN},${toMessagePluginOption(messagesFile)}`
+    : `-Dcucumber.plugin=pretty,${RERUN_PLUGIN}`);
+
+  if (cucumberTags) {
+    args.push(`-Dcucumber.filter.tags=${cucumberTags}`);
+  }
 
   // Add test class selection
   args.push(`-Dtest=${testClassName}`);
@@ -0,0 +1,164 @@
+/**
+ * Expanded Scenario Outline preview
+ *
+ * Expands an outline into the scenarios Cucumber runs for it (one per
+ * Examples row), with the placeholders substituted in the name, steps, data
+ * tables and doc strings, and renders them as Gherkin for a read-only
+ * preview. Background steps are included, as they are in the run.
+ *
+ * @module outline-preview
+ */
+
+import {
+  GherkinFeature,
+  GherkinScenario,
+  GherkinStep,
+  GherkinTableRow,
+  getGherkinDialect,
+  substituteOutlinePlaceholders
+} from './gherkin-parser';
+import { displayWidth } from './gherkin-formatter';
+
+export interface ExpandedStep {
+  keyword: string;
+  text: string;
+  dataTable?: string[][];
+  docString?: { delimiter: string; mediaType?: string; content: string };
+}
+
+/**
+ * One scenario of an outline, for one Examples row
+ */
+export interface ExpandedScenario {
+  name: string;
+  tags: string[];
+  examplesName: string;
+  exampleLine: number;  // 1-based line of the Examples row in the feature file
+  steps: ExpandedStep[];
+}
+
+export interface OutlinePreview {
+  text: string;
+  // 1-based line of each expanded scenario's keyword in the preview text
+  scenarios: Array<{ line: number; exampleLine: number }>;
+}
+
+/**
+ * Expands a Scenario Outline into one scenario per Examples row
+ *
+ * @returns The expanded scenarios in source order, empty when the scenario has no Examples rows
+ */
+export function expandScenarioOutline(feature: GherkinFeature, scenario: GherkinScenario): ExpandedScenario[] {
+  const backgroundSteps = getBackgroundSteps(feature, scenario);
+  const expanded: ExpandedScenario[] = [];
+
+  for (const examples of scenario.examples) {
+    const header = examples.tableHeader;
+    if (!header) {
+      continue;
+    }
+    const tags = [...feature.tags, ...getRuleTags(feature, scenario), ...scenario.tags, ...examples.tags].map(tag => tag.name);
+
+    for (const row of examples.tableBody) {
+      expanded.push({
+        name: substituteOutlinePlaceholders(scenario.name, header, row),
+        tags: Array.from(new Set(tags)),
+        examplesName: examples.name,
+        exampleLine: row.location.line,
+        steps: [
+          ...backgroundSteps.map(step => expandStep(step)),
+          ...scenario.steps.map(step => expandStep(step, header, row))
+        ]
+      });
+    }
+  }
+  return expanded;
+}
+
+/**
+ * Renders the expanded scenarios of an outline as Gherkin
+ *
+ * @param sourceName - Name of the feature file shown in the header comment (e.g. a workspace-relative path)
+ */
+export function renderOutlinePreview(feature: GherkinFeature, scenario: GherkinScenario, sourceName: string): OutlinePreview {
+  const dialect = getGherkinDialect(feature.language);
+  const scenarioKeyword = dialect ? dialect.scenario[0] : 'Scenario';
+  const lines: string[] = [];
+  const scenarios: OutlinePreview['scenarios'] = [];
+
+  if (feature.language !== 'en') {
+    lines.push(`# language: ${feature.language}`);
+  }
+  lines.push(`# Expanded from ${sourceName}:${scenario.location.line} (${scenario.keyword}: ${scenario.name})`);
+  lines.push('# Read-only preview: one scenario per Examples row, placeholders substituted');
+  lines.push('');
+  lines.push(`${feature.keyword}: ${feature.name}`);
+
+  for (const expanded of expandScenarioOutline(feature, scenario)) {
+    lines.push('');
+    lines.push(`  # ${expanded.examplesName ? `Examples "${expanded.examplesName}", row` : 'Examples row'} at line ${expanded.exampleLine}`);
+    if (expanded.tags.length > 0) {
+      lines.push(`  ${expanded.tags.join(' ')}`);
+    }
+    lines.push(`  ${scenarioKeyword}: ${expanded.name}`);
+    scenarios.push({ line: lines.length, exampleLine: expanded.exampleLine });
+
+    for (const step of expanded.steps) {
+      lines.push(`    ${step.keyword} ${step.text}`);
+      if (step.dataTable) {
+        lines.push(...renderTable(step.dataTable, '      '));
+      }
+      if (step.docString) {
+        lines.push(`      ${step.docString.delimiter}${step.docString.mediaType || ''}`);
+        step.docString.content.split('\n').forEach(line => lines.push(line ? `      ${line}` : ''));
+        lines.push(`      ${step.docString.delimiter}`);
+      }
+    }
+  }
+
+  return { text: lines.join('\n') + '\n', scenarios };
+}
+
+function expandStep(step: GherkinStep, header?: GherkinTableRow, row?: GherkinTableRow): ExpandedStep {
+  const substitute = (text: string) => header && row ? substituteOutlinePlaceholders(text, header, row) : text;
+  return {
+    keyword: step.keyword,
+    text: substitute(step.text),
+    dataTable: step.dataTable?.rows.map(tableRow => tableRow.cells.map(cell => substitute(cell.value))),
+    docString: step.docString && {
+      delimiter: step.docString.delimiter,
+      mediaType: step.docString.mediaType && substitute(step.docString.mediaType),
+      content: substitute(step.docString.content)
+    }
+  };
+}
+
+/**
+ * Steps of the Feature and Rule Backgrounds that run before a scenario
+ */
+function getBackgroundSteps(feature: GherkinFeature, scenario: GherkinScenario): GherkinStep[] {
+  const steps: GherkinStep[] = [];
+  for (const child of feature.children) {
+    if (child.type === 'Background') {
+      steps.push(...child.steps);
+    } else if (child.type === 'Rule' && child.children.includes(scenario)) {
+      child.children.forEach(ruleChild => ruleChild.type === 'Background' && steps.push(...ruleChild.steps));
+    }
+  }
+  return steps;
+}
+
+function getRuleTags(feature: GherkinFeature, scenario: GherkinScenario) {
+  const rule = feature.children.find(child => child.type === 'Rule' && child.children.includes(scenario));
+  return rule && rule.type === 'Rule' ? rule.tags : [];
+}
+
+function renderTable(rows: string[][], indent: string): string[] {
+  const escaped = rows.map(row => row.map(cell => cell.replace(/\\/g, '\\\\').replace(/\|/g, '\\|').replace(/\n/g, '\\n')));
+  const widths: number[] = [];
+  escaped.forEach(row => row.forEach((cell, column) => {
+    widths[column] = Math.max(widths[column] || 0, displayWidth(cell));
+  }));
+  return escaped.map(row =>
+    `${indent}| ${row.map((cell, column) => cell + ' '.repeat(widths[column] - displayWidth(cell))).join(' | ')} |`);
+}
@@ -0,0 +1,1332 @@
+/**
+ * Step definition index for Java glue code
+ *
+ * Parses cucumber-java step annotations (`@Given`, `@When`, `@Then`, `@And`,
+ * `@But` and their i18n variants) from Java sources, compiles their Cucumber
+ * Expressions or regular expressions, and matches Gherkin step text against
+ * them.
+ *
+ * @module step-definitions
+ */
+
+import * as path from 'path';
+import { findAnnotationImport } from './step-snippets';
+
+/**
+ * Position in a Java source file (1-based, like Gherkin locations)
+ */
+export interface JavaLocation {
+  line: number;
+  column: number;
+}
+
+/**
+ * A step definition method found in a Java source file
+ */
+export interface StepDefinition {
+  /** Annotation name, e.g. "Given" or "Angenommen" */
+  keyword: string;
+  /** Expression as written in the annotation (Java escapes resolved) */
+  expression: string;
+  /** True when the expression is a regular expression rather than a Cucumber Expression */
+  isRegex: boolean;
+  filePath: string;
+  /** Java package of the declaring class ('' for the default package) */
+  packageName: string;
+  /** Name of the class declaring the method */
+  className: string;
+  methodName: string;
+  /** Method declaration up to its parameter list, e.g. "public void login(String user)" */
+  signature: string;
+  /** Parameter declarations, e.g. ["String user"] */
+  parameters: string[];
+  /** Javadoc of the method without comment markers */
+  javadoc?: string;
+  /** Location of the annotation's `@` */
+  annotationLocation: JavaLocation;
+  /** Source range of the expression's string literal(s), quotes included (end exclusive) */
+  expressionRange: { start: JavaLocation; end: JavaLocation };
+  /** Location of the method name */
+  methodLocation: JavaLocation;
+}
+
+/**
+ * A custom parameter type declared with `@ParameterType`
+ */
+export interface ParameterTypeDefinition {
+  name: string;
+  regexps: string[];
+  filePath: string;
+  location: JavaLocation;
+}
+
+/**
+ * A step definition matching a step, with the arguments it captures
+ */
+export interface StepMatch {
+  definition: StepDefinition;
+  arguments: StepArgument[];
+}
+
+/**
+ * Text captured by a parameter or group, with its offset in the step text
+ */
+export interface StepArgument {
+  value: string;
+  start: number;
+  end: number;
+  parameterType?: string;  // Cucumber Expression parameter type, e.g. 'int' ('' for `{}`), unset for regex groups
+}
+
+/**
+ * Regular expressions of Cucumber's built-in parameter types
+ */
+const BUILT_IN_PARAMETER_TYPES = new Map<string, string[]>([
+  ['int', ['-?\\d+', '\\d+']],
+  ['byte', ['-?\\d+', '\\d+']],
+  ['short', ['-?\\d+', '\\d+']],
+  ['long', ['-?\\d+', '\\d+']],
+  ['biginteger', ['-?\\d+', '\\d+']],
+  ['float', ['(?=.*\\d.*)[-+]?\\d*(?:[.,](?=\\d.*))?\\d*(?:\\d+[eE][+-]?\\d+)?']],
+  ['double', ['(?=.*\\d.*)[-+]?\\d*(?:[.,](?=\\d.*))?\\d*(?:\\d+[eE][+-]?\\d+)?']],
+  ['bigdecimal', ['(?=.*\\d.*)[-+]?\\d*(?:[.,](?=\\d.*))?\\d*(?:\\d+[eE][+-]?\\d+)?']],
+  ['word', ['[^\\s]+']],
+  ['string', ['"(?:[^"\\\\]|\\\\.)*"', "'(?:[^'\\\\]|\\\\.)*'"]],
+  ['', ['.*']]
+]);
+
+interface CompiledDefinition {
+  definition: StepDefinition;
+  regex: RegExp;  // With the `d` flag where supported, for argument positions
+  parameters?: Array<{ name: string; group: number }>;  // Cucumber Expressions only
+}
+
+type IndexedRegExpMatch = RegExpExecArray & { indices?: Array<[number, number] | undefined> };
+
+/**
+ * Parses the step definitions of a Java source file
+ *
+ * Only annotations that are cucumber-java step keywords are returned. String
+ * concatenation (`"a " + "b"`) and the `value = "..."` form are supported.
+ *
+ * @example
+ * parseStepDefinitions('@Given("I have {int} cukes")\npublic void cukes(int n) {}', 'Steps.java')
+ * // Returns: [{ keyword: 'Given', expression: 'I have {int} cukes', isRegex: false, methodName: 'cukes', ... }]
+ */
+export function parseStepDefinitions(javaSource: string, filePath: string): StepDefinition[] {
+  const definitions: StepDefinition[] = [];
+  const masked = maskComments(javaSource);
+  const lineStarts = computeLineStarts(javaSource);
+  const packageName = parsePackageName(masked);
+  const annotationPattern = /@(?:[\p{L}_$][\p{L}\p{N}_$]*\.)*([\p{L}_$][\p{L}\p{N}_$]*)\s*\(/gu;
+
+  let match: RegExpExecArray | null;
+  while ((match = annotationPattern.exec(masked)) !== null) {
+    const keyword = match[1];
+    if (!isStepKeywordAnnotation(keyword)) {
+      continue;
+    }
+
+    const args = readAnnotationArguments(masked, match.index + match[0].length);
+    if (!args) {
+      continue;
+    }
+    annotationPattern.lastIndex = args.end;
+
+    const expression = args.value;
+    const method = findAnnotatedMethod(masked, args.end);
+    if (expression === undefined || !method) {
+      continue;
+    }
+
+    definitions.push({
+      keyword,
+      expression,
+      isRegex: isRegularExpression(expression),
+      filePath,
+      packageName,
+      className: findEnclosingClassName(masked, match.index) ?? path.basename(filePath, '.java'),
+      methodName: method.name,
+      signature: method.signature,
+      parameters: method.parameters,
+      javadoc: findJavadoc(javaSource, match.index),
+      annotationLocation: toLocation(lineStarts, match.index),
+      expressionRange: { start: toLocation(lineStarts, args.valueStart), end: toLocation(lineStarts, args.valueEnd) },
+      methodLocation: toLocation(lineStarts, method.offset)
+    });
+  }
+
+  return definitions;
+}
+
+/**
+ * Parses the custom parameter types (`@ParameterType`) of a Java source file
+ *
+ * The parameter type is named after the method unless the annotation has a
+ * `name` attribute.
+ */
+export function parseParameterTypes(javaSource: string, filePath: string): ParameterTypeDefinition[] {
+  const parameterTypes: ParameterTypeDefinition[] = [];
+  const masked = maskComments(javaSource);
+  const lineStarts = computeLineStarts(javaSource);
+  const annotationPattern = /@(?:io\.cucumber\.java\.)?ParameterType\s*\(/g;
+
+  let match: RegExpExecArray | null;
+  while ((match = annotationPattern.exec(masked)) !== null) {
+    const args = readAnnotationArguments(masked, match.index + match[0].length);
+    if (!args || args.value === undefined) {
+      continue;
+    }
+    annotationPattern.lastIndex = args.end;
+
+    const method = findAnnotatedMethod(masked, args.end);
+    const name = args.attributes.get('name') ?? method?.name;
+    if (name === undefined) {
+      continue;
+    }
+
+    parameterTypes.push({
+      name,
+      regexps: [args.value],
+      filePath,
+      location: toLocation(lineStarts, match.index)
+    });
+  }
+
+  return parameterTypes;
+}
+
+/**
+ * Source of a step definition method, from its annotation to the end of its body
+ *
+ * Comments are left out and whitespace is collapsed, so comparing the source
+ * of two versions of a class tells which step definitions really changed.
+ *
+ * @returns The method source, or undefined when its body cannot be found
+ */
+export function getStepDefinitionSource(javaSource: string, definition: StepDefinition): string | undefined {
+  const masked = maskComments(javaSource);
+  const lineStarts = computeLineStarts(javaSource);
+  const toOffset = (location: JavaLocation) => (lineStarts[location.line - 1] ?? masked.length) + location.column - 1;
+  const start = toOffset(definition.annotationLocation);
+
+  let depth = 0;
+  for (let i = toOffset(definition.methodLocation); i < masked.length; i++) {
+    const char = masked[i];
+    if (char === '"' || char === '\'') {
+      // Braces in string and char literals do not count
+      i++;
+      while (i < masked.length && masked[i] !== char && masked[i] !== '\n') {
+        i += masked[i] === '\\' ? 2 : 1;
+      }
+    } else if (char === '{') {
+      depth++;
+    } else if (char === '}' && --depth === 0) {
+      return masked.substring(start, i + 1).replace(/\s+/g, ' ');
+    } else if (char === ';' && depth === 0) {
+      // Abstract or interface method without a body
+      return masked.substring(start, i + 1).replace(/\s+/g, ' ');
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Whether an expression is a regular expression
+ *
+ * Same rule as cucumber-jvm: anchored (`^...` or `...$`) or slash-delimited
+ * expressions are regular expressions, anything else is a Cucumber Expression.
+ */
+export function isRegularExpression(expression: string): boolean {
+  return expression.startsWith('^') ||
+    expression.endsWith('$') ||
+    (expression.length > 1 && expression.startsWith('/') && expression.endsWith('/'));
+}
+
+/**
+ * Whether a step definition is part of a glue path
+ *
+ * Like Cucumber, a glue package includes its sub-packages. Several packages
+ * may be given comma-separated, in package (`com.example.steps`) or
+ * classpath (`classpath:com/example/steps`) form.
+ *
+ * @example
+ * isInGluePath(definition, 'com.example') // definition in com.example.steps
+ * // Returns: true
+ */
+export function isInGluePath(definition: StepDefinition, gluePath: string): boolean {
+  return parseGluePackages(gluePath)
+    .some(glue => definition.packageName === glue || definition.packageName.startsWith(`${glue}.`));
+}
+
+/**
+ * Packages of a glue path, given comma-separated in package or classpath form
+ *
+ * @example
+ * parseGluePackages('classpath:com/example/steps, org.other') // Returns: ['com.example.steps', 'org.other']
+ */
+export function parseGluePackages(gluePath: string): string[] {
+  return gluePath
+    .split(',')
+    .map(glue => glue.trim().replace(/^classpath:/, '').replace(/[/\\]/g, '.').replace(/^\.+|\.+$/g, ''))
+    .filter(glue => glue.length > 0);
+}
+
+/**
+ * Compiles a Cucumber Expression to a JavaScript regular expression
+ *
+ * Supports parameters (`{int}`, `{string}`, `{}` and custom types), optional
+ * text (`cucumber(s)`), alternation (`belly/stomach`) and `\` escapes.
+ * Unknown parameter types match anything.
+ *
+ * @example
+ * compileCucumberExpression('I have {int} cucumber(s) in my belly/stomach').source
+ * // Returns: '^I have ((?:-?\d+)|(?:\d+)) cucumber(?:s)? in my (?:belly|stomach)$'
+ */
+export function compileCucumberExpression(
+  expression: string,
+  parameterTypes: Map<string, string[]> = new Map()
+): RegExp {
+  let source = '';
+  let i = 0;
+
+  while (i < expression.length) {
+    const char = expression[i];
+
+    if (/\s/.test(char)) {
+      source += escapeRegExp(char);
+      i++;
+      continue;
+    }
+
+    // A run of non-whitespace text, which may contain alternation
+    let end = i;
+    const alternatives: string[] = [''];
+    while (end < expression.length && !/\s/.test(expression[end])) {
+      const current = expression[end];
+      if (current === '\\' && end + 1 < expression.length) {
+        alternatives[alternatives.length - 1] += escapeRegExp(expression[end + 1]);
+        end += 2;
+      } else if (current === '{') {
+        const close = expression.indexOf('}', end);
+        if (close < 0) {
+          alternatives[alternatives.length - 1] += escapeRegExp(current);
+          end++;
+          continue;
+        }
+        const name = expression.substring(end + 1, close);
+        const regexps = parameterTypes.get(name) ?? BUILT_IN_PARAMETER_TYPES.get(name) ?? ['.*'];
+        alternatives[alternatives.length - 1] += `(${regexps.map(regexp => `(?:${regexp})`).join('|')})`;
+        end = close + 1;
+      } else if (current === '(') {
+        const close = findOptionalEnd(expression, end);
+        if (close < 0) {
+          alternatives[alternatives.length - 1] += escapeRegExp(current);
+          end++;
+          continue;
+        }
+        const optional = expression.substring(end + 1, close).replace(/\\(.)/g, '$1');
+        alternatives[alternatives.length - 1] += `(?:${escapeRegExp(optional)})?`;
+        end = close + 1;
+        // Optional text may contain whitespace: continue the run after it
+      } else if (current === '/') {
+        alternatives.push('');
+        end++;
+      } else {
+        alternatives[alternatives.length - 1] += escapeRegExp(current);
+        end++;
+      }
+    }
+
+    source += alternatives.length > 1 ? `(?:${alternatives.join('|')})` : alternatives[0];
+    i = end;
+  }
+
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Compiles a Java regular expression of a step definition to a JavaScript one
+ *
+ * Slash delimiters and a leading `(?i)` flag are translated; anything the
+ * JavaScript engine rejects makes the definition unmatchable.
+ *
+ * @returns The regular expression, or undefined when it cannot be compiled
+ */
+export function compileJavaRegex(expression: string): RegExp | undefined {
+  let source = expression;
+  let flags = '';
+
+  if (source.length > 1 && source.startsWith('/') && source.endsWith('/')) {
+    source = source.substring(1, source.length - 1);
+  }
+  if (source.startsWith('(?i)')) {
+    source = source.substring(4);
+    flags += 'i';
+  }
+  if (!source.startsWith('^')) {
+    source = `^${source}`;
+  }
+  if (!source.endsWith('$')) {
+    source = `${source}$`;
+  }
+
+  for (const candidateFlags of [flags + 'u', flags]) {
+    try {
+      return new RegExp(source, candidateFlags);
+    } catch {
+      // Try again without unicode mode (Java allows escapes JS rejects in it)
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Step text suggested for a step definition, as display text and as a snippet
+ */
+export interface StepSnippet {
+  /** Readable step text, parameters shown as `{name}` */
+  text: string;
+  /** Snippet syntax (`${1:name}` tab stops, `${2|a,b|}` choices) */
+  snippet: string;
+}
+
+/**
+ * Turns a step definition into step text with snippet placeholders
+ *
+ * Cucumber Expression parameters become tab stops (`{string}` keeps its
+ * quotes), alternations become choices and optional text is left out. For
+ * regular expressions every capturing group becomes a tab stop.
+ *
+ * @example
+ * toStepSnippet({ expression: 'I have {int} cucumber(s) in my belly/stomach', isRegex: false, ... }).snippet
+ * // Returns: 'I have ${1:int} cucumber in my ${2|belly,stomach|}'
+ */
+export function toStepSnippet(definition: Pick<StepDefinition, 'expression' | 'isRegex'>): StepSnippet {
+  const parts = toSnippetParts(definition);
+
+  let tabStop = 0;
+  let text = '';
+  let snippet = '';
+  for (const part of parts) {
+    if (typeof part === 'string') {
+      text += part;
+      snippet += escapeSnippetText(part);
+    } else if (part.choices) {
+      tabStop++;
+      text += part.choices.join('/');
+      snippet += `\${${tabStop}|${part.choices.map(choice => choice.replace(/[,|\\$}]/g, '\\$&')).join(',')}|}`;
+    } else {
+      tabStop++;
+      const quote = part.quoted ? '"' : '';
+      text += `${quote}{${part.name}}${quote}`;
+      snippet += `${quote}\${${tabStop}:${escapeSnippetText(part.name)}}${quote}`;
+    }
+  }
+
+  return { text, snippet: tabStop > 0 ? snippet : escapeSnippetText(text) };
+}
+
+/**
+ * Number of parameters (capturing groups for regular expressions) of a step expression
+ */
+export function countStepParameters(definition: Pick<StepDefinition, 'expression' | 'isRegex'>): number {
+  return toSnippetParts(definition).filter(part => typeof part !== 'string' && !part.choices).length;
+}
+
+/**
+ * Step text for an expression, with the given argument values in place of its parameters
+ *
+ * Used when renaming a step pattern to rewrite the steps using it while
+ * keeping their arguments. Alternations use their first alternative and
+ * optional text is left out.
+ *
+ * @example
+ * renderStepText({ expression: 'the customer {string} has {int} items', isRegex: false }, ['"bob"', '3'])
+ * // Returns: 'the customer "bob" has 3 items'
+ */
+export function renderStepText(definition: Pick<StepDefinition, 'expression' | 'isRegex'>, values: string[]): string {
+  let text = '';
+  let index = 0;
+  for (const part of toSnippetParts(definition)) {
+    if (typeof part === 'string') {
+      text += part;
+    } else if (part.choices) {
+      text += part.choices[0];
+    } else {
+      let value = values[index++] ?? `{${part.name}}`;
+      const quotedValue = /^(["']).*\1$/s.test(value);
+      if (part.quoted && !quotedValue) {
+        value = `"${value}"`;
+      } else if (!part.quoted && quotedValue && text.endsWith(value[0])) {
+        value = value.substring(1, value.length - 1);  // The expression already has the quotes
+      }
+      text += value;
+    }
+  }
+  return text;
+}
+
+function toSnippetParts(definition: Pick<StepDefinition, 'expression' | 'isRegex'>): SnippetPart[] {
+  return definition.isRegex ? regexToSnippetParts(definition.expression) : expressionToSnippetParts(definition.expression);
+}
+
+type SnippetPart = string | { name: string; quoted?: boolean; choices?: string[] };
+
+function expressionToSnippetParts(expression: string): SnippetPart[] {
+  const parts: SnippetPart[] = [];
+  // Optional text may span whitespace, e.g. "(the )user", so it is removed up front
+  const words = removeOptionals(expression).split(/(\s+)/);
+
+  for (const word of words) {
+    if (/^\s*$/.test(word)) {
+      parts.push(word);
+      continue;
+    }
+
+    // Alternation: split on unescaped slashes outside parameters
+    const alternatives = word.split(/(?<!\\)\/(?![^{]*\})/);
+    if (alternatives.length > 1) {
+      parts.push({ name: '', choices: alternatives.map(unescapeExpression) });
+      continue;
+    }
+
+    let i = 0;
+    let literal = '';
+    while (i < word.length) {
+      const char = word[i];
+      if (char === '\\' && i + 1 < word.length) {
+        literal += word[i + 1];
+        i += 2;
+      } else if (char === '{' && word.indexOf('}', i) > i) {
+        const close = word.indexOf('}', i);
+        const name = word.substring(i + 1, close);
+        if (literal) {
+          parts.push(literal);
+          literal = '';
+        }
+        parts.push(name === 'string' ? { name: 'string', quoted: true } : { name: name || 'value' });
+        i = close + 1;
+      } else {
+        literal += char;
+        i++;
+      }
+    }
+    if (literal) {
+      parts.push(literal);
+    }
+  }
+
+  return mergeLiterals(parts);
+}
+
+function regexToSnippetParts(expression: string): SnippetPart[] {
+  let source = expression;
+  if (source.length > 1 && source.startsWith('/') && source.endsWith('/')) {
+    source = source.substring(1, source.length - 1);
+  }
+  source = source.replace(/^\(\?i\)/, '').replace(/^\^/, '').replace(/(?<!\\)\$$/, '');
+
+  const parts: SnippetPart[] = [];
+  let literal = '';
+  const flushLiteral = () => {
+    if (literal) {
+      parts.push(literal);
+      literal = '';
+    }
+  };
+
+  let i = 0;
+  while (i < source.length) {
+    const char = source[i];
+
+    if (char === '|') {
+      break;  // Only the first top-level alternative is suggested
+    }
+
+    if (char === '(') {
+      const close = findGroupEnd(source, i);
+      const content = source.substring(i + 1, close);
+      const quantifier = source.substring(close + 1).match(/^[?*+]?\??/)![0];
+      i = close + 1 + quantifier.length;
+
+      if (quantifier.startsWith('?') || quantifier.startsWith('*')) {
+        continue;  // Optional group
+      }
+      if (content.startsWith('?:')) {
+        const alternatives = splitTopLevelAlternatives(content.substring(2));
+        if (alternatives.length > 1 && alternatives.every(alternative => /^[^\\()[\]{}.*+?]*$/.test(alternative))) {
+          flushLiteral();
+          parts.push({ name: '', choices: alternatives });
+        } else {
+          literal += regexToSnippetParts(alternatives[0]).filter(part => typeof part === 'string').join('');
+        }
+        continue;
+      }
+      if (content.startsWith('?')) {
+        continue;  // Lookaround and other special groups
+      }
+      const quoted = literal.endsWith('"') && source[i] === '"';
+      flushLiteral();
+      parts.push({ name: quoted ? 'string' : 'value' });
+      continue;
+    }
+
+    if (char === '[') {
+      i = findCharClassEnd(source, i) + 1;
+      i += source.substring(i).match(/^[?*+]?\??/)![0].length;
+      continue;
+    }
+
+    if (char === '\\' && i + 1 < source.length) {
+      const next = source[i + 1];
+      i += 2;
+      if (/[dDwWsSbB]/.test(next)) {
+        literal += next === 's' ? ' ' : '';
+      } else {
+        literal += next;
+      }
+      continue;
+    }
+
+    if (char === '.' && /[*+]/.test(source[i + 1] ?? '')) {
+      flushLiteral();
+      parts.push({ name: 'value' });
+      i += 2;
+      continue;
+    }
+
+    if (char === '?') {
+      literal = literal.substring(0, literal.length - 1);  // Optional character
+      i++;
+      continue;
+    }
+
+    if (char === '*' || char === '+' || char === '^' || char === '$') {
+      i++;
+      continue;
+    }
+
+    literal += char;
+    i++;
+  }
+  flushLiteral();
+
+  return mergeLiterals(parts);
+}
+
+function mergeLiterals(parts: SnippetPart[]): SnippetPart[] {
+  const merged: SnippetPart[] = [];
+  for (const part of parts) {
+    const last = merged[merged.length - 1];
+    if (typeof part === 'string' && typeof last === 'string') {
+      merged[merged.length - 1] = last + part;
+    } else {
+      merged.push(part);
+    }
+  }
+  return merged.map(part => (typeof part === 'string' ? part.replace(/ {2,}/g, ' ') : part));
+}
+
+function removeOptionals(text: string): string {
+  let result = '';
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '\\') {
+      result += text.substring(i, i + 2);
+      i++;
+    } else if (text[i] === '(' && findOptionalEnd(text, i) > i) {
+      i = findOptionalEnd(text, i);
+    } else {
+      result += text[i];
+    }
+  }
+  return result;
+}
+
+function unescapeExpression(text: string): string {
+  return text.replace(/\\(.)/g, '$1');
+}
+
+/**
+ * Finds the `)` closing a regex group, skipping escapes, character classes and nested groups
+ */
+function findGroupEnd(source: string, start: number): number {
+  let depth = 0;
+  for (let i = start; i < source.length; i++) {
+    const char = source[i];
+    if (char === '\\') {
+      i++;
+    } else if (char === '[') {
+      i = findCharClassEnd(source, i);
+    } else if (char === '(') {
+      depth++;
+    } else if (char === ')') {
+      depth--;
+      if (depth === 0) {
+        return i;
+      }
+    }
+  }
+  return source.length - 1;
+}
+
+function findCharClassEnd(source: string, start: number): number {
+  for (let i = start + 1; i < source.length; i++) {
+    if (source[i] === '\\') {
+      i++;
+    } else if (source[i] === ']' && i > start + 1) {
+      return i;
+    }
+  }
+  return source.length - 1;
+}
+
+function splitTopLevelAlternatives(source: string): string[] {
+  const alternatives: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (char === '\\') {
+      current += source.substring(i, i + 2);
+      i++;
+      continue;
+    }
+    if (char === '(') {
+      depth++;
+    } else if (char === ')') {
+      depth--;
+    } else if (char === '|' && depth === 0) {
+      alternatives.push(current);
+      current = '';
+      continue;
+    }
+    current += char;
+  }
+  alternatives.push(current);
+  return alternatives;
+}
+
+function escapeSnippetText(text: string): string {
+  return text.replace(/[$}\\]/g, '\\$&');
+}
+
+/**
+ * Index of the step definitions of a project, one entry per Java file
+ */
+export class StepDefinitionIndex {
+  private definitionsByFile = new Map<string, StepDefinition[]>();
+  private parameterTypesByFile = new Map<string, ParameterTypeDefinition[]>();
+  private compiled: CompiledDefinition[] | undefined;
+  private changeCount = 0;
+
+  /**
+   * Indexes (or re-indexes) a Java file
+   *
+   * @returns True when the file contains step definitions or parameter types
+   */
+  updateFile(filePath: string, javaSource: string): boolean {
+    const definitions = javaSource.includes('io.cucumber') ? parseStepDefinitions(javaSource, filePath) : [];
+    const parameterTypes = javaSource.includes('ParameterType') ? parseParameterTypes(javaSource, filePath) : [];
+
+    const hadEntries = this.definitionsByFile.has(filePath) || this.parameterTypesByFile.has(filePath);
+    this.definitionsByFile.delete(filePath);
+    this.parameterTypesByFile.delete(filePath);
+    if (definitions.length > 0) {
+      this.definitionsByFile.set(filePath, definitions);
+    }
+    if (parameterTypes.length > 0) {
+      this.parameterTypesByFile.set(filePath, parameterTypes);
+    }
+
+    const hasEntries = definitions.length > 0 || parameterTypes.length > 0;
+    if (hadEntries || hasEntries) {
+      this.invalidate();
+    }
+    return hasEntries;
+  }
+
+  removeFile(filePath: string): void {
+    const hadDefinitions = this.definitionsByFile.delete(filePath);
+    const hadParameterTypes = this.parameterTypesByFile.delete(filePath);
+    if (hadDefinitions || hadParameterTypes) {
+      this.invalidate();
+    }
+  }
+
+  clear(): void {
+    this.definitionsByFile.clear();
+    this.parameterTypesByFile.clear();
+    this.invalidate();
+  }
+
+  getDefinitions(): StepDefinition[] {
+    return Array.from(this.definitionsByFile.values()).flat();
+  }
+
+  getDefinitionsInFile(filePath: string): StepDefinition[] {
+    return this.definitionsByFile.get(filePath) ?? [];
+  }
+
+  getParameterTypes(): ParameterTypeDefinition[] {
+    return Array.from(this.parameterTypesByFile.values()).flat();
+  }
+
+  /**
+   * Finds the step definition whose annotation or method declaration covers a 1-based line
+   */
+  getDefinitionAtLine(filePath: string, line: number): StepDefinition | undefined {
+    return this.getDefinitionsInFile(filePath).find(definition =>
+      line >= definition.annotationLocation.line && line <= definition.methodLocation.line
+    );
+  }
+
+  /**
+   * Incremented on every change, to invalidate results derived from the index
+   */
+  get version(): number {
+    return this.changeCount;
+  }
+
+  get size(): number {
+    return this.getDefinitions().length;
+  }
+
+  /**
+   * Finds the step definitions matching a step text
+   *
+   * @param stepText - Step text without its keyword
+   * @param filter - Optional predicate limiting the definitions considered (e.g. to a glue package)
+   */
+  findMatches(stepText: string, filter?: (definition: StepDefinition) => boolean): StepMatch[] {
+    const matches: StepMatch[] = [];
+
+    for (const { definition, regex, parameters } of this.getCompiledDefinitions()) {
+      if (filter && !filter(definition)) {
+        continue;
+      }
+      const args = matchStepText(regex, stepText, parameters);
+      if (args) {
+        matches.push({ definition, arguments: args });
+      }
+    }
+
+    return matches;
+  }
+
+  /**
+   * Matches a step text against one step definition
+   *
+   * A definition that is not in the index (e.g. parsed from an earlier
+   * version of a file) is compiled with the index's parameter types.
+   *
+   * @returns The captured arguments, or undefined when the text does not match
+   */
+  matchDefinition(definition: StepDefinition, stepText: string): StepArgument[] | undefined {
+    const compiled = this.getCompiledDefinitions().find(entry => entry.definition === definition) ??
+      compileDefinition(definition, this.getParameterTypeRegexps());
+    return compiled ? matchStepText(compiled.regex, stepText, compiled.parameters) : undefined;
+  }
+
+  private invalidate(): void {
+    this.compiled = undefined;
+    this.changeCount++;
+  }
+
+  private getCompiledDefinitions(): CompiledDefinition[] {
+    if (this.compiled) {
+      return this.compiled;
+    }
+
+    const parameterTypes = this.getParameterTypeRegexps();
+    this.compiled = [];
+    for (const definition of this.getDefinitions()) {
+      const compiled = compileDefinition(definition, parameterTypes);
+      if (compiled) {
+        this.compiled.push(compiled);
+      }
+    }
+    return this.compiled;
+  }
+
+  private getParameterTypeRegexps(): Map<string, string[]> {
+    const parameterTypes = new Map<string, string[]>();
+    for (const parameterType of this.getParameterTypes()) {
+      parameterTypes.set(parameterType.name, parameterType.regexps);
+    }
+    return parameterTypes;
+  }
+}
+
+/**
+ * Compiles a step definition, or returns undefined for an invalid regular expression
+ */
+function compileDefinition(definition: StepDefinition, parameterTypes: Map<string, string[]>): CompiledDefinition | undefined {
+  if (definition.isRegex) {
+    const regex = compileJavaRegex(definition.expression);
+    return regex ? { definition, regex: withIndices(regex) } : undefined;
+  }
+
+  // Parameter types may contain groups of their own, only the parameters' groups are arguments
+  let group = 1;
+  const parameters = getExpressionParameterTypes(definition.expression).map(name => {
+    const regexps = parameterTypes.get(name) ?? BUILT_IN_PARAMETER_TYPES.get(name) ?? ['.*'];
+    const parameter = { name, group };
+    group += 1 + countCaptureGroups(regexps.join('|'));
+    return parameter;
+  });
+  return { definition, regex: withIndices(compileCucumberExpression(definition.expression, parameterTypes)), parameters };
+}
+
+/**
+ * Recompiles a regular expression with the `d` flag, so matches carry the indices of their groups
+ */
+function withIndices(regex: RegExp): RegExp {
+  if (regex.flags.includes('d')) {
+    return regex;
+  }
+  try {
+    return new RegExp(regex.source, `${regex.flags}d`);
+  } catch {
+    return regex;
+  }
+}
+
+/**
+ * Matches a step text against a compiled step definition
+ *
+ * @param regex - Compiled with the `d` flag (see `withIndices`), otherwise no arguments are captured
+ * @param parameters - Groups of the parameters of a Cucumber Expression; without them every group is an argument
+ * @returns The captured arguments, or undefined when the text does not match
+ */
+function matchStepText(
+  regex: RegExp,
+  stepText: string,
+  parameters?: Array<{ name: string; group: number }>
+): StepArgument[] | undefined {
+  const match = regex.exec(stepText) as IndexedRegExpMatch | null;
+  if (!match) {
+    return undefined;
+  }
+
+  const args: StepArgument[] = [];
+  const groups = parameters || Array.from({ length: match.length - 1 }, (_, index) => ({ name: undefined, group: index + 1 }));
+  for (const { name, group } of groups) {
+    const value = match[group];
+    const indices = match.indices?.[group];
+    if (value === undefined || !indices) {
+      continue;
+    }
+    args.push(name === undefined ? { value, start: indices[0], end: indices[1] } : { value, start: indices[0], end: indices[1], parameterType: name });
+  }
+  return args;
+}
+
+/**
+ * Parameter type names of a Cucumber Expression, in order (same parsing as `compileCucumberExpression`)
+ *
+ * @example
+ * getExpressionParameterTypes('I have {int} {color} cucumber(s)') // Returns: ['int', 'color']
+ */
+function getExpressionParameterTypes(expression: string): string[] {
+  const names: string[] = [];
+  for (let i = 0; i < expression.length; i++) {
+    const char = expression[i];
+    if (char === '\\') {
+      i++;
+    } else if (char === '{') {
+      const close = expression.indexOf('}', i);
+      if (close >= 0) {
+        names.push(expression.substring(i + 1, close));
+        i = close;
+      }
+    } else if (char === '(') {
+      const close = findOptionalEnd(expression, i);
+      if (close >= 0) {
+        i = close;
+      }
+    }
+  }
+  return names;
+}
+
+/**
+ * Number of capturing groups of a regular expression source
+ */
+function countCaptureGroups(source: string): number {
+  try {
+    return new RegExp(`(?:${source})|`).exec('')!.length - 1;
+  } catch {
+    return 0;
+  }
+}
+
+function isStepKeywordAnnotation(annotation: string): boolean {
+  return findAnnotationImport(annotation, 'en') !== undefined;
+}
+
+/**
+ * Reads the arguments of an annotation, starting right after its `(`
+ *
+ * The default value is the first unnamed string (or `value = ...`); other
+ * named string attributes are returned in `attributes`.
+ */
+function readAnnotationArguments(
+  source: string,
+  start: number
+): { value: string | undefined; valueStart: number; valueEnd: number; attributes: Map<string, string>; end: number } | undefined {
+  const attributes = new Map<string, string>();
+  let value: string | undefined;
+  let valueStart = -1;
+  let valueEnd = -1;
+  let attribute: string | undefined;
+  let current: string | undefined;
+  let currentStart = -1;
+  let currentEnd = -1;
+  let depth = 1;
+  let i = start;
+
+  const flush = () => {
+    if (current === undefined) {
+      return;
+    }
+    if ((attribute === undefined || attribute === 'value') && value === undefined) {
+      value = current;
+      valueStart = currentStart;
+      valueEnd = currentEnd;
+    } else if (attribute !== undefined && attribute !== 'value') {
+      attributes.set(attribute, current);
+    }
+    current = undefined;
+  };
+
+  while (i < source.length) {
+    const char = source[i];
+
+    if (char === '"') {
+      const literal = readJavaString(source, i);
+      if (!literal) {
+        return undefined;
+      }
+      if (current === undefined) {
+        currentStart = i;
+      }
+      current = (current ?? '') + literal.value;
+      currentEnd = literal.end;
+      i = literal.end;
+      continue;
+    }
+
+    if (char === '(' || char === '{') {
+      depth++;
+    } else if (char === ')' || char === '}') {
+      depth--;
+      if (depth === 0) {
+        flush();
+        return { value, valueStart, valueEnd, attributes, end: i + 1 };
+      }
+    } else if (char === ',' && depth === 1) {
+      flush();
+      attribute = undefined;
+    } else if (/[\p{L}_$]/u.test(char) && depth === 1 && current === undefined) {
+      const identifier = source.substring(i).match(/^[\p{L}_$][\p{L}\p{N}_$]*(?=\s*=(?!=))/u);
+      if (identifier) {
+        attribute = identifier[0];
+        i += identifier[0].length;
+        continue;
+      }
+    }
+    i++;
+  }
+
+  return undefined;
+}
+
+/**
+ * Reads a Java string literal starting at its opening quote
+ */
+function readJavaString(source: string, start: number): { value: string; end: number } | undefined {
+  let value = '';
+  let i = start + 1;
+
+  while (i < source.length) {
+    const char = source[i];
+    if (char === '"') {
+      return { value, end: i + 1 };
+    }
+    if (char === '\n') {
+      return undefined;
+    }
+    if (char === '\\' && i + 1 < source.length) {
+      const next = source[i + 1];
+      if (next === 'u') {
+        const hex = source.substring(i + 2, i + 6);
+        if (/^[0-9a-fA-F]{4}$/.test(hex)) {
+          value += String.fromCharCode(parseInt(hex, 16));
+          i += 6;
+          continue;
+        }
+      }
+      value += ({ n: '\n', t: '\t', r: '\r', b: '\b', f: '\f' } as Record<string, string>)[next] ?? next;
+      i += 2;
+      continue;
+    }
+    value += char;
+    i++;
+  }
+
+  return undefined;
+}
+
+/**
+ * Finds the method declared after an annotation, skipping further annotations
+ */
+function findAnnotatedMethod(
+  source: string,
+  start: number
+): { name: string; offset: number; signature: string; parameters: string[] } | undefined {
+  let i = start;
+
+  while (i < source.length) {
+    const rest = source.substring(i);
+    const whitespace = rest.match(/^\s+/);
+    if (whitespace) {
+      i += whitespace[0].length;
+      continue;
+    }
+
+    // Another annotation on the same method
+    const annotation = rest.match(/^@[\p{L}_$][\p{L}\p{N}_$.]*\s*/u);
+    if (annotation) {
+      i += annotation[0].length;
+      if (source[i] === '(') {
+        const args = readAnnotationArguments(source, i + 1);
+        if (!args) {
+          return undefined;
+        }
+        i = args.end;
+      }
+      continue;
+    }
+
+    // Modifiers, return type and generics up to the method name
+    const declaration = rest.match(/^[^;{}()=]*?([\p{L}_$][\p{L}\p{N}_$]*)\s*\(/u);
+    if (!declaration) {
+      return undefined;
+    }
+    const nameOffset = declaration[0].lastIndexOf(declaration[1]);
+    const parametersStart = i + declaration[0].length;
+    const parametersEnd = findClosingParenthesis(source, parametersStart);
+    const parameterList = source.substring(parametersStart, parametersEnd);
+    return {
+      name: declaration[1],
+      offset: i + nameOffset,
+      signature: source.substring(i, parametersEnd + 1).replace(/\s+/g, ' ').replace(/\(\s+/g, '(').replace(/\s+\)/g, ')'),
+      parameters: splitParameters(parameterList)
+    };
+  }
+
+  return undefined;
+}
+
+/**
+ * Finds the `)` closing a parameter list starting after its `(`
+ */
+function findClosingParenthesis(source: string, start: number): number {
+  let depth = 1;
+  for (let i = start; i < source.length; i++) {
+    if (source[i] === '(') {
+      depth++;
+    } else if (source[i] === ')') {
+      depth--;
+      if (depth === 0) {
+        return i;
+      }
+    }
+  }
+  return source.length;
+}
+
+/**
+ * Splits a parameter list on the commas that are not inside generics or annotations
+ */
+function splitParameters(parameterList: string): string[] {
+  const parameters: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const char of parameterList) {
+    if (char === '<' || char === '(') {
+      depth++;
+    } else if (char === '>' || char === ')') {
+      depth--;
+    } else if (char === ',' && depth === 0) {
+      parameters.push(current);
+      current = '';
+      continue;
+    }
+    current += char;
+  }
+  parameters.push(current);
+  return parameters.map(parameter => parameter.replace(/\s+/g, ' ').trim()).filter(parameter => parameter.length > 0);
+}
+
+/**
+ * Name of the innermost class whose body is open at an offset
+ *
+ * Braces are counted, so a nested class closed before the offset does not count.
+ */
+function findEnclosingClassName(maskedSource: string, offset: number): string | undefined {
+  const declaration = /(?:class|interface|enum|record)\s+([\p{L}_$][\p{L}\p{N}_$]*)/uy;
+  // Open blocks, with the name of the class for class bodies
+  const blocks: Array<string | undefined> = [];
+  let declared: string | undefined;
+
+  for (let i = 0; i < offset; i++) {
+    const char = maskedSource[i];
+    if (char === '"' || char === '\'') {
+      // Braces in string and char literals do not count
+      i++;
+      while (i < offset && maskedSource[i] !== char && maskedSource[i] !== '\n') {
+        i += maskedSource[i] === '\\' ? 2 : 1;
+      }
+    } else if (char === '{') {
+      blocks.push(declared);
+      declared = undefined;
+    } else if (char === '}') {
+      blocks.pop();
+    } else if (char === ';') {
+      declared = undefined;
+    } else if (!/[\p{L}\p{N}_$]/u.test(maskedSource[i - 1] ?? '')) {
+      declaration.lastIndex = i;
+      const match = declaration.exec(maskedSource);
+      if (match) {
+        declared = match[1];
+        i += match[0].length - 1;
+      }
+    }
+  }
+
+  for (let i = blocks.length - 1; i >= 0; i--) {
+    if (blocks[i] !== undefined) {
+      return blocks[i];
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Javadoc before the annotations of a method, without `/**`, `*` and `*\/` markers
+ */
+function findJavadoc(source: string, annotationOffset: number): string | undefined {
+  let end = annotationOffset;
+
+  for (;;) {
+    const before = source.substring(0, end).trimEnd();
+    if (before.endsWith('*/')) {
+      // A plain block comment is no Javadoc, whatever comes before it
+      const start = before.lastIndexOf('/*', before.length - 3);
+      if (start < 0 || !before.startsWith('/**', start)) {
+        return undefined;
+      }
+      const text = before
+        .substring(start + 3, before.length - 2)
+        .split(/\r?\n/)
+        .map(line => line.replace(/^\s*\*? ?/, '').trimEnd())
+        .join('\n')
+        .trim();
+      return text || undefined;
+    }
+
+    // Skip other annotations of the same method (e.g. a second step annotation)
+    const lineStart = before.lastIndexOf('\n') + 1;
+    if (!before.substring(lineStart).trim().startsWith('@')) {
+      return undefined;
+    }
+    end = lineStart;
+  }
+}
+
+/**
+ * Replaces comments with spaces, keeping offsets and line breaks intact
+ */
+function maskComments(source: string): string {
+  let result = '';
+  let i = 0;
+
+  while (i < source.length) {
+    const char = source[i];
+    const next = source[i + 1];
+
+    if (char === '"' || char === '\'') {
+      // Copy string and char literals verbatim
+      let end = i + 1;
+      while (end < source.length && source[end] !== char && source[end] !== '\n') {
+        end += source[end] === '\\' ? 2 : 1;
+      }
+      result += source.substring(i, end + 1);
+      i = end + 1;
+    } else if (char === '/' && next === '/') {
+      const end = source.indexOf('\n', i);
+      const stop = end < 0 ? source.length : end;
+      result += ' '.repeat(stop - i);
+      i = stop;
+    } else if (char === '/' && next === '*') {
+      const end = source.indexOf('*/', i + 2);
+      const stop = end < 0 ? source.length : end + 2;
+      result += source.substring(i, stop).replace(/[^\r\n]/g, ' ');
+      i = stop;
+    } else {
+      result += char;
+      i++;
+    }
+  }
+
+  return result;
+}
+
+function parsePackageName(maskedSource: string): string {
+  const match = maskedSource.match(/^\s*package\s+([\p{L}\p{N}_$.\s]+?)\s*;/mu);
+  return match ? match[1].replace(/\s+/g, '') : '';
+}
+
+function computeLineStarts(source: string): number[] {
+  const starts = [0];
+  for (let i = 0; i < source.length; i++) {
+    if (source[i] === '\n') {
+      starts.push(i + 1);
+    }
+  }
+  return starts;
+}
+
+function toLocation(lineStarts: number[], offset: number): JavaLocation {
+  let low = 0;
+  let high = lineStarts.length - 1;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (lineStarts[mid] <= offset) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return { line: low + 1, column: offset - lineStarts[low] + 1 };
+}
+
+/**
+ * Finds the `)` closing an optional text group, or -1
+ */
+function findOptionalEnd(expression: string, start: number): number {
+  for (let i = start + 1; i < expression.length; i++) {
+    if (expression[i] === '\\') {
+      i++;
+    } else if (expression[i] === ')') {
+      return i;
+    }
+  }
+  return -1;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+}
@@ -0,0 +1,275 @@
+/**
+ * Step definition snippets for undefined steps
+ *
+ * Cucumber suggests a Java method for every undefined step, both in the
+ * console ("You can implement missing steps with the snippets below:") and
+ * in the message protocol. These helpers collect those snippets and turn
+ * them into code for a steps class: inserted into an existing class or as a
+ * new `*Steps.java` file, with the imports the annotations need.
+ *
+ * @module step-snippets
+ */
+
+import { GHERKIN_DIALECTS } from './gherkin-parser';
+
+const ANNOTATION_LINE = /^\s*@([^\s(]+)\s*\(/;
+
+/**
+ * Extracts the Java snippets Cucumber printed in its console output
+ *
+ * A snippet starts at a step annotation (e.g. `@Given("...")`) and ends when
+ * the braces of the method that follows are balanced again.
+ *
+ * @example
+ * extractSnippetsFromOutput([
+ *   'You can implement missing steps with the snippets below:',
+ *   '',
+ *   '@Given("a user")',
+ *   'public void a_user() {',
+ *   '    throw new io.cucumber.java.PendingException();',
+ *   '}'
+ * ].join('\n'))
+ * // Returns: ['@Given("a user")\npublic void a_user() {\n    throw new io.cucumber.java.PendingException();\n}']
+ */
+export function extractSnippetsFromOutput(output: string): string[] {
+  const snippets: string[] = [];
+  const lines = output.split(/\r?\n/);
+
+  for (let i = 0; i < lines.length; i++) {
+    if (!ANNOTATION_LINE.test(lines[i]) || !isStepAnnotation(lines[i])) {
+      continue;
+    }
+    // Only lines that are followed by a method declaration are snippets
+    if (i + 1 >= lines.length || !/^\s*public\s+void\s+[\p{L}_$][\p{L}\p{N}_$]*\s*\(/u.test(lines[i + 1])) {
+      continue;
+    }
+
+    const snippetLines: string[] = [lines[i].trim()];
+    let depth = 0;
+    let opened = false;
+    let j = i + 1;
+    for (; j < lines.length; j++) {
+      snippetLines.push(lines[j].trimEnd());
+      for (const char of lines[j]) {
+        if (char === '{') {
+          depth++;
+          opened = true;
+        } else if (char === '}') {
+          depth--;
+        }
+      }
+      if (opened && depth <= 0) {
+        break;
+      }
+    }
+
+    if (opened && depth <= 0) {
+      snippets.push(normalizeSnippetIndent(snippetLines));
+      i = j;
+    }
+  }
+
+  return uniqueSnippets(snippets);
+}
+
+/**
+ * Removes snippets with the same annotation (the same step suggested twice)
+ */
+export function uniqueSnippets(snippets: string[]): string[] {
+  const seen = new Set<string>();
+  return snippets.filter(snippet => {
+    const key = snippetKey(snippet);
+    if (seen.has(key)) {
+      return false;
+    }
+    seen.add(key);
+    return true;
+  });
+}
+
+/**
+ * The annotation line identifying a snippet, e.g. `@Given("a user")`
+ */
+export function snippetKey(snippet: string): string {
+  const firstLine = snippet.trim().split(/\r?\n/)[0];
+  return firstLine.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Imports needed by the snippets: step annotations and `DataTable`
+ *
+ * @param preferredLanguage - Gherkin language of the feature, checked first
+ *   when an annotation name exists in several languages
+ */
+export function snippetImports(snippets: string[], preferredLanguage = 'en'): string[] {
+  const imports = new Set<string>();
+
+  for (const snippet of snippets) {
+    const match = snippet.trim().match(ANNOTATION_LINE);
+    const annotationImport = match ? findAnnotationImport(match[1], preferredLanguage) : undefined;
+    if (annotationImport) {
+      imports.add(annotationImport);
+    }
+    if (/\bDataTable\b/.test(snippet) && !/io\.cucumber\.datatable\.DataTable/.test(snippet)) {
+      imports.add('io.cucumber.datatable.DataTable');
+    }
+  }
+
+  return Array.from(imports).sort();
+}
+
+/**
+ * Adds snippets (and their imports) to the source of an existing steps class
+ *
+ * Snippets whose annotation already appears in the class are skipped. Methods
+ * are inserted before the closing brace of the class.
+ *
+ * @returns The new source, or undefined when the class has no closing brace
+ */
+export function insertSnippetsIntoClass(
+  javaSource: string,
+  snippets: string[],
+  preferredLanguage = 'en'
+): { source: string; added: number } | undefined {
+  const existing = new Set(
+    javaSource.split(/\r?\n/).filter(line => ANNOTATION_LINE.test(line)).map(line => snippetKey(line))
+  );
+  const missing = uniqueSnippets(snippets).filter(snippet => !existing.has(snippetKey(snippet)));
+  if (missing.length === 0) {
+    return { source: javaSource, added: 0 };
+  }
+
+  const closingBrace = javaSource.lastIndexOf('}');
+  if (closingBrace < 0) {
+    return undefined;
+  }
+
+  const eol = javaSource.includes('\r\n') ? '\r\n' : '\n';
+  const methods = missing.map(snippet => indentSnippet(snippet, '    ', eol)).join(eol + eol);
+  const beforeBrace = javaSource.substring(0, closingBrace).trimEnd();
+  let source = `${beforeBrace}${eol}${eol}${methods}${eol}${javaSource.substring(closingBrace)}`;
+
+  source = addImports(source, snippetImports(missing, preferredLanguage), eol);
+  return { source, added: missing.length };
+}
+
+/**
+ * Source of a new steps class containing the snippets
+ *
+ * @example
+ * createStepsClass('com.example.steps', 'LoginSteps', ['@Given("a user")\npublic void a_user() {\n}'])
+ * // package com.example.steps;
+ * //
+ * // import io.cucumber.java.en.Given;
+ * //
+ * // public class LoginSteps {
+ * //
+ * //     @Given("a user")
+ * //     public void a_user() {
+ * //     }
+ * // }
+ */
+export function createStepsClass(
+  packageName: string,
+  className: string,
+  snippets: string[],
+  preferredLanguage = 'en'
+): string {
+  const lines: string[] = [];
+  if (packageName) {
+    lines.push(`package ${packageName};`, '');
+  }
+
+  const imports = snippetImports(snippets, preferredLanguage);
+  if (imports.length > 0) {
+    lines.push(...imports.map(imp => `import ${imp};`), '');
+  }
+
+  lines.push(`public class ${className} {`, '');
+  lines.push(uniqueSnippets(snippets).map(snippet => indentSnippet(snippet, '    ', '\n')).join('\n\n'));
+  lines.push('}', '');
+  return lines.join('\n');
+}
+
+/**
+ * Java class name for the steps of a feature file, e.g. "user-login" → "UserLoginSteps"
+ */
+export function stepsClassNameForFeature(featureBaseName: string): string {
+  const words = featureBaseName.split(/[^A-Za-z0-9]+/).filter(word => word.length > 0);
+  let name = words.map(word => word.charAt(0).toUpperCase() + word.substring(1)).join('');
+  if (!name || /^\d/.test(name)) {
+    name = `Feature${name}`;
+  }
+  return name.endsWith('Steps') ? name : `${name}Steps`;
+}
+
+function isStepAnnotation(line: string): boolean {
+  const match = line.trim().match(ANNOTATION_LINE);
+  return !!match && findAnnotationImport(match[1], 'en') !== undefined;
+}
+
+/**
+ * Finds the cucumber-java annotation class for an annotation name
+ *
+ * cucumber-java generates one annotation per step keyword and language, in
+ * package `io.cucumber.java.<language>` (e.g. `io.cucumber.java.de.Angenommen`).
+ */
+export function findAnnotationImport(annotation: string, preferredLanguage: string): string | undefined {
+  const normalized = normalizeKeyword(annotation);
+  const languages = [preferredLanguage, 'en', ...Object.keys(GHERKIN_DIALECTS)];
+
+  for (const language of languages) {
+    const dialect = GHERKIN_DIALECTS[language];
+    if (!dialect) {
+      continue;
+    }
+    const keywords = [...dialect.given, ...dialect.when, ...dialect.then, ...dialect.and, ...dialect.but];
+    if (keywords.some(keyword => keyword.trim() !== '*' && normalizeKeyword(keyword) === normalized)) {
+      return `io.cucumber.java.${language.replace(/-/g, '_').toLowerCase()}.${annotation}`;
+    }
+  }
+  return undefined;
+}
+
+function normalizeKeyword(keyword: string): string {
+  return keyword.replace(/[^\p{L}\p{N}]/gu, '').toLowerCase();
+}
+
+function normalizeSnippetIndent(lines: string[]): string {
+  const indents = lines
+    .slice(1)
+    .filter(line => line.trim().length > 0)
+    .map(line => line.length - line.trimStart().length);
+  const common = indents.length > 0 ? Math.min(...indents) : 0;
+  return [lines[0], ...lines.slice(1).map(line => line.substring(Math.min(common, line.length - line.trimStart().length)))].join('\n');
+}
+
+function indentSnippet(snippet: string, indent: string, eol: string): string {
+  return snippet
+    .trim()
+    .split(/\r?\n/)
+    .map(line => (line.trim().length > 0 ? indent + line : ''))
+    .join(eol);
+}
+
+function addImports(source: string, imports: string[], eol: string): string {
+  const missing = imports.filter(imp => !new RegExp(`^\\s*import\\s+${imp.replace(/\./g, '\\.')}\\s*;`, 'm').test(source));
+  if (missing.length === 0) {
+    return source;
+  }
+
+  const importBlock = missing.map(imp => `import ${imp};`).join(eol);
+  const lastImport = [...source.matchAll(/^\s*import\s+[^;]+;[^\S\r\n]*$/gm)].pop();
+  if (lastImport && lastImport.index !== undefined) {
+    const end = lastImport.index + lastImport[0].length;
+    return `${source.substring(0, end)}${eol}${importBlock}${source.substring(end)}`;
+  }
+
+  const packageMatch = source.match(/^\s*package\s+[^;]+;[^\S\r\n]*$/m);
+  if (packageMatch && packageMatch.index !== undefined) {
+    const end = packageMatch.index + packageMatch[0].length;
+    return `${source.substring(0, end)}${eol}${eol}${importBlock}${source.substring(end)}`;
+  }
+
+  return `${importBlock}${eol}${eol}${source}`;
+}
@@ -0,0 +1,149 @@
+/**
+ * Cucumber tag expressions
+ *
+ * Parses the boolean tag expressions accepted by `cucumber.filter.tags`
+ * (e.g. `@smoke and not (@wip or @slow)`) so that the extension can tell
+ * which scenarios a run will select, the way Cucumber does: `not` binds
+ * tighter than `and`, which binds tighter than `or`. A `\` escapes spaces,
+ * parentheses and backslashes in tag names.
+ *
+ * @module tag-expressions
+ */
+
+export interface TagExpression {
+  /** Whether a set of tags (with their `@`) satisfies the expression */
+  evaluate(tags: string[]): boolean;
+  /** The expression with explicit parentheses, e.g. `( @a and not ( @b ) )` */
+  toString(): string;
+}
+
+const OPERATORS = new Set(['and', 'or', 'not']);
+
+/**
+ * Parses a tag expression
+ *
+ * An empty expression matches everything.
+ *
+ * @throws Error with a message fit for the user when the expression is invalid
+ *
+ * @example
+ * parseTagExpression('@smoke and not @wip').evaluate(['@smoke']) // Returns: true
+ */
+export function parseTagExpression(expression: string): TagExpression {
+  const tokens = tokenize(expression);
+  if (tokens.length === 0) {
+    return { evaluate: () => true, toString: () => 'true' };
+  }
+
+  let position = 0;
+  const peek = () => tokens[position];
+
+  const parseOr = (): TagExpression => {
+    let left = parseAnd();
+    while (peek() === 'or') {
+      position++;
+      left = binary('or', left, parseAnd());
+    }
+    return left;
+  };
+
+  const parseAnd = (): TagExpression => {
+    let left = parseNot();
+    while (peek() === 'and') {
+      position++;
+      left = binary('and', left, parseNot());
+    }
+    return left;
+  };
+
+  const parseNot = (): TagExpression => {
+    const token = peek();
+    if (token === undefined) {
+      throw new Error(`Tag expression "${expression}" ends where a tag was expected`);
+    }
+    position++;
+
+    if (token === 'not') {
+      const operand = parseNot();
+      return { evaluate: tags => !operand.evaluate(tags), toString: () => `not ( ${operand} )` };
+    }
+    if (token === '(') {
+      const inner = parseOr();
+      if (peek() !== ')') {
+        throw new Error(`Tag expression "${expression}" has an unclosed "("`);
+      }
+      position++;
+      return inner;
+    }
+    if (token === ')' || OPERATORS.has(token)) {
+      throw new Error(`Tag expression "${expression}" has "${token}" where a tag was expected`);
+    }
+    if (!token.startsWith('@')) {
+      throw new Error(`Tag expression "${expression}": tags start with "@" (found "${token}")`);
+    }
+    return { evaluate: tags => tags.includes(token), toString: () => token.replace(/([\\() ])/g, '\\$1') };
+  };
+
+  const result = parseOr();
+  if (position < tokens.length) {
+    throw new Error(`Tag expression "${expression}" has an unexpected "${tokens[position]}"`);
+  }
+  return result;
+}
+
+/**
+ * Combines tag expressions with `and`, leaving out empty ones
+ *
+ * @example
+ * combineTagExpressions('@a or @b', '', 'not @wip') // Returns: '(@a or @b) and (not @wip)'
+ */
+export function combineTagExpressions(...expressions: Array<string | undefined>): string {
+  const parts = expressions.map(expression => (expression || '').trim()).filter(expression => expression.length > 0);
+  return parts.length > 1 ? parts.map(expression => `(${expression})`).join(' and ') : parts.join('');
+}
+
+function binary(operator: 'and' | 'or', left: TagExpression, right: TagExpression): TagExpression {
+  return {
+    evaluate: operator === 'and'
+      ? tags => left.evaluate(tags) && right.evaluate(tags)
+      : tags => left.evaluate(tags) || right.evaluate(tags),
+    toString: () => `( ${left} ${operator} ${right} )`
+  };
+}
+
+function tokenize(expression: string): string[] {
+  const tokens: string[] = [];
+  let current = '';
+  let escaped = false;
+
+  const flush = () => {
+    if (current) {
+      tokens.push(current);
+      current = '';
+    }
+  };
+
+  for (const char of expression) {
+    if (escaped) {
+      if (char !== '(' && char !== ')' && char !== '\\' && !/\s/.test(char)) {
+        throw new Error(`Tag expression "${expression}": only whitespace, "(", ")" and "\\" can be escaped`);
+      }
+      current += char;
+      escaped = false;
+    } else if (char === '\\') {
+      escaped = true;
+    } else if (char === '(' || char === ')') {
+      flush();
+      tokens.push(char);
+    } else if (/\s/.test(char)) {
+      flush();
+    } else {
+      current += char;
+    }
+  }
+  if (escaped) {
+    throw new Error(`Tag expression "${expression}" ends with an escape character`);
+  }
+  flush();
+  return tokens;
+}